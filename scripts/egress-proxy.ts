@@ -0,0 +1,296 @@
+#!/usr/bin/env -S deno run --allow-net --allow-read
+
+/**
+ * Egress proxy
+ *
+ * Filtering forward proxy for MCP server containers on the manager's internal
+ * Docker network. Each server gets its own proxy port, so a request is checked
+ * against the allowlist of the server that made it. Both CONNECT tunnels
+ * (HTTPS) and plain HTTP requests with an absolute URL are supported.
+ *
+ * Containers on an internal network can't publish ports, so the proxy also
+ * forwards a server's published port to its container when `inbound` is set.
+ *
+ * Denied attempts are written to stdout as one JSON object per line:
+ * `{"time":"...","server":"mcp-slack","action":"deny","host":"evil.com","port":443}`
+ *
+ * Usage: egress-proxy.ts <config.json>
+ *
+ * @module
+ */
+
+interface EgressRoute {
+  /** Server the route belongs to */
+  server: string
+  /** Port the server's HTTP_PROXY points at */
+  proxyPort: number
+  /** Hosts the server may reach, each also allows its subdomains */
+  allowedHosts: string[]
+  /** Published port forwarded to the server's container */
+  inbound?: { port: number; host: string; targetPort: number; hostIp?: string }
+}
+
+interface EgressProxyConfig {
+  routes: EgressRoute[]
+}
+
+/** Largest request head accepted before the connection is dropped */
+const MAX_HEAD_BYTES = 64 * 1024
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function log(entry: Record<string, unknown>): void {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }))
+}
+
+/**
+ * Check a host against an allowlist. `example.com` allows `example.com` and
+ * every subdomain of it, IP addresses must be listed exactly
+ */
+function isHostAllowed(host: string, allowedHosts: string[]): boolean {
+  const name = host.toLowerCase().replace(/\.$/, '')
+  const isIp = /^[\d.]+$/.test(name) || name.includes(':')
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase().replace(/\.$/, '')
+    return name === allowed || (!isIp && name.endsWith(`.${allowed}`))
+  })
+}
+
+/**
+ * Split `host:port`, including bracketed IPv6 addresses
+ */
+function parseAuthority(
+  authority: string,
+  defaultPort: number,
+): { host: string; port: number } | undefined {
+  const match = authority.match(/^(\[[^\]]+\]|[^:]+)(?::(\d+))?$/)
+  if (!match) return undefined
+  const port = match[2] ? Number(match[2]) : defaultPort
+  if (!Number.isInteger(port) || port < 1 || port > 65535) return undefined
+  return { host: match[1].replace(/^\[|\]$/g, ''), port }
+}
+
+/**
+ * Find the end of a request head, the index just past its blank line
+ */
+function findHeadEnd(buffer: Uint8Array): number {
+  for (let i = 3; i < buffer.length; i++) {
+    if (
+      buffer[i - 3] === 13 && buffer[i - 2] === 10 &&
+      buffer[i - 1] === 13 && buffer[i] === 10
+    ) {
+      return i + 1
+    }
+  }
+  return -1
+}
+
+/**
+ * Read from a connection until the end of the request head
+ *
+ * @returns The head and any bytes read after it, undefined if the client
+ *   closed the connection or sent too much
+ */
+async function readHead(
+  conn: Deno.Conn,
+): Promise<{ head: string; rest: Uint8Array } | undefined> {
+  let buffer = new Uint8Array(0)
+  const chunk = new Uint8Array(16 * 1024)
+
+  while (buffer.length < MAX_HEAD_BYTES) {
+    const read = await conn.read(chunk)
+    if (read === null) return undefined
+
+    const next = new Uint8Array(buffer.length + read)
+    next.set(buffer)
+    next.set(chunk.subarray(0, read), buffer.length)
+    buffer = next
+
+    const end = findHeadEnd(buffer)
+    if (end !== -1) {
+      return {
+        head: decoder.decode(buffer.subarray(0, end)),
+        rest: buffer.subarray(end),
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Copy data both ways until either side closes, then close both
+ */
+async function pipe(a: Deno.Conn, b: Deno.Conn): Promise<void> {
+  await Promise.allSettled([
+    a.readable.pipeTo(b.writable),
+    b.readable.pipeTo(a.writable),
+  ])
+  for (const conn of [a, b]) {
+    try {
+      conn.close()
+    } catch {
+      // Already closed by pipeTo
+    }
+  }
+}
+
+async function respond(conn: Deno.Conn, status: string): Promise<void> {
+  try {
+    await conn.write(
+      encoder.encode(
+        `HTTP/1.1 ${status}\r\nContent-Length: 0\r\nConnection: close\r\n\r\n`,
+      ),
+    )
+  } finally {
+    conn.close()
+  }
+}
+
+/**
+ * Handle one client connection on a server's proxy port
+ */
+async function handleProxyConnection(
+  route: EgressRoute,
+  client: Deno.Conn,
+): Promise<void> {
+  const request = await readHead(client)
+  if (!request) {
+    client.close()
+    return
+  }
+
+  const [requestLine, ...headerLines] = request.head.split('\r\n')
+  const [method, target, version] = requestLine.split(' ')
+  const isConnect = method?.toUpperCase() === 'CONNECT'
+
+  let authority: { host: string; port: number } | undefined
+  let path = '/'
+  if (isConnect) {
+    authority = parseAuthority(target ?? '', 443)
+  } else {
+    try {
+      const url = new URL(target ?? '')
+      if (url.protocol === 'http:') {
+        authority = parseAuthority(url.host, 80)
+        path = `${url.pathname}${url.search}`
+      }
+    } catch {
+      // Not an absolute URL, the client isn't using us as a proxy
+    }
+  }
+
+  if (!authority) {
+    await respond(client, '400 Bad Request')
+    return
+  }
+
+  const { host, port } = authority
+  if (!isHostAllowed(host, route.allowedHosts)) {
+    log({ server: route.server, action: 'deny', host, port })
+    await respond(client, '403 Forbidden')
+    return
+  }
+
+  let upstream: Deno.Conn
+  try {
+    upstream = await Deno.connect({ hostname: host, port })
+  } catch (error) {
+    log({
+      server: route.server,
+      action: 'error',
+      host,
+      port,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    await respond(client, '502 Bad Gateway')
+    return
+  }
+
+  if (isConnect) {
+    await client.write(
+      encoder.encode('HTTP/1.1 200 Connection Established\r\n\r\n'),
+    )
+  } else {
+    // One upstream per connection, a kept-alive client could otherwise send
+    // its next request to a different host through this one
+    const headers = headerLines.filter((line) =>
+      line && !/^(proxy-)?connection:/i.test(line)
+    )
+    await upstream.write(
+      encoder.encode(
+        [`${method} ${path} ${version}`, ...headers, 'Connection: close', '']
+          .join('\r\n') + '\r\n',
+      ),
+    )
+  }
+  if (request.rest.length > 0) await upstream.write(request.rest)
+
+  await pipe(client, upstream)
+}
+
+/**
+ * Forward one connection on a published port to the server's container
+ */
+async function handleInboundConnection(
+  route: EgressRoute,
+  client: Deno.Conn,
+): Promise<void> {
+  const inbound = route.inbound
+  if (!inbound) return
+
+  let upstream: Deno.Conn
+  try {
+    upstream = await Deno.connect({
+      hostname: inbound.host,
+      port: inbound.targetPort,
+    })
+  } catch {
+    // The container is still starting or has stopped
+    client.close()
+    return
+  }
+  await pipe(client, upstream)
+}
+
+async function serve(
+  port: number,
+  route: EgressRoute,
+  handler: (route: EgressRoute, conn: Deno.Conn) => Promise<void>,
+): Promise<void> {
+  for await (const conn of Deno.listen({ port })) {
+    handler(route, conn).catch((error) => {
+      console.error(`${route.server}:`, error)
+      try {
+        conn.close()
+      } catch {
+        // Already closed
+      }
+    })
+  }
+}
+
+if (import.meta.main) {
+  const configPath = Deno.args[0]
+  if (!configPath) {
+    console.error('Usage: egress-proxy.ts <config.json>')
+    Deno.exit(1)
+  }
+
+  const config: EgressProxyConfig = JSON.parse(
+    await Deno.readTextFile(configPath),
+  )
+  const listeners: Promise<void>[] = []
+  for (const route of config.routes) {
+    listeners.push(serve(route.proxyPort, route, handleProxyConnection))
+    if (route.inbound) {
+      listeners.push(serve(route.inbound.port, route, handleInboundConnection))
+    }
+    console.error(
+      `${route.server}: proxy on ${route.proxyPort}, allowing ${
+        route.allowedHosts.join(', ') || 'nothing'
+      }`,
+    )
+  }
+  await Promise.all(listeners)
+}
@@ -33,9 +33,21 @@ const COMMANDS: Record<string, CommandRouteDefinition> = {
   stop: (await import('./commands/stop.ts')).default,
   status: (await import('./commands/status.ts')).default,
   'health-check': (await import('./commands/health-check.ts')).default,
-  // DISABLED FOR NOW:sync: (await import('./commands/sync.ts')).default,
+  supervise: (await import('./commands/supervise.ts')).default,
+  sync: (await import('./commands/sync.ts')).default,
+  validate: (await import('./commands/validate.ts')).default,
+  tools: (await import('./commands/tools.ts')).default,
+  call: (await import('./commands/call.ts')).default,
+  audit: (await import('./commands/audit.ts')).default,
+  egress: (await import('./commands/egress.ts')).default,
+  ports: (await import('./commands/ports.ts')).default,
   update: (await import('./commands/update.ts')).default,
+  rollback: (await import('./commands/rollback.ts')).default,
   logs: (await import('./commands/logs.ts')).default,
+  add: (await import('./commands/add.ts')).default,
+  remove: (await import('./commands/remove.ts')).default,
+  secrets: (await import('./commands/secrets.ts')).default,
+  exec: (await import('./commands/exec.ts')).default,
   // Add more commands if needed, a template for a command is in commands/example.disabled.ts
 }
 
@@ -0,0 +1,186 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import { promptSelect } from '@std/cli/unstable-prompt-select'
+import logger from '../utils/logger.ts'
+import {
+  clearMcpServerConfigCache,
+  getEnvFilePath,
+  getMcpServerConfig,
+} from '../config.ts'
+import { confirm, promptText } from '../presentation.ts'
+import {
+  copyServerTemplate,
+  isValidServerName,
+  type ScaffoldedFiles,
+  type ServerScaffold,
+  writeServerScaffold,
+} from '../services/server-scaffold-service.ts'
+import type {
+  EnvVarDefinition,
+  HealthValidatorConfig,
+  McpTransportType,
+} from '../types.ts'
+import { command as startCommand } from './start.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'add',
+  command: command,
+  description:
+    'Scaffold a new MCP server interactively or from an example template',
+  options: {
+    string: ['template'],
+    alias: { t: 'template' },
+  },
+}
+
+const TRANSPORT_TYPES: McpTransportType[] = ['stdio', 'http', 'streamable-http']
+const ENV_VAR_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const SECRET_ENV_VAR_PATTERN = /TOKEN|SECRET|PASSWORD|KEY/i
+
+async function command({ args, routes }: CommandRouteOptions): Promise<void> {
+  // The server name can be passed positionally: `add <name>`
+  const name = String(
+    args._[0] ?? promptText('Server name (e.g. mcp-myservice):'),
+  )
+
+  if (!isValidServerName(name)) {
+    logger.error(
+      `Invalid server name "${name}". Use lowercase letters, digits, dashes and underscores.`,
+    )
+    return
+  }
+
+  if (await getMcpServerConfig(name)) {
+    logger.error(`Server "${name}" already exists`)
+    return
+  }
+
+  let files: ScaffoldedFiles
+  try {
+    const template = args.template as string | undefined
+    files = template
+      ? await copyServerTemplate(template, name)
+      : await writeServerScaffold(await askForScaffold(name))
+  } catch (error) {
+    logger.error(`Failed to add ${name}: ${(error as Error).message}`)
+    return
+  }
+
+  logger.info(`Created ${files.configPath}`)
+  if (files.envExamplePath) logger.info(`Created ${files.envExamplePath}`)
+
+  // Load the new file through the regular config loader to validate it
+  clearMcpServerConfigCache()
+  const server = await getMcpServerConfig(name)
+  if (!server) {
+    logger.error(
+      `${files.configPath} was written but could not be loaded, see the errors above. If you use ENABLED_SERVERS in servers/config/main.env, add ${name} to it.`,
+    )
+    return
+  }
+  logger.info(`Validated configuration for ${server.description} (${name})`)
+
+  logger.info(
+    `Next, create ${getEnvFilePath(name)} with your credentials${
+      files.envExamplePath
+        ? `, using ${files.envExamplePath} as a starting point`
+        : ''
+    }.`,
+  )
+
+  if (await confirm(`Would you like to start ${name} now?`)) {
+    await startCommand({ args: { _: [], server: name }, routes })
+  }
+}
+
+/**
+ * Interactively collect the answers needed to scaffold a server
+ *
+ * @param name Name of the new server
+ * @returns Answers for the server scaffold
+ * @throws {Error} If a required answer is missing or invalid
+ */
+async function askForScaffold(name: string): Promise<ServerScaffold> {
+  const description = promptText('Description:', name)
+
+  const type = (promptSelect('Transport:', TRANSPORT_TYPES, { clear: false }) ??
+    'stdio') as McpTransportType
+
+  const image = promptText('Docker image (e.g. ghcr.io/myorg/myimage:latest):')
+  if (!image) {
+    throw new Error('A Docker image is required')
+  }
+
+  const serverArgs = promptText(
+    'Arguments passed to the image (space separated):',
+    type === 'http' ? '--transport sse' : '',
+  ).split(/\s+/).filter(Boolean)
+
+  const envVarNames = promptText(
+    'Environment variable names (comma separated):',
+  ).split(',').map((envVar) => envVar.trim()).filter(Boolean)
+  const invalidEnvVars = envVarNames.filter((envVar) =>
+    !ENV_VAR_PATTERN.test(envVar)
+  )
+  if (invalidEnvVars.length > 0) {
+    throw new Error(
+      `Invalid environment variable names: ${invalidEnvVars.join(', ')}`,
+    )
+  }
+
+  const envVars: EnvVarDefinition[] = []
+  for (const envVarName of envVarNames) {
+    const envVarDescription = promptText(
+      `What is ${envVarName} used for?`,
+      envVarName,
+    )
+    const required = await confirm(`Is ${envVarName} required?`)
+    const secret = await confirm(
+      `Is ${envVarName} a secret?`,
+      SECRET_ENV_VAR_PATTERN.test(envVarName),
+    )
+    envVars.push({
+      name: envVarName,
+      description: envVarDescription,
+      ...(required ? {} : { required }),
+      ...(secret ? { secret } : {}),
+    })
+  }
+
+  let healthValidator: HealthValidatorConfig | undefined
+  if (await confirm('Would you like to add a health validator?')) {
+    const method = promptText('MCP method to call:', 'tools/list')
+    const responseContains = promptText(
+      'String the response must contain (optional):',
+      method === 'tools/list' ? 'tools' : '',
+    )
+    const timeoutMs = Number.parseInt(
+      promptText(
+        'Timeout in milliseconds:',
+        type === 'stdio' ? '10000' : '5000',
+      ),
+      10,
+    )
+    healthValidator = {
+      method,
+      params: {},
+      ...(responseContains ? { responseContains } : {}),
+      ...(Number.isNaN(timeoutMs) ? {} : { timeoutMs }),
+    }
+  }
+
+  return {
+    name,
+    description,
+    type,
+    image,
+    args: serverArgs,
+    envVars,
+    ...(healthValidator ? { healthValidator } : {}),
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,199 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfigs, isHttpServer } from '../config.ts'
+import { isServerRunning } from '../orchestrator.ts'
+import { openServerSession } from '../services/health-validator-service.ts'
+import {
+  getPromptTemplate,
+  getServerInventory,
+  type ServerInventory,
+} from '../services/inventory-service.ts'
+import {
+  type AuditFinding,
+  type AuditSeverity,
+  type AuditTarget,
+  auditTargets,
+  collectAuditTargets,
+} from '../services/audit-service.ts'
+import type { McpSession } from '../services/mcp-session-service.ts'
+import { validateServerSelection } from '../utils/server-validator.ts'
+import type { McpServerConfig } from '../types.ts'
+import type { GetPromptResult } from '../../vendor/mcp-specification.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'audit',
+  command: command,
+  description:
+    'Scan tool descriptions, prompt templates and resources for prompt injection and tool poisoning',
+  options: {
+    boolean: ['json'],
+    default: { json: false },
+  },
+}
+
+/**
+ * Everything a server shows to the model, or the reason it couldn't be read
+ */
+interface ServerMetadata {
+  server: McpServerConfig
+  inventory?: ServerInventory
+  /** Texts to audit, unset if the metadata couldn't be read */
+  targets?: AuditTarget[]
+  error?: string
+}
+
+const SEVERITY_COLORS: Record<AuditSeverity, (text: string) => string> = {
+  high: colors.red,
+  medium: colors.yellow,
+  low: colors.dim,
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const targetServer = args.server as string | undefined
+  if (targetServer && !(await validateServerSelection(targetServer))) {
+    return
+  }
+
+  const servers = (await getMcpServerConfigs()).filter((server) =>
+    !targetServer || server.name === targetServer
+  )
+  if (servers.length === 0) {
+    logger.error('No MCP server configurations found')
+    return
+  }
+
+  const metadata: ServerMetadata[] = []
+  for (const server of servers) {
+    if (isHttpServer(server) && !await isServerRunning(server)) {
+      const error = `${server.name} is not running, start it first`
+      if (targetServer) throw new Error(error)
+      logger.warn(`Skipping ${error}`)
+      continue
+    }
+    metadata.push(await readServerMetadata(server))
+  }
+
+  // Tool names of every audited server, to spot tools pointing at another server's tools
+  const toolsByServer = new Map(
+    metadata.map(({ server, inventory }) => [
+      server.name,
+      (inventory?.tools ?? []).map((tool) => tool.name),
+    ]),
+  )
+
+  const results = metadata.map(
+    ({ server, targets, error }) => {
+      if (!targets) return { name: server.name, error, findings: [] }
+
+      const ownTools = new Set(toolsByServer.get(server.name))
+      const foreignTools = new Set(
+        [...toolsByServer].filter(([name]) => name !== server.name)
+          .flatMap(([, tools]) => tools)
+          .filter((tool) => !ownTools.has(tool)),
+      )
+      const findings = auditTargets(targets, { ownTools, foreignTools })
+      return { name: server.name, findings }
+    },
+  )
+
+  if (args.json === true) {
+    logger.print(JSON.stringify(results, null, 2))
+  } else {
+    for (const result of results) {
+      displayFindings(result.name, result.findings, result.error)
+    }
+  }
+
+  const highCount = results.flatMap((result) => result.findings)
+    .filter((finding) => finding.severity === 'high').length
+  const failed = results.filter((result) => result.error)
+  if (highCount > 0) {
+    throw new Error(`Audit found ${highCount} high severity issue(s)`)
+  }
+  if (failed.length > 0) {
+    throw new Error(
+      `Could not audit ${failed.map((result) => result.name).join(', ')}`,
+    )
+  }
+}
+
+/**
+ * List a server's tools, resources and prompts, including the messages of
+ * every prompt template
+ */
+async function readServerMetadata(
+  server: McpServerConfig,
+): Promise<ServerMetadata> {
+  let session: McpSession | undefined
+  try {
+    session = await openServerSession(server, server.healthValidator?.timeoutMs)
+    const inventory = await getServerInventory(session)
+
+    const promptTemplates: Record<string, GetPromptResult> = {}
+    for (const prompt of inventory.prompts) {
+      try {
+        promptTemplates[prompt.name] = await getPromptTemplate(session, prompt)
+      } catch (error) {
+        // The description and arguments are still audited
+        logger.debug(
+          `Could not get prompt ${prompt.name} of ${server.name}:`,
+          error,
+        )
+      }
+    }
+
+    // Collected here so a malformed reply only fails this server's audit
+    const targets = collectAuditTargets({ ...inventory, promptTemplates })
+    return { server, inventory, targets }
+  } catch (error) {
+    logger.debug(`Error reading ${server.name}:`, error)
+    return {
+      server,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    await session?.close()
+  }
+}
+
+function displayFindings(
+  name: string,
+  findings: AuditFinding[],
+  error?: string,
+): void {
+  logger.print(`\n${colors.bold(name)}`)
+
+  if (error) {
+    logger.print(`  ${colors.red('error')} ${error}`)
+    return
+  }
+  if (findings.length === 0) {
+    logger.print(`  ${colors.green('✓')} No findings`)
+    return
+  }
+
+  for (const finding of findings) {
+    const severity = SEVERITY_COLORS[finding.severity](
+      finding.severity.toUpperCase().padEnd(6),
+    )
+    logger.print(
+      `  ${severity} ${finding.kind} ${colors.cyan(finding.name)} ${
+        colors.dim(finding.field)
+      }: ${finding.message} ${colors.dim(`[${finding.ruleId}]`)}`,
+    )
+    logger.print(`         ${colors.dim(`"${finding.excerpt}"`)}`)
+  }
+
+  const count = (severity: AuditSeverity) =>
+    findings.filter((finding) => finding.severity === severity).length
+  logger.print(
+    `  ${count('high')} high, ${count('medium')} medium, ${count('low')} low`,
+  )
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,175 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfig, isHttpServer } from '../config.ts'
+import { isServerRunning } from '../orchestrator.ts'
+import { openServerSession } from '../services/health-validator-service.ts'
+import { listAllPages } from '../services/inventory-service.ts'
+import type { McpSession } from '../services/mcp-session-service.ts'
+import { validateJsonSchema } from '../utils/json-schema.ts'
+import type {
+  CallToolRequest,
+  CallToolResult,
+  ListToolsResult,
+  Tool,
+} from '../../vendor/mcp-specification.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'call',
+  command: command,
+  description:
+    "Call a server's tool with JSON arguments and print the result, e.g. call --server=mcp-slack <tool> --args='{...}'",
+  options: {
+    string: ['args', 'timeout'],
+    boolean: ['json'],
+    default: { args: '{}', timeout: '60', json: false },
+    alias: { a: 'args', t: 'timeout' },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const serverName = args.server as string | undefined
+  const toolName = args._[0] !== undefined ? String(args._[0]) : undefined
+  if (!serverName || !toolName) {
+    throw new Error(
+      "Please specify the server and tool, e.g. `call --server=mcp-slack <tool> --args='{...}'`",
+    )
+  }
+
+  const toolArgs = parseToolArgs(String(args.args))
+  const timeoutSeconds = Number(args.timeout)
+  if (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0) {
+    throw new Error(
+      `--timeout must be a positive number of seconds, got "${args.timeout}"`,
+    )
+  }
+
+  const server = await getMcpServerConfig(serverName)
+  if (!server) {
+    throw new Error(`Server "${serverName}" not found or not enabled`)
+  }
+  if (isHttpServer(server) && !await isServerRunning(server)) {
+    throw new Error(`${serverName} is not running, start it first`)
+  }
+
+  let session: McpSession | undefined
+  try {
+    session = await openServerSession(server, timeoutSeconds * 1000)
+
+    const tools = await listAllPages<ListToolsResult, Tool>(
+      session,
+      'tools/list',
+      (page) => page.tools,
+    )
+    const tool = tools.find((candidate) => candidate.name === toolName)
+    if (!tool) {
+      throw new Error(
+        `${serverName} has no tool "${toolName}". Available tools: ${
+          tools.map((candidate) => candidate.name).join(', ') || 'none'
+        }`,
+      )
+    }
+
+    const errors = validateJsonSchema(toolArgs, tool.inputSchema)
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid arguments for ${toolName}:\n  ${errors.join('\n  ')}`,
+      )
+    }
+
+    const params: CallToolRequest['params'] = {
+      name: toolName,
+      arguments: toolArgs,
+    }
+    const result = await session.request<CallToolResult>('tools/call', params)
+
+    if (args.json === true) {
+      logger.print(JSON.stringify(result, null, 2))
+    } else {
+      displayToolResult(result)
+    }
+
+    if (result.isError) {
+      throw new Error(`${toolName} reported an error`)
+    }
+  } finally {
+    await session?.close()
+  }
+}
+
+/**
+ * Parse `--args`, which must be a JSON object
+ */
+function parseToolArgs(json: string): Record<string, unknown> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    throw new Error(
+      `--args is not valid JSON: ${
+        error instanceof Error ? error.message : error
+      }`,
+    )
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`--args must be a JSON object, e.g. '{"query": "hello"}'`)
+  }
+  return parsed as Record<string, unknown>
+}
+
+/**
+ * Approximate decoded size of base64 data
+ */
+function formatBase64Size(data: string): string {
+  const bytes = Math.floor(data.length * 3 / 4)
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+/**
+ * Print each content block of a tool result, summarizing binary data
+ */
+function displayToolResult(result: CallToolResult): void {
+  if (result.isError) logger.print(colors.red('Tool returned an error:'))
+
+  for (const block of result.content ?? []) {
+    switch (block.type) {
+      case 'text':
+        logger.print(block.text)
+        break
+      case 'image':
+      case 'audio':
+        logger.print(
+          colors.dim(
+            `[${block.type} ${block.mimeType}, ${
+              formatBase64Size(block.data)
+            }]`,
+          ),
+        )
+        break
+      case 'resource': {
+        const { resource } = block
+        logger.print(
+          colors.dim(
+            `[resource ${resource.uri}${
+              resource.mimeType ? ` ${resource.mimeType}` : ''
+            }]`,
+          ),
+        )
+        logger.print(
+          'text' in resource
+            ? resource.text
+            : colors.dim(`[binary, ${formatBase64Size(resource.blob)}]`),
+        )
+        break
+      }
+      default:
+        logger.print(JSON.stringify(block, null, 2))
+    }
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,97 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfigs } from '../config.ts'
+import { isContainerRunning } from '../services/docker-service.ts'
+import {
+  EGRESS_PROXY_CONTAINER,
+  getDeniedEgress,
+  hasEgressAllowlist,
+  readEgressProxyConfig,
+} from '../services/egress-service.ts'
+import { validateServerSelection } from '../utils/server-validator.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'egress',
+  command: command,
+  description:
+    "Show each server's outbound allowlist and the connections the egress proxy denied",
+  options: {
+    boolean: ['json'],
+    default: { json: false },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const targetServer = args.server as string | undefined
+  if (targetServer && !(await validateServerSelection(targetServer))) {
+    return
+  }
+
+  const servers = (await getMcpServerConfigs()).filter((server) =>
+    !targetServer || server.name === targetServer
+  )
+  const routes = (await readEgressProxyConfig()).routes
+  const proxyRunning = await isContainerRunning(EGRESS_PROXY_CONTAINER)
+  const denied = (await getDeniedEgress()).filter((attempt) =>
+    servers.some((server) => server.name === attempt.server)
+  )
+
+  const results = servers.map((server) => ({
+    name: server.name,
+    restricted: hasEgressAllowlist(server),
+    allowedHosts: server.egress?.allowedHosts ?? [],
+    proxyPort: routes.find((route) => route.server === server.name)
+      ?.proxyPort,
+    denied: denied.filter((attempt) => attempt.server === server.name),
+  }))
+
+  if (args.json === true) {
+    logger.print(JSON.stringify({ proxyRunning, servers: results }, null, 2))
+    return
+  }
+
+  logger.print(
+    `Egress proxy: ${
+      proxyRunning ? colors.green('running') : colors.dim('not running')
+    }`,
+  )
+
+  for (const result of results) {
+    logger.print(`\n${colors.bold(result.name)}`)
+    if (!result.restricted) {
+      logger.print(`  ${colors.yellow('unrestricted')} no egress allowlist`)
+      continue
+    }
+
+    logger.print(
+      `  Allowed: ${result.allowedHosts.join(', ') || colors.dim('nothing')}`,
+    )
+    if (result.proxyPort === undefined) {
+      logger.print(
+        `  ${
+          colors.dim('Not registered with the proxy yet, start the server')
+        }`,
+      )
+    }
+    if (result.denied.length === 0) {
+      logger.print(`  ${colors.green('✓')} No denied connections`)
+      continue
+    }
+
+    logger.print(`  Denied:`)
+    for (const attempt of result.denied) {
+      logger.print(
+        `    ${colors.red(`${attempt.host}:${attempt.port}`)} ${
+          colors.dim(`${attempt.count}x, last ${attempt.lastSeen}`)
+        }`,
+      )
+    }
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -0,0 +1,89 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import {
+  getEnvFilePath,
+  getMcpServerConfig,
+  isNativeServer,
+} from '../config.ts'
+import {
+  buildInteractiveRunArgs,
+  getSecurityArgs,
+} from '../services/docker-service.ts'
+import { resolveSecretEnv } from '../services/secret-service.ts'
+import { getEgressArgs } from '../services/egress-service.ts'
+import { resolveServerImage } from '../services/image-lock-service.ts'
+import { getContainerCommand } from '../services/container-runtime-service.ts'
+import {
+  buildNativeCommand,
+  getNativeEnv,
+} from '../services/native-launcher-service.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'exec',
+  command: command,
+  description:
+    'Run a STDIO server attached to this terminal with its secrets resolved, used by MCP client configs',
+  options: {},
+}
+
+// Stdout carries the server's JSON-RPC stream, so nothing here may log to it
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const name = args._[0] !== undefined
+    ? String(args._[0])
+    : args.server as string | undefined
+  if (!name) {
+    throw new Error('Please specify the server to run, e.g. `exec mcp-slack`')
+  }
+
+  const server = await getMcpServerConfig(name)
+  if (!server) {
+    throw new Error(`Server "${name}" not found or not enabled`)
+  }
+  if (server.type !== 'stdio') {
+    throw new Error(`${name} is a ${server.type} server, exec only runs stdio`)
+  }
+
+  if (isNativeServer(server)) {
+    const { command, args, cwd } = buildNativeCommand(server)
+    const child = new Deno.Command(command, {
+      args,
+      cwd,
+      env: await getNativeEnv(server),
+      stdin: 'inherit',
+      stdout: 'inherit',
+      stderr: 'inherit',
+    }).spawn()
+    const { code } = await child.status
+    if (code !== 0) {
+      throw new Error(`${name} exited with code ${code}`)
+    }
+    return
+  }
+
+  const envFile = getEnvFilePath(name)
+  const secretEnv = await resolveSecretEnv(envFile)
+  const child = new Deno.Command(await getContainerCommand(), {
+    args: buildInteractiveRunArgs({
+      imageName: await resolveServerImage(server),
+      args: server.args,
+      envFile,
+      secretEnvNames: Object.keys(secretEnv),
+      securityArgs: getSecurityArgs(server),
+      networkArgs: await getEgressArgs(server),
+    }),
+    env: secretEnv,
+    stdin: 'inherit',
+    stdout: 'inherit',
+    stderr: 'inherit',
+  }).spawn()
+
+  const { code } = await child.status
+  if (code !== 0) {
+    throw new Error(`${name} exited with code ${code}`)
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -4,7 +4,7 @@ import type {
 } from '../utils/command-router.ts'
 import logger from '../utils/logger.ts'
 import { getMcpServerConfigs } from '../config.ts'
-import { healthCheck, updateCursorConfigForServer } from '../orchestrator.ts'
+import { healthCheck, updateClientConfigsForServer } from '../orchestrator.ts'
 import {
   loadState,
   saveState,
@@ -69,9 +69,9 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
     // Update the state
     currentState = updateServerStatus(currentState, server.name, result)
 
-    // Also update Cursor config to reflect the current server health status
-    // This ensures Cursor always has the correct server information
-    await updateCursorConfigForServer(server, true) // Force update without prompting
+    // Also update MCP client configs to reflect the current server health status
+    // This ensures Cursor, Windsurf and Claude Desktop always have the correct server information
+    await updateClientConfigsForServer(server, true) // Force update without prompting
 
     if (!result) {
       allHealthy = false
@@ -3,15 +3,24 @@ import type {
   CommandRouteOptions,
 } from '../utils/command-router.ts'
 import logger from '../utils/logger.ts'
-import { getMcpServerConfigs } from '../config.ts'
-import { isServerRunning } from '../orchestrator.ts'
-import { isContainerRunning } from '../services/docker-service.ts'
+import {
+  getMcpServerConfigs,
+  isNativeServer,
+  isRemoteServer,
+} from '../config.ts'
+import { isServerProcessRunning, isServerRunning } from '../orchestrator.ts'
+import { getContainerCommand } from '../services/container-runtime-service.ts'
+import {
+  getNativeLogPath,
+  readNativeLogTail,
+} from '../services/native-launcher-service.ts'
 import { validateServerSelection } from '../utils/server-validator.ts'
 
 const commandRouteDefinition: CommandRouteDefinition = {
   name: 'logs',
   command: command,
-  description: 'Display logs from MCP server Docker containers',
+  description:
+    'Display logs from MCP server Docker containers and native processes',
   options: {
     boolean: ['stream'],
     default: { stream: false },
@@ -160,7 +169,7 @@ async function streamFormattedLogs(containerNames: string[]): Promise<void> {
     const args = ['logs', '--follow', '--tail', '100', ...containerNames]
 
     // Start the docker logs process with piped output
-    const command = new Deno.Command('docker', {
+    const command = new Deno.Command(await getContainerCommand(), {
       args,
       stdout: 'piped',
       stderr: 'piped',
@@ -179,6 +188,41 @@ async function streamFormattedLogs(containerNames: string[]): Promise<void> {
   }
 }
 
+/**
+ * Follow a native server's log file, printing its last lines and then
+ * everything appended to it
+ */
+async function streamNativeLogs(name: string): Promise<void> {
+  const tail = formatLogText(await readNativeLogTail(name))
+  if (tail) console.log(tail)
+
+  const file = await Deno.open(getNativeLogPath(name), { read: true })
+  const chunk = new Uint8Array(16 * 1024)
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    await file.seek(0, Deno.SeekMode.End)
+    while (true) {
+      const read = await file.read(chunk)
+      if (read === null) {
+        await new Promise((resolve) => setTimeout(resolve, 500))
+        continue
+      }
+
+      buffer += decoder.decode(chunk.subarray(0, read), { stream: true })
+      const lines = buffer.split('\n')
+      buffer = lines.pop() || ''
+      for (const line of lines) {
+        const formattedLine = formatLogLine(line)
+        if (formattedLine) console.log(formattedLine)
+      }
+    }
+  } finally {
+    file.close()
+  }
+}
+
 async function command(
   { args, routes: _ }: CommandRouteOptions,
 ): Promise<void> {
@@ -225,8 +269,12 @@ async function command(
       )
       continue
     }
+    if (isRemoteServer(server)) {
+      logger.info(`Skipping ${server.name} as remote servers keep their logs`)
+      continue
+    }
 
-    const isRunning = await isContainerRunning(server.name)
+    const isRunning = await isServerProcessRunning(server)
 
     if (isRunning) {
       runningServers.push(server)
@@ -247,17 +295,24 @@ async function command(
       // Single server streaming
       const server = runningServers[0]
       logger.info(`Streaming logs for ${server.name}. Press Ctrl+C to exit.`)
-
-      await streamFormattedLogs([server.name])
     } else {
       // Multiple servers streaming
       logger.info(
         `Streaming logs for ${runningServers.length} servers. Press Ctrl+C to exit.`,
       )
-
-      const serverNames = runningServers.map((server) => server.name)
-      await streamFormattedLogs(serverNames)
     }
+
+    const containerNames = runningServers
+      .filter((server) => !isNativeServer(server))
+      .map((server) => server.name)
+    await Promise.all([
+      ...(containerNames.length > 0
+        ? [streamFormattedLogs(containerNames)]
+        : []),
+      ...runningServers
+        .filter(isNativeServer)
+        .map((server) => streamNativeLogs(server.name)),
+    ])
   } else {
     // Non-streaming mode: display last 100 lines with pretty formatting
     for (const server of runningServers) {
@@ -271,7 +326,16 @@ async function command(
       )
       console.log('')
 
-      const command = new Deno.Command('docker', {
+      if (isNativeServer(server)) {
+        console.log(
+          formatLogText(await readNativeLogTail(server.name)) ||
+            'No logs available',
+        )
+        console.log('\n')
+        continue
+      }
+
+      const command = new Deno.Command(await getContainerCommand(), {
         args: ['logs', '--tail', '100', server.name],
         stdout: 'piped',
         stderr: 'piped',
@@ -0,0 +1,133 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfigs } from '../config.ts'
+import { isServerProcessRunning } from '../orchestrator.ts'
+import { isPortInUse } from '../services/docker-service.ts'
+import { hasEgressAllowlist } from '../services/egress-service.ts'
+import {
+  getPortRange,
+  listPortAssignments,
+  releaseServerPort,
+} from '../services/port-registry-service.ts'
+import { loadState } from '../state.ts'
+import { validateServerSelection } from '../utils/server-validator.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'ports',
+  command: command,
+  description:
+    'List the ports of HTTP servers and any taken by processes the manager does not run',
+  options: {
+    boolean: ['json', 'release'],
+    default: { json: false, release: false },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const targetServer = args.server as string | undefined
+  if (targetServer && !(await validateServerSelection(targetServer))) {
+    return
+  }
+
+  if (args.release === true) {
+    if (!targetServer) {
+      logger.error('Pass --server=<name> to release the port of a server')
+      return
+    }
+    const server = (await getMcpServerConfigs()).find((config) =>
+      config.name === targetServer
+    )
+    if (server && await isServerProcessRunning(server)) {
+      logger.error(
+        `${targetServer} is running, stop it before releasing its port`,
+      )
+      return
+    }
+    const port = await releaseServerPort(targetServer)
+    if (port === undefined) {
+      logger.info(`${targetServer} has no assigned port to release`)
+      return
+    }
+    logger.info(
+      `Released port ${port} of ${targetServer}, it's assigned a new port the next time it starts`,
+    )
+    return
+  }
+
+  const servers = (await getMcpServerConfigs()).filter((server) =>
+    !targetServer || server.name === targetServer
+  )
+  const range = await getPortRange()
+  const assignments = listPortAssignments(await loadState(), servers)
+
+  const results = await Promise.all(assignments.map(async (assignment) => {
+    const server = servers.find((config) => config.name === assignment.server)
+    const running = server !== undefined &&
+      await isServerProcessRunning(server)
+    const inUse = assignment.port !== undefined && isPortInUse(assignment.port)
+    // The egress proxy publishes the ports of restricted servers
+    const heldByProxy = server !== undefined && hasEgressAllowlist(server) &&
+      inUse
+    return {
+      ...assignment,
+      running,
+      inUse,
+      conflict: (inUse && !running && !heldByProxy) ||
+        assignment.sharedWith.length > 0,
+    }
+  }))
+
+  if (args.json === true) {
+    logger.print(JSON.stringify({ range, servers: results }, null, 2))
+    return
+  }
+
+  logger.print(`Port range: ${range.start}-${range.end}`)
+  if (results.length === 0) {
+    logger.print(colors.dim('No local HTTP servers configured'))
+    return
+  }
+
+  for (const result of results) {
+    if (result.port === undefined) {
+      logger.print(
+        `  ${colors.bold(result.server)} ${
+          colors.dim('not assigned yet, gets a port when it starts')
+        }`,
+      )
+      continue
+    }
+
+    const source = result.source === 'args' ? '--port arg' : 'assigned'
+    const status = result.running
+      ? colors.green(`in use by ${result.server}`)
+      : result.conflict && result.inUse
+      ? colors.red('✗ in use by a process the manager does not run')
+      : result.inUse
+      ? colors.dim('held by the egress proxy')
+      : colors.dim('free')
+    logger.print(
+      `  ${colors.bold(result.server)} ${result.port} ${
+        colors.dim(`(${source})`)
+      } ${status}`,
+    )
+    if (result.sharedWith.length > 0) {
+      logger.print(
+        `    ${colors.red('✗')} Also used by ${result.sharedWith.join(', ')}`,
+      )
+    }
+  }
+
+  if (results.some((result) => result.conflict)) {
+    logger.print(
+      `\nFree the conflicting ports, change the --port args, or run \`deno task ports --release --server=<name>\` to assign a server a new port`,
+    )
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
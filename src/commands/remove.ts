@@ -0,0 +1,314 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import { exists } from '@std/fs'
+import { dirname, join, relative } from '@std/path'
+import logger from '../utils/logger.ts'
+import {
+  clearMcpServerConfigCache,
+  getAppConfig,
+  getEnvFilePath,
+  getMcpServerConfig,
+  getServerConfigFilePath,
+  getWorkspacePath,
+  isContainerServer,
+  isHttpServer,
+  isNativeServer,
+} from '../config.ts'
+import { checkDockerAvailability, stopServer } from '../orchestrator.ts'
+import { confirm } from '../presentation.ts'
+import {
+  getServerState,
+  getStateFilePath,
+  loadState,
+  removeServerState,
+  saveState,
+} from '../state.ts'
+import {
+  removeDockerImageTag,
+  stopAndRemoveContainer,
+} from '../services/docker-service.ts'
+import {
+  getImageHistoryTag,
+  getPreviousImageTag,
+} from '../services/image-history-service.ts'
+import {
+  getImageLockPath,
+  loadImageLock,
+  saveImageLock,
+  setImageLockEntry,
+} from '../services/image-lock-service.ts'
+import {
+  readEgressProxyConfig,
+  removeEgressRoute,
+} from '../services/egress-service.ts'
+import { getMcpServers, removeMcpServers } from '../services/cursor-service.ts'
+import {
+  type DetectedMcpClient,
+  getDetectedMcpClients,
+} from '../services/mcp-client-service.ts'
+import {
+  getSecretProvider,
+  type SecretProvider,
+  type SecretReference,
+} from '../services/secret-service.ts'
+import { dryRunDeregisterServers } from '../utils/dry-run.ts'
+import { snapshotFiles } from '../utils/file-snapshot.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'remove',
+  command: command,
+  description:
+    'Remove an MCP server: its container, config, env file, state and client config entries',
+  options: {
+    boolean: ['dry-run', 'archive-env', 'yes'],
+    default: { 'dry-run': false, 'archive-env': false, yes: false },
+    alias: { d: 'dry-run', a: 'archive-env', y: 'yes' },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const isDryRun = args['dry-run'] === true
+  const archiveEnv = args['archive-env'] === true
+  if (isDryRun) {
+    logger.info('Dry run mode enabled - no actual changes will be made')
+  }
+
+  // The server can be passed positionally (`remove <name>`) or with --server
+  const name = args._[0] !== undefined
+    ? String(args._[0])
+    : args.server as string | undefined
+  if (!name) {
+    logger.error(
+      'Please specify the server to remove, e.g. `remove mcp-myservice`',
+    )
+    return
+  }
+
+  const configPath = getServerConfigFilePath(name)
+  const envPath = getEnvFilePath(name)
+  const hasConfig = await exists(configPath)
+  const hasEnv = await exists(envPath)
+  const serverState = getServerState(await loadState(), name)
+  const hasState = serverState !== null
+  // Tags that keep the images the server ran before from being pruned
+  const historyTags = serverState?.imageHistory?.length
+    ? [
+      ...serverState.imageHistory.map((entry) =>
+        getImageHistoryTag(name, entry.digest)
+      ),
+      getPreviousImageTag(name),
+    ]
+    : []
+  // An archived env file keeps its references, so its secrets are kept too
+  const { provider, secrets } = archiveEnv
+    ? { provider: undefined, secrets: [] }
+    : await getStoredSecrets(name)
+  const isLocked = (await loadImageLock()).servers[name] !== undefined
+  const hasEgressRoute = (await readEgressProxyConfig()).routes.some((route) =>
+    route.server === name
+  )
+
+  if (!hasConfig && !hasState) {
+    logger.error(`Server "${name}" not found: ${configPath} does not exist`)
+    return
+  }
+
+  // Every client config in every scope that still lists the server
+  const clients: DetectedMcpClient[] = []
+  for (const scope of ['global', 'project'] as const) {
+    for (const client of await getDetectedMcpClients(scope)) {
+      if ((await getMcpServers(client.configPath))[name]) clients.push(client)
+    }
+  }
+
+  const archivePath = join(
+    dirname(envPath),
+    'archive',
+    `${name}.${new Date().toISOString().replaceAll(':', '-')}.env`,
+  )
+  const workspacePath = getWorkspacePath()
+  const fileChanges = [
+    ...(hasConfig ? [`delete ${relative(workspacePath, configPath)}`] : []),
+    ...(hasEnv
+      ? [
+        archiveEnv
+          ? `archive ${relative(workspacePath, envPath)} to ${
+            relative(workspacePath, archivePath)
+          }`
+          : `delete ${relative(workspacePath, envPath)}`,
+      ]
+      : []),
+    ...(hasState ? [`remove ${name} from data/state.json`] : []),
+    ...(provider && secrets.length > 0
+      ? [
+        `delete ${secrets.length} secret(s) stored for ${name} in the ${provider.displayName} (secret://${name}/*)`,
+      ]
+      : []),
+    ...(isLocked ? [`remove ${name} from mcp.lock`] : []),
+    ...(historyTags.length > 0
+      ? [`untag the images it ran before (mcp-manager/${name}:*)`]
+      : []),
+    `stop and remove the ${name} container, if any`,
+    ...(hasEgressRoute
+      ? [
+        `remove ${name}'s route from the egress proxy (data/egress/proxy.json)`,
+      ]
+      : []),
+  ]
+
+  if (isDryRun) {
+    await dryRunDeregisterServers([name], fileChanges)
+    return
+  }
+
+  if (
+    args.yes !== true &&
+    !await confirm(
+      `Remove ${name}? This will:\n${
+        [
+          ...fileChanges,
+          ...clients.map((client) =>
+            `remove it from your ${client.displayName} MCP config at ${client.configPath}`
+          ),
+        ].map((change) => `  - ${change}`).join('\n')
+      }\n`,
+      false,
+    )
+  ) {
+    logger.info(`Kept ${name}, nothing was changed`)
+    return
+  }
+
+  // Containers and processes can't be rolled back, so stop it before touching
+  // any files
+  const server = await getMcpServerConfig(name)
+  if (server && isNativeServer(server)) {
+    if (isHttpServer(server) && !await stopServer(server)) {
+      logger.error(`Failed to stop the ${name} process, nothing was removed`)
+      return
+    }
+  } else if (
+    server?.type !== 'stdio' && (!server || isContainerServer(server))
+  ) {
+    if (!await checkDockerAvailability()) return
+    if (!await stopAndRemoveContainer(name)) {
+      logger.error(`Failed to stop the ${name} container, nothing was removed`)
+      return
+    }
+  }
+
+  // Stop the egress proxy publishing the server's port and allowing its hosts
+  if (hasEgressRoute && !await removeEgressRoute(name)) {
+    logger.error(
+      `Failed to remove ${name}'s egress proxy route, nothing was removed`,
+    )
+    return
+  }
+
+  // The encrypted file provider keeps every secret in one file
+  const secretsFilePath = provider?.id === 'file' && secrets.length > 0
+    ? (await getAppConfig()).SECRETS_FILE_PATH
+    : undefined
+
+  // Snapshot every file we are about to change so a failure leaves no half-removed server
+  const snapshot = await snapshotFiles([
+    configPath,
+    envPath,
+    archivePath,
+    getStateFilePath(),
+    getImageLockPath(),
+    ...(secretsFilePath ? [secretsFilePath] : []),
+    ...clients.map((client) => client.configPath),
+  ])
+
+  try {
+    for (const client of clients) {
+      if (!await removeMcpServers(client.configPath, [name])) {
+        throw new Error(
+          `Could not update ${client.displayName} MCP config at ${client.configPath}`,
+        )
+      }
+      logger.info(`Removed ${name} from ${client.displayName} MCP config`)
+    }
+
+    if (hasState) {
+      await saveState(removeServerState(await loadState(), name))
+      logger.info(`Removed ${name} from the state file`)
+    }
+
+    for (const ref of secrets) {
+      await provider?.remove?.(ref)
+    }
+    if (secrets.length > 0) {
+      logger.info(`Deleted ${secrets.length} secret(s) stored for ${name}`)
+    }
+
+    if (isLocked) {
+      await saveImageLock(
+        setImageLockEntry(await loadImageLock(), name, undefined),
+      )
+      logger.info(`Removed ${name} from mcp.lock`)
+    }
+
+    if (hasEnv) {
+      if (archiveEnv) {
+        await Deno.mkdir(dirname(archivePath), { recursive: true })
+        await Deno.rename(envPath, archivePath)
+        logger.info(`Archived ${envPath} to ${archivePath}`)
+      } else {
+        await Deno.remove(envPath)
+        logger.info(`Deleted ${envPath}`)
+      }
+    }
+
+    if (hasConfig) {
+      await Deno.remove(configPath)
+      logger.info(`Deleted ${configPath}`)
+    }
+  } catch (error) {
+    logger.error(
+      `Failed to remove ${name}, restoring files: ${(error as Error).message}`,
+    )
+    await snapshot.restore()
+    throw error
+  }
+
+  // Untagging can't be rolled back, so it's left until the files are gone.
+  // Images nothing else refers to are deleted with their last tag
+  for (const tag of historyTags) {
+    if (!await removeDockerImageTag(tag)) {
+      logger.debug(`Could not remove tag ${tag}, it may be gone already`)
+    }
+  }
+
+  clearMcpServerConfigCache()
+  logger.info(`${name} was removed`)
+}
+
+/**
+ * List the secrets stored for a server, only providers the manager can list
+ * and delete from have any
+ *
+ * @param name Name of the server
+ * @returns The provider and the references stored under `secret://<name>/`
+ */
+async function getStoredSecrets(
+  name: string,
+): Promise<{ provider?: SecretProvider; secrets: SecretReference[] }> {
+  try {
+    const provider = await getSecretProvider()
+    if (!provider.list || !provider.remove) return { secrets: [] }
+    return {
+      provider,
+      secrets: (await provider.list()).filter((ref) => ref.server === name),
+    }
+  } catch (error) {
+    logger.warn(`Could not list the secrets stored for ${name}: ${error}`)
+    return { secrets: [] }
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
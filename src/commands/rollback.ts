@@ -0,0 +1,91 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfig } from '../config.ts'
+import {
+  checkDockerAvailability,
+  rollbackServerImage,
+} from '../orchestrator.ts'
+import { getImageHistory } from '../services/image-history-service.ts'
+import {
+  formatImageLock,
+  getLockedImage,
+  loadImageLock,
+} from '../services/image-lock-service.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'rollback',
+  command: command,
+  description:
+    'Restore an image a server ran before its last update, e.g. rollback --server=mcp-slack [--to=2]',
+  options: {
+    boolean: ['list'],
+    string: ['to'],
+    default: { list: false, to: '1' },
+    alias: { l: 'list' },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const serverName = args.server as string | undefined
+  if (!serverName) {
+    throw new Error(
+      'Please specify the server, e.g. `rollback --server=mcp-slack`',
+    )
+  }
+
+  const server = await getMcpServerConfig(serverName)
+  if (!server) {
+    throw new Error(`Server "${serverName}" not found or not enabled`)
+  }
+  if (!server.image) {
+    throw new Error(
+      `${serverName} ${
+        server.remote
+          ? 'is hosted remotely'
+          : `runs natively with ${server.launcher?.type}`
+      }, it has no images to roll back`,
+    )
+  }
+
+  const history = await getImageHistory(serverName)
+
+  if (args.list === true) {
+    const current = getLockedImage(await loadImageLock(), server)
+    logger.print(`${colors.bold(serverName)} ${colors.dim(server.image)}`)
+    logger.print(`  current  ${formatImageLock(current)}`)
+    if (history.length === 0) {
+      logger.print(colors.dim('  No earlier images recorded yet'))
+    }
+    history.forEach((entry, index) => {
+      logger.print(
+        `  ${String(index + 1).padEnd(8)} ${formatImageLock(entry)} ${
+          colors.dim(`replaced ${entry.replacedOn}`)
+        }`,
+      )
+    })
+    return
+  }
+
+  const steps = Number(args.to)
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error(
+      `--to must be a positive whole number from \`rollback --list\`, got "${args.to}"`,
+    )
+  }
+
+  if (!await checkDockerAvailability()) return
+
+  if (!await rollbackServerImage(server, steps)) {
+    throw new Error(`Rollback of ${serverName} failed`)
+  }
+  logger.info(
+    `${serverName} rolled back. Commit mcp.lock to roll it back for everyone`,
+  )
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
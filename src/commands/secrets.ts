@@ -0,0 +1,160 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import { promptSecret } from '@std/cli/prompt-secret'
+import logger from '../utils/logger.ts'
+import { getEnvFilePath } from '../config.ts'
+import { confirm } from '../presentation.ts'
+import { readEnvFile } from '../utils/env-file.ts'
+import {
+  formatSecretReference,
+  getSecretProvider,
+  type SecretReference,
+} from '../services/secret-service.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'secrets',
+  command: command,
+  description:
+    'Store, list and remove server credentials in the secret provider (set | list | remove)',
+  options: {
+    boolean: ['yes'],
+    default: { yes: false },
+    alias: { y: 'yes' },
+  },
+}
+
+const ENV_VAR_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const [action = 'list', ...rest] = args._.map(String)
+  const provider = await getSecretProvider()
+
+  if (action === 'list') {
+    if (!provider.list) {
+      logger.info(
+        `The ${provider.displayName} provider can't list secrets, use the secret manager directly`,
+      )
+      return
+    }
+    const serverFilter = rest[0] ?? args.server as string | undefined
+    const refs = (await provider.list()).filter((ref) =>
+      !serverFilter || ref.server === serverFilter
+    )
+    if (refs.length === 0) {
+      logger.info(`No secrets stored in the ${provider.displayName} provider`)
+      return
+    }
+    for (const ref of refs) logger.print(formatSecretReference(ref))
+    return
+  }
+
+  const ref = parseTarget(rest, args.server as string | undefined)
+
+  if (action === 'set') {
+    if (!provider.set) {
+      throw new Error(
+        `The ${provider.displayName} provider is read-only, store ${
+          formatSecretReference(ref)
+        } with your secret manager instead`,
+      )
+    }
+
+    const value = await readSecretValue(ref)
+    if (!value) throw new Error(`No value given for ${ref.key}`)
+
+    await provider.set(ref, value)
+    logger.info(
+      `Stored ${
+        formatSecretReference(ref)
+      } in the ${provider.displayName} provider`,
+    )
+    await useReferenceInEnvFile(ref, args.yes === true)
+    return
+  }
+
+  if (action === 'remove') {
+    if (!provider.remove) {
+      throw new Error(
+        `The ${provider.displayName} provider is read-only, remove ${
+          formatSecretReference(ref)
+        } with your secret manager instead`,
+      )
+    }
+    if (!await provider.remove(ref)) {
+      logger.warn(`${formatSecretReference(ref)} was not stored`)
+      return
+    }
+    logger.info(`Removed ${formatSecretReference(ref)}`)
+    return
+  }
+
+  throw new Error(
+    `Unknown secrets action "${action}", expected set, list or remove`,
+  )
+}
+
+/**
+ * Read the server and key from `<server> <KEY>` or `--server=<server> <KEY>`
+ */
+function parseTarget(rest: string[], server?: string): SecretReference {
+  const [first, second] = rest
+  const ref = second !== undefined
+    ? { server: first ?? '', key: second }
+    : { server: server ?? '', key: first ?? '' }
+
+  if (!ref.server || !ENV_VAR_PATTERN.test(ref.key)) {
+    throw new Error(
+      'Please specify the server and variable, e.g. `secrets set mcp-slack SLACK_BOT_TOKEN`',
+    )
+  }
+  return ref
+}
+
+/**
+ * Prompt for the value without echoing it, or read it from stdin when piped
+ */
+async function readSecretValue(ref: SecretReference): Promise<string> {
+  if (!Deno.stdin.isTerminal()) {
+    const input = await new Response(Deno.stdin.readable).text()
+    return input.split(/\r?\n/)[0]?.trim() ?? ''
+  }
+  return promptSecret(`Value for ${formatSecretReference(ref)}:`)?.trim() ?? ''
+}
+
+/**
+ * Offer to replace the plaintext value in the server's env file with the reference
+ */
+async function useReferenceInEnvFile(
+  ref: SecretReference,
+  skipPrompt: boolean,
+): Promise<void> {
+  const envFilePath = getEnvFilePath(ref.server)
+  const reference = formatSecretReference(ref)
+  const values = await readEnvFile(envFilePath)
+
+  if (values?.[ref.key] === reference) return
+  if (
+    !values || !skipPrompt &&
+      !await confirm(
+        `Replace ${ref.key} in ${envFilePath} with ${reference}?`,
+      )
+  ) {
+    logger.info(`Use it by setting ${ref.key}=${reference} in ${envFilePath}`)
+    return
+  }
+
+  const content = await Deno.readTextFile(envFilePath)
+  const line = new RegExp(`^([ \\t]*${ref.key}[ \\t]*=).*$`, 'm')
+  await Deno.writeTextFile(
+    envFilePath,
+    line.test(content)
+      ? content.replace(line, `$1${reference}`)
+      : `${content.replace(/\n?$/, '\n')}${ref.key}=${reference}\n`,
+  )
+  logger.info(`${envFilePath} now references ${reference}`)
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -3,8 +3,16 @@ import type {
   CommandRouteOptions,
 } from '../utils/command-router.ts'
 import logger from '../utils/logger.ts'
-import { getAppConfig, getMcpServerConfigs } from '../config.ts'
-import { checkDockerAvailability, startServer } from '../orchestrator.ts'
+import {
+  getMcpServerConfigs,
+  isConfigScope,
+  isContainerServer,
+} from '../config.ts'
+import {
+  checkDockerAvailability,
+  resolveConfigScope,
+  startServer,
+} from '../orchestrator.ts'
 import {
   loadState,
   saveState,
@@ -13,14 +21,20 @@ import {
 } from '../state.ts'
 import { validateServerSelection } from '../utils/server-validator.ts'
 import { dryRunAddServers } from '../utils/dry-run.ts'
+import { getDetectedMcpClients } from '../services/mcp-client-service.ts'
+import {
+  findImageLockMismatches,
+  loadImageLock,
+} from '../services/image-lock-service.ts'
 
 const commandRouteDefinition: CommandRouteDefinition = {
   name: 'start',
   command: command,
   description: 'Start MCP servers',
   options: {
-    boolean: ['dry-run'],
-    default: { 'dry-run': false },
+    boolean: ['dry-run', 'frozen'],
+    string: ['scope'],
+    default: { 'dry-run': false, frozen: false },
     alias: { d: 'dry-run' },
   },
 }
@@ -34,9 +48,15 @@ async function command(
     logger.info('Dry run mode enabled - no actual changes will be made')
   }
 
+  // Optional client config scope override
+  const scope = args.scope as string | undefined
+  if (scope !== undefined && !isConfigScope(scope)) {
+    logger.error(`Invalid --scope "${scope}", expected "project" or "global"`)
+    return
+  }
+
   // Load server configurations
   const serverConfigs = await getMcpServerConfigs()
-  const appConfig = await getAppConfig()
 
   if (serverConfigs.length === 0) {
     logger.error('No MCP server configurations found')
@@ -73,14 +93,32 @@ async function command(
     return
   }
 
+  // With --frozen every server must already be locked to its configured image
+  if (args.frozen === true) {
+    const mismatches = findImageLockMismatches(
+      await loadImageLock(),
+      serversToProcess,
+    )
+    if (mismatches.length > 0) {
+      throw new Error(
+        `mcp.lock doesn't match the server configs:\n  ${
+          mismatches.join('\n  ')
+        }\nRun \`deno task update\` for these servers and commit mcp.lock`,
+      )
+    }
+  }
+
   // For dry run mode, show a single aggregate config comparison for all servers to process
   if (isDryRun) {
-    await dryRunAddServers(serversToProcess)
+    await dryRunAddServers(serversToProcess, scope)
     return // Exit early for dry run
   }
 
-  // Check Docker availability for actual runs
-  if (!await checkDockerAvailability()) {
+  // Check Docker availability for actual runs, only containers need it
+  if (
+    serversToProcess.some(isContainerServer) &&
+    !await checkDockerAvailability()
+  ) {
     await saveState(currentState) // Save state even if Docker is not available
     return
   }
@@ -89,7 +127,7 @@ async function command(
   for (const server of serversToProcess) {
     // Start the server (default action)
     logger.info(`Starting server ${server.name}...`)
-    const success = await startServer(server)
+    const success = await startServer(server, scope)
 
     // Reload state to capture any changes made during server start
     // (e.g., user preferences saved by the orchestrator)
@@ -103,29 +141,33 @@ async function command(
       currentState = updateServerStatus(currentState, server.name, true)
       logger.info(`Server ${server.name} started successfully.`)
 
-      // Log CURSOR_MCP_CONFIG_PATH content
-      const mcpConfigPath = appConfig.CURSOR_MCP_CONFIG_PATH
-      if (mcpConfigPath) {
+      // Log the config content of every detected client
+      const clients = await getDetectedMcpClients(
+        await resolveConfigScope(server, scope),
+      )
+      for (const { displayName, configPath } of clients) {
         try {
-          const rawContent = await Deno.readTextFile(mcpConfigPath)
+          const rawContent = await Deno.readTextFile(configPath)
           try {
             const jsonContent = JSON.parse(rawContent)
             // Pass the parsed JSON object as a separate argument for masking
-            logger.debug('Contents of Cursor MCP config:', jsonContent)
+            logger.debug(`Contents of ${displayName} MCP config:`, jsonContent)
           } catch (parseError) {
             // If parsing fails, log a warning without the raw content.
             logger.warn(
-              `Could not parse ${mcpConfigPath} as JSON. Error: ${
+              `Could not parse ${configPath} as JSON. Error: ${
                 (parseError as Error).message
               }`,
             )
           }
         } catch (err) {
           if (err instanceof Deno.errors.NotFound) {
-            logger.debug('Cursor MCP config file not found')
+            logger.debug(`${displayName} MCP config file not found`)
           } else {
             logger.warn(
-              `Error reading Cursor MCP config file: ${(err as Error).message}`,
+              `Error reading ${displayName} MCP config file: ${
+                (err as Error).message
+              }`,
             )
           }
         }
@@ -3,7 +3,7 @@ import type {
   CommandRouteOptions,
 } from '../utils/command-router.ts'
 import logger from '../utils/logger.ts'
-import { getMcpServerConfigs } from '../config.ts'
+import { getMcpServerConfigs, isRemoteServer } from '../config.ts'
 import { isServerRunning } from '../orchestrator.ts'
 import { loadState, saveState, syncStateWithConfig } from '../state.ts'
 import { validateServerSelection } from '../utils/server-validator.ts'
@@ -57,15 +57,18 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
   for (const server of serversToProcess) {
     // Determine if running and update status message
     const isRunning = await isServerRunning(server)
-    const status = isRunning
+    // Remote servers aren't run by us, only whether they answer is known
+    const status = isRemoteServer(server)
+      ? (isRunning ? 'Reachable' : 'Unreachable')
+      : isRunning
       ? 'Running'
       : (server.type === 'stdio' ? 'On-Demand' : 'Stopped')
-    const statusPadding = ' '.repeat(12 - status.length)
-    const typePadding = ' '.repeat(6 - server.type.length)
+    const statusPadding = ' '.repeat(Math.max(1, 12 - status.length))
+    const typePadding = ' '.repeat(Math.max(1, 16 - server.type.length))
 
     logger.info(
       `${server.name}:${
-        ' '.repeat(20 - server.name.length)
+        ' '.repeat(Math.max(1, 20 - server.name.length))
       }[${status}]${statusPadding}Type: ${server.type}${typePadding}${server.description}`,
     )
   }
@@ -0,0 +1,82 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import logger from '../utils/logger.ts'
+import gracefulShutdown from '../utils/graceful-shutdown.ts'
+import {
+  getMcpServerConfigs,
+  isContainerServer,
+  isHttpServer,
+  isRemoteServer,
+} from '../config.ts'
+import { checkDockerAvailability } from '../orchestrator.ts'
+import { superviseServers } from '../supervisor.ts'
+import { validateServerSelection } from '../utils/server-validator.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'supervise',
+  command: command,
+  description:
+    'Watch running HTTP servers and restart unhealthy ones with exponential backoff until Ctrl+C',
+  options: {
+    string: ['interval'],
+    default: { interval: '30' },
+    alias: { i: 'interval' },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const intervalSeconds = Number(args.interval)
+  if (!Number.isFinite(intervalSeconds) || intervalSeconds <= 0) {
+    throw new Error(
+      `--interval must be a positive number of seconds, got "${args.interval}"`,
+    )
+  }
+
+  const targetServer = args.server as string | undefined
+  if (targetServer && !(await validateServerSelection(targetServer))) {
+    return
+  }
+
+  // Remote servers are hosted elsewhere, there's nothing to restart
+  const servers = (await getMcpServerConfigs()).filter((server) =>
+    isHttpServer(server) && !isRemoteServer(server) &&
+    (!targetServer || server.name === targetServer)
+  )
+  if (servers.length === 0) {
+    logger.error(
+      targetServer
+        ? `${targetServer} is not a local HTTP server, only HTTP servers run persistently and can be supervised`
+        : 'No local HTTP servers configured, only HTTP servers can be supervised',
+    )
+    return
+  }
+
+  if (servers.some(isContainerServer) && !await checkDockerAvailability()) {
+    return
+  }
+
+  const controller = new AbortController()
+  const supervision = superviseServers(servers, {
+    intervalMs: intervalSeconds * 1000,
+    signal: controller.signal,
+  })
+
+  // Let the check in progress finish before exiting on Ctrl+C
+  gracefulShutdown.addShutdownHandler(async () => {
+    logger.info('Stopping supervision...')
+    controller.abort()
+    await supervision
+  })
+
+  logger.info(
+    `Supervising ${
+      servers.map((server) => server.name).join(', ')
+    } every ${intervalSeconds}s. Press Ctrl+C to stop.`,
+  )
+  await supervision
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
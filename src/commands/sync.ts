@@ -5,21 +5,29 @@ import type {
 import logger from '../utils/logger.ts'
 import { getMcpServerConfigs } from '../config.ts'
 import { isServerRunning } from '../orchestrator.ts'
-import {
-  loadState,
-  saveState,
-  syncStateWithConfig,
-} from '../state.ts'
+import { loadState, saveState, syncStateWithConfig } from '../state.ts'
 import { validateServerSelection } from '../utils/server-validator.ts'
+import { command as validateCommand } from './validate.ts'
 
 const commandRouteDefinition: CommandRouteDefinition = {
   name: 'sync',
   command: command,
   description: 'Sync MCP server state with disk configuration',
-  options: {},
+  options: {
+    boolean: ['validate-only', 'json'],
+    default: { 'validate-only': false, json: false },
+  },
 }
 
-async function command({ args }: CommandRouteOptions): Promise<void> {
+async function command({ args, routes }: CommandRouteOptions): Promise<void> {
+  const asJson = args.json === true
+
+  // Only validate the server config files, without touching state
+  if (args['validate-only'] === true) {
+    await validateCommand({ args, routes })
+    return
+  }
+
   // Load server configurations
   const serverConfigs = await getMcpServerConfigs()
 
@@ -57,11 +65,11 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
 
   // Print header
   const header = '='.repeat(40)
-  logger.info(`${header}\nSyncing MCP Server State\n${header}`)
+  if (!asJson) logger.info(`${header}\nSyncing MCP Server State\n${header}`)
 
   // Update the running status for each server
   for (const server of serversToProcess) {
-    logger.info(`Checking status for ${server.name}...`)
+    logger.debug(`Checking status for ${server.name}...`)
     const isRunning = await isServerRunning(server)
 
     // Update state based on actual status
@@ -75,11 +83,28 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
       }
     }
 
-    logger.info(`${server.name}: ${isRunning ? 'RUNNING' : 'STOPPED'}`)
+    if (!asJson) {
+      logger.info(`${server.name}: ${isRunning ? 'RUNNING' : 'STOPPED'}`)
+    }
   }
 
   // Save updated state
   await saveState(currentState)
+
+  if (asJson) {
+    logger.print(JSON.stringify(
+      serversToProcess.map((server) => ({
+        name: server.name,
+        type: server.type,
+        online: currentState.mcps.find((mcp) => mcp.name === server.name)
+          ?.online ?? false,
+      })),
+      null,
+      2,
+    ))
+    return
+  }
+
   logger.info(`${header}\nSync completed\n${header}`)
 }
 
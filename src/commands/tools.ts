@@ -0,0 +1,215 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getMcpServerConfigs, isHttpServer } from '../config.ts'
+import { isServerRunning } from '../orchestrator.ts'
+import { openServerSession } from '../services/health-validator-service.ts'
+import {
+  getServerInventory,
+  type ServerInventory,
+} from '../services/inventory-service.ts'
+import { validateServerSelection } from '../utils/server-validator.ts'
+import type { McpServerConfig } from '../types.ts'
+import type { McpSession } from '../services/mcp-session-service.ts'
+import type { Tool } from '../../vendor/mcp-specification.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'tools',
+  command: command,
+  description:
+    'List the tools, resources and prompts each server exposes (running HTTP servers and STDIO servers)',
+  options: {
+    boolean: ['json'],
+    default: { json: false },
+  },
+}
+
+/**
+ * Inventory of a single server, or the reason it couldn't be listed
+ */
+interface ServerInventoryResult {
+  name: string
+  type: McpServerConfig['type']
+  inventory?: ServerInventory
+  error?: string
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const targetServer = args.server as string | undefined
+  if (targetServer && !(await validateServerSelection(targetServer))) {
+    return
+  }
+
+  const servers = (await getMcpServerConfigs()).filter((server) =>
+    !targetServer || server.name === targetServer
+  )
+  if (servers.length === 0) {
+    logger.error('No MCP server configurations found')
+    return
+  }
+
+  const results: ServerInventoryResult[] = []
+  for (const server of servers) {
+    // HTTP servers have to be started first, STDIO servers are spawned on demand
+    if (isHttpServer(server) && !await isServerRunning(server)) {
+      const error = `${server.name} is not running, start it first`
+      if (targetServer) throw new Error(error)
+      logger.warn(`Skipping ${error}`)
+      continue
+    }
+    results.push(await inventoryServer(server))
+  }
+
+  if (args.json === true) {
+    logger.print(JSON.stringify(results, null, 2))
+  } else {
+    for (const result of results) displayInventory(result)
+  }
+
+  const failed = results.filter((result) => result.error)
+  if (failed.length > 0) {
+    throw new Error(
+      `Could not list ${failed.map((result) => result.name).join(', ')}`,
+    )
+  }
+}
+
+/**
+ * Open a session with the server and list everything it exposes
+ */
+async function inventoryServer(
+  server: McpServerConfig,
+): Promise<ServerInventoryResult> {
+  const { name, type } = server
+  let session: McpSession | undefined
+  try {
+    session = await openServerSession(server, server.healthValidator?.timeoutMs)
+    return { name, type, inventory: await getServerInventory(session) }
+  } catch (error) {
+    logger.debug(`Error listing ${name}:`, error)
+    return {
+      name,
+      type,
+      error: error instanceof Error ? error.message : String(error),
+    }
+  } finally {
+    await session?.close()
+  }
+}
+
+/** Longest cell printed in a table column before it's cut off */
+const MAX_CELL_WIDTH = 60
+
+/**
+ * Print rows as a table with aligned columns, the first column highlighted
+ *
+ * @param headers Column titles
+ * @param rows Plain-text cells, one array per row
+ */
+function printTable(headers: string[], rows: string[][]): void {
+  const cells = rows.map((row) =>
+    row.map((cell) =>
+      cell.length > MAX_CELL_WIDTH
+        ? `${cell.slice(0, MAX_CELL_WIDTH - 1)}…`
+        : cell
+    )
+  )
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...cells.map((row) => row[column].length))
+  )
+  // Pad before coloring, escape codes would throw off the widths
+  const format = (row: string[], color: (text: string) => string) =>
+    row.map((cell, column) =>
+      column === 0
+        ? color(cell.padEnd(widths[column]))
+        : cell.padEnd(widths[column])
+    ).join('  ').trimEnd()
+
+  logger.print(`    ${colors.dim(format(headers, (text) => text))}`)
+  for (const row of cells) logger.print(`    ${format(row, colors.cyan)}`)
+}
+
+/**
+ * Summarize a tool's `ToolAnnotations`, only listing the hints the server set
+ */
+function formatToolHints(tool: Tool): string {
+  const annotations = tool.annotations ?? {}
+  return [
+    ['read-only', annotations.readOnlyHint],
+    ['destructive', annotations.destructiveHint],
+    ['idempotent', annotations.idempotentHint],
+    ['open-world', annotations.openWorldHint],
+  ].filter(([, value]) => value !== undefined)
+    .map(([hint, value]) => value ? hint : `not ${hint}`)
+    .join(', ')
+}
+
+/**
+ * Summarize the input schema as `name: type` pairs, optional ones marked `?`
+ */
+function formatInputSchema(tool: Tool): string {
+  const required = new Set(tool.inputSchema.required ?? [])
+  return Object.entries(tool.inputSchema.properties ?? {}).map(
+    ([property, schema]) => {
+      const { type } = schema as { type?: string | string[] }
+      const typeName = Array.isArray(type) ? type.join(' | ') : type ?? 'any'
+      return `${property}${required.has(property) ? '' : '?'}: ${typeName}`
+    },
+  ).join(', ')
+}
+
+function displayInventory(result: ServerInventoryResult): void {
+  logger.print(`\n${colors.bold(result.name)} (${result.type})`)
+
+  if (!result.inventory) {
+    logger.print(`  ${colors.red('error')} ${result.error}`)
+    return
+  }
+
+  const { tools, resources, prompts } = result.inventory
+
+  logger.print(`  Tools (${tools.length})`)
+  if (tools.length > 0) {
+    printTable(
+      ['Name', 'Hints', 'Arguments', 'Description'],
+      tools.map((tool) => [
+        tool.name,
+        formatToolHints(tool) || '-',
+        formatInputSchema(tool) || '-',
+        tool.annotations?.title ?? tool.description?.split('\n')[0] ?? '',
+      ]),
+    )
+  }
+
+  logger.print(`  Resources (${resources.length})`)
+  if (resources.length > 0) {
+    printTable(
+      ['Name', 'URI', 'MIME type'],
+      resources.map((resource) => [
+        resource.name,
+        resource.uri,
+        resource.mimeType ?? '-',
+      ]),
+    )
+  }
+
+  logger.print(`  Prompts (${prompts.length})`)
+  if (prompts.length > 0) {
+    printTable(
+      ['Name', 'Arguments', 'Description'],
+      prompts.map((prompt) => [
+        prompt.name,
+        (prompt.arguments ?? []).map((arg) =>
+          `${arg.name}${arg.required ? '' : '?'}`
+        ).join(', ') || '-',
+        prompt.description?.split('\n')[0] ?? '',
+      ]),
+    )
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
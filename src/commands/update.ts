@@ -3,15 +3,25 @@ import type {
   CommandRouteOptions,
 } from '../utils/command-router.ts'
 import logger from '../utils/logger.ts'
-import { getMcpServerConfigs } from '../config.ts'
+import { getMcpServerConfigs, isContainerServer } from '../config.ts'
 import { checkDockerAvailability, updateServerImage } from '../orchestrator.ts'
 import { validateServerSelection } from '../utils/server-validator.ts'
+import {
+  diffImageLocks,
+  formatImageLock,
+  loadImageLock,
+} from '../services/image-lock-service.ts'
 
 const commandRouteDefinition: CommandRouteDefinition = {
   name: 'update',
   command: command,
-  description: 'Update MCP server Docker images',
-  options: {},
+  description:
+    'Pull the latest MCP server Docker images, review what they change and advance their digests in mcp.lock',
+  options: {
+    boolean: ['yes'],
+    default: { yes: false },
+    alias: { y: 'yes' },
+  },
 }
 
 async function command({ args }: CommandRouteOptions): Promise<void> {
@@ -44,8 +54,11 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
     return
   }
 
-  // Check Docker availability
-  if (!await checkDockerAvailability()) {
+  // Check Docker availability, only container servers have images
+  if (
+    serversToProcess.some(isContainerServer) &&
+    !await checkDockerAvailability()
+  ) {
     return
   }
 
@@ -53,15 +66,20 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
   const header = '='.repeat(60)
   logger.info(`${header}\nUpdating MCP Server Images\n${header}`)
 
+  const lockBefore = await loadImageLock()
   let allSuccessful = true
-  const successCount = { http: 0, stdio: 0 }
-  const failCount = { http: 0, stdio: 0 }
+  const successCount = { http: 0, 'streamable-http': 0, stdio: 0 }
+  const failCount = { http: 0, 'streamable-http': 0, stdio: 0 }
 
   // Update each server
   for (const server of serversToProcess) {
-    logger.info(`Updating image for ${server.name} (${server.image})...`)
+    logger.info(
+      `Updating image for ${server.name} (${
+        server.image ?? server.launcher?.package
+      })...`,
+    )
 
-    const success = await updateServerImage(server)
+    const success = await updateServerImage(server, { yes: args.yes === true })
     const statusText = success ? 'SUCCESS' : 'FAILED'
     logger.info(`${server.name} image update: ${statusText}`)
 
@@ -78,9 +96,29 @@ async function command({ args }: CommandRouteOptions): Promise<void> {
   logger.info(
     `HTTP Servers: ${successCount.http} updated, ${failCount.http} failed`,
   )
+  logger.info(
+    `Streamable HTTP Servers: ${successCount['streamable-http']} updated, ${
+      failCount['streamable-http']
+    } failed`,
+  )
   logger.info(
     `STDIO Servers: ${successCount.stdio} updated, ${failCount.stdio} failed`,
   )
+
+  const lockChanges = diffImageLocks(lockBefore, await loadImageLock())
+  if (lockChanges.length === 0) {
+    logger.info('mcp.lock: no digest changes')
+  } else {
+    logger.info('mcp.lock changes:')
+    for (const change of lockChanges) {
+      logger.info(
+        `  ${change.name}: ${formatImageLock(change.before)} → ${
+          formatImageLock(change.after)
+        }`,
+      )
+    }
+    logger.info('Commit mcp.lock so everyone runs the same images')
+  }
   logger.info(
     `${header}\nUpdate ${
       allSuccessful ? 'COMPLETED SUCCESSFULLY' : 'COMPLETED WITH ERRORS'
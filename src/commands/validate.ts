@@ -0,0 +1,84 @@
+import type {
+  CommandRouteDefinition,
+  CommandRouteOptions,
+} from '../utils/command-router.ts'
+import { relative } from '@std/path'
+import * as colors from '@std/fmt/colors'
+import logger from '../utils/logger.ts'
+import { getWorkspacePath, validateServerConfigFiles } from '../config.ts'
+
+const commandRouteDefinition: CommandRouteDefinition = {
+  name: 'validate',
+  command: command,
+  description: 'Validate every server config file in servers/',
+  options: {
+    boolean: ['json'],
+    default: { json: false },
+  },
+}
+
+async function command({ args }: CommandRouteOptions): Promise<void> {
+  const targetServer = args.server as string | undefined
+  const results = (await validateServerConfigFiles()).filter((result) =>
+    !targetServer || result.name === targetServer
+  )
+
+  if (targetServer && results.length === 0) {
+    throw new Error(`No config file found for server "${targetServer}"`)
+  }
+
+  const issues = results.flatMap((result) => result.issues)
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length
+  const warningCount = issues.length - errorCount
+
+  if (args.json === true) {
+    logger.print(JSON.stringify(
+      {
+        valid: errorCount === 0,
+        files: results.map(({ name, filePath, issues }) => ({
+          name,
+          filePath,
+          valid: !issues.some((issue) => issue.severity === 'error'),
+          issues: issues.map(({ field, message, severity }) => ({
+            field,
+            message,
+            severity,
+          })),
+        })),
+      },
+      null,
+      2,
+    ))
+  } else {
+    const workspacePath = getWorkspacePath()
+    for (const result of results) {
+      const file = relative(workspacePath, result.filePath)
+      if (result.issues.length === 0) {
+        logger.print(`${colors.green('✓')} ${file}`)
+        continue
+      }
+
+      const mark = result.config ? colors.yellow('!') : colors.red('✗')
+      logger.print(`${mark} ${file}`)
+      for (const { field, message, severity } of result.issues) {
+        const label = severity === 'error'
+          ? colors.red('error')
+          : colors.yellow('warning')
+        logger.print(`    ${label} ${colors.bold(field)} ${message}`)
+      }
+    }
+
+    logger.print(
+      `\n${results.length} file(s) checked, ${errorCount} error(s), ${warningCount} warning(s)`,
+    )
+  }
+
+  if (errorCount > 0) {
+    throw new Error(
+      `Server config validation failed with ${errorCount} error(s)`,
+    )
+  }
+}
+
+export { command, commandRouteDefinition }
+export default commandRouteDefinition
@@ -18,9 +18,14 @@ import { load as loadEnv } from '@std/dotenv'
 import { parseArgs } from '@std/cli'
 import { exists } from '@std/fs'
 import { join } from '@std/path'
-import type { AppConfig, McpServerConfig } from './types.ts'
+import type { AppConfig, McpConfigScope, McpServerConfig } from './types.ts'
 import logger from './utils/logger.ts'
 import { getPlatformClients } from './utils/find-mcp-clients.ts'
+import {
+  formatServerConfigIssue,
+  type ServerConfigIssue,
+  validateServerConfig,
+} from './utils/server-validator.ts'
 
 /**
  * Represents a possible configuration value which can be:
@@ -45,19 +50,33 @@ const DEFAULT_VALUES: ConfigRecord = {
   PACKAGE_PATH: () => getWorkspacePath(),
   CURSOR_MCP_CONFIG_PATH: () => {
     const clients = getPlatformClients()
-    const cursorClient = clients.find(client => client.name === 'Cursor')
+    const cursorClient = clients.find((client) => client.name === 'Cursor')
     return cursorClient?.path || ''
   },
+  CURSOR_PROJECT_MCP_CONFIG_PATH: () =>
+    join(getWorkspacePath(), '.cursor', 'mcp.json'),
   WINDSURF_MCP_CONFIG_PATH: () => {
     const clients = getPlatformClients()
-    const windsurfClient = clients.find(client => client.name === 'Windsurf')
+    const windsurfClient = clients.find((client) => client.name === 'Windsurf')
     return windsurfClient?.path || ''
   },
   CLAUDE_MCP_CONFIG_PATH: () => {
     const clients = getPlatformClients()
-    const claudeClient = clients.find(client => client.name === 'Claude')
+    const claudeClient = clients.find((client) => client.name === 'Claude')
     return claudeClient?.path || ''
   },
+  SECRETS_PROVIDER: 'file',
+  SECRETS_FILE_PATH: () => join(getWorkspacePath(), 'data', 'secrets.enc.json'),
+  SECRETS_KEY_PATH: () => {
+    const homeDir = Deno.env.get('HOME') || Deno.env.get('USERPROFILE') || ''
+    return join(homeDir, '.config', 'mcp-manager', 'secrets.key')
+  },
+  SECRETS_COMMAND: '',
+  TOOL_PINNING: 'block',
+  EGRESS_PROXY_IMAGE: 'denoland/deno:alpine-2.1.4',
+  IMAGE_HISTORY_LIMIT: '5',
+  CONTAINER_RUNTIME: 'auto',
+  PORT_RANGE: '9000-9099',
 }
 
 let configProxy: AppConfig | null = null
@@ -67,9 +86,11 @@ let serverConfigsPromise: Promise<McpServerConfig[]> | null = null
 let appConfigInitialized = false
 let mcpServersInitialized = false
 
-// Get workspace paths - simplified since we know we're always in workspace root
-const workspaceRoot = Deno.cwd()
-const serverConfigDir = join(workspaceRoot, 'servers', 'config')
+// Get workspace paths - simplified since we know we're always in workspace root,
+// except when an MCP client spawns `exec` and points us at it explicitly
+const workspaceRoot = Deno.env.get('MCP_MANAGER_WORKSPACE') || Deno.cwd()
+const serversDir = join(workspaceRoot, 'servers')
+const serverConfigDir = join(serversDir, 'config')
 const mainEnvPath = join(serverConfigDir, 'main.env')
 const examplesPath = join(workspaceRoot, 'examples')
 
@@ -105,6 +126,16 @@ function getEnvFilePath(serverName: string): string {
   return join(serverConfigDir, `${serverName}.env`)
 }
 
+/**
+ * Get the configuration file path for a server
+ *
+ * @param serverName Name of the server
+ * @returns Path to the server's `.config.ts` file in the servers directory
+ */
+function getServerConfigFilePath(serverName: string): string {
+  return join(serversDir, `${serverName}.config.ts`)
+}
+
 /**
  * Get the example environment file path for a server
  *
@@ -124,6 +155,90 @@ function getExamplesPath(): string {
   return examplesPath
 }
 
+/**
+ * Check whether a server is served over HTTP (legacy SSE or Streamable HTTP)
+ * and therefore runs as a persistent container with a published port
+ *
+ * @param server Server configuration
+ * @returns True for `http` and `streamable-http` servers
+ */
+function isHttpServer(server: McpServerConfig): boolean {
+  return server.type === 'http' || server.type === 'streamable-http'
+}
+
+/**
+ * Check whether a server runs as a local process instead of a container
+ *
+ * @param server Server configuration
+ * @returns True for servers with a `launcher`
+ */
+function isNativeServer(server: McpServerConfig): boolean {
+  return server.launcher !== undefined
+}
+
+/**
+ * Check whether a server is hosted elsewhere and only connected to
+ *
+ * @param server Server configuration
+ * @returns True for servers with a `remote` config
+ */
+function isRemoteServer(server: McpServerConfig): boolean {
+  return server.remote !== undefined
+}
+
+/**
+ * Check whether a server runs in a container, as opposed to a native process
+ * or a hosted endpoint
+ *
+ * @param server Server configuration
+ * @returns True if the server needs a container runtime
+ */
+function isContainerServer(server: McpServerConfig): boolean {
+  return !isNativeServer(server) && !isRemoteServer(server)
+}
+
+/**
+ * Get the identifier recorded as a STDIO server's endpoint in the state file
+ *
+ * @param server STDIO server configuration
+ * @returns e.g. `command:docker:mcp/slack:latest` or `command:npx:@scope/server`
+ */
+function getStdioEndpoint(server: McpServerConfig): string {
+  return server.launcher
+    ? `command:${server.launcher.type}:${server.launcher.package}`
+    : `command:docker:${server.image}`
+}
+
+/**
+ * Get the URL path an HTTP server exposes its MCP endpoint on
+ *
+ * @param server Server configuration
+ * @returns `/mcp` for Streamable HTTP servers, `/sse` for legacy SSE servers
+ */
+function getHttpEndpointPath(server: McpServerConfig): string {
+  return server.type === 'streamable-http' ? '/mcp' : '/sse'
+}
+
+/**
+ * Get the host address an HTTP server's port is published on
+ *
+ * @param server Server configuration
+ * @returns The server's `bindAddress`, loopback only by default
+ */
+function getBindAddress(server: McpServerConfig): string {
+  return server.bindAddress ?? '127.0.0.1'
+}
+
+/**
+ * Check whether a value is a valid client config scope
+ *
+ * @param value Value to check, usually the `--scope` flag
+ * @returns True for 'project' and 'global'
+ */
+function isConfigScope(value: unknown): value is McpConfigScope {
+  return value === 'project' || value === 'global'
+}
+
 //
 // Initialization and loading methods
 //
@@ -340,6 +455,73 @@ function clearMcpServerConfigCache(): void {
   logger.debug('MCP server config cache cleared')
 }
 
+/**
+ * Result of loading and validating a single server config file
+ */
+interface ServerConfigFileResult {
+  /** Server name derived from the file name */
+  name: string
+  /** Absolute path to the `.config.ts` file */
+  filePath: string
+  /** The loaded configuration, only set when there are no errors */
+  config?: McpServerConfig
+  /** Every problem found while importing or validating the file */
+  issues: ServerConfigIssue[]
+}
+
+/**
+ * Import and validate every `*.config.ts` file in the servers directory,
+ * regardless of ENABLED_SERVERS
+ *
+ * @returns One result per config file, sorted by server name
+ */
+async function validateServerConfigFiles(): Promise<ServerConfigFileResult[]> {
+  const results: ServerConfigFileResult[] = []
+
+  for await (const entry of Deno.readDir(serversDir)) {
+    if (!entry.isFile || !entry.name.endsWith('.config.ts')) {
+      continue
+    }
+
+    // Skip example files
+    if (entry.name.includes('.example')) {
+      continue
+    }
+
+    const name = entry.name.replace('.config.ts', '')
+    const filePath = join(serversDir, entry.name)
+
+    try {
+      // Import the server configuration dynamically
+      const module = await import(`file://${filePath}`)
+      const issues = validateServerConfig(module.default, filePath, name)
+      const hasErrors = issues.some((issue) => issue.severity === 'error')
+
+      results.push({
+        name,
+        filePath,
+        issues,
+        // Create server config with derived paths
+        ...(hasErrors ? {} : { config: { ...module.default, name } }),
+      })
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err)
+      results.push({
+        name,
+        filePath,
+        issues: [{
+          filePath,
+          field: 'module',
+          message: `could not be imported: ${errorMessage}`,
+          severity: 'error',
+        }],
+      })
+    }
+  }
+
+  return results.sort((a, b) => a.name.localeCompare(b.name))
+}
+
 /**
  * Loads all server configurations from the servers directory
  */
@@ -348,7 +530,6 @@ async function loadServerConfigs(): Promise<McpServerConfig[]> {
     return mcpServerConfigs
   }
 
-  const serversDir = join(workspaceRoot, 'servers')
   logger.debug(`Scanning for server configurations in ${serversDir}`)
 
   const configs: McpServerConfig[] = []
@@ -356,46 +537,25 @@ async function loadServerConfigs(): Promise<McpServerConfig[]> {
   const mcpSlackExamplePath = join(examplesPath, 'mcp-slack.ts.example')
 
   try {
-    for await (const entry of Deno.readDir(serversDir)) {
-      if (!entry.isFile || !entry.name.endsWith('.config.ts')) {
-        continue
-      }
-
-      // Skip example files
-      if (entry.name.includes('.example')) {
-        continue
-      }
-
-      const serverName = entry.name.replace('.config.ts', '')
+    for (const result of await validateServerConfigFiles()) {
+      const { name: serverName, filePath, issues } = result
       logger.debug(`Discovered server configuration: ${serverName}`)
 
-      try {
-        // Import the server configuration dynamically
-        const configPath = `file://${join(serversDir, entry.name)}`
-        const module = await import(configPath)
-
-        // Each server config file should export a default configuration object
-        if (!module.default) {
-          logger.warn(
-            `Server config ${entry.name} does not export a default configuration. See examples for correct structure: ${mcpAtlassianExamplePath}, ${mcpSlackExamplePath}`,
-          )
-          continue
-        }
-
-        // Create server config with derived paths
-        const serverConfig: McpServerConfig = {
-          ...module.default,
-          name: serverName,
-        }
+      for (const issue of issues) {
+        const message = formatServerConfigIssue(issue)
+        if (issue.severity === 'error') logger.error(message)
+        else logger.warn(message)
+      }
 
-        configs.push(serverConfig)
-        logger.debug(`Validated server configuration for ${serverName}`)
-      } catch (err: unknown) {
-        const errorMessage = err instanceof Error ? err.message : String(err)
+      if (!result.config) {
         logger.error(
-          `Error loading server config ${entry.name}: ${errorMessage}. See examples for correct structure: ${mcpAtlassianExamplePath}, ${mcpSlackExamplePath}`,
+          `Skipping server config ${filePath}. See examples for correct structure: ${mcpAtlassianExamplePath}, ${mcpSlackExamplePath}`,
         )
+        continue
       }
+
+      configs.push(result.config)
+      logger.debug(`Validated server configuration for ${serverName}`)
     }
 
     // If after checking all files, no valid configurations were loaded
@@ -590,12 +750,23 @@ async function isServerEnabled(serverName: string): Promise<boolean | string> {
 export {
   clearMcpServerConfigCache,
   getAppConfig,
+  getBindAddress,
   getEnvExampleFilePath,
   getEnvFilePath,
   getExamplesPath,
+  getHttpEndpointPath,
   getMcpServerConfig,
   getMcpServerConfigs,
+  getServerConfigFilePath,
+  getStdioEndpoint,
   getWorkspacePath,
   initializeConfig,
+  isConfigScope,
+  isContainerServer,
+  isHttpServer,
+  isNativeServer,
+  isRemoteServer,
   isServerEnabled,
+  validateServerConfigFiles,
 }
+export type { ServerConfigFileResult }
@@ -25,12 +25,33 @@ export type {
   CommandRouteOptions,
 } from './utils/command-router.ts'
 export type {
+  AuthTokenConfig,
   CursorHttpMcpEntry,
   CursorMcpEntry,
   CursorStdioMcpEntry,
+  EgressConfig,
+  EnvVarDefinition,
+  LauncherConfig,
+  LauncherType,
+  McpClientEntry,
+  McpClientId,
+  McpConfigScope,
+  McpImageHistoryEntry,
+  McpImageLock,
+  McpImageLockFile,
+  McpProcessInfo,
   McpServerConfig,
+  McpSessionInfo,
   McpState,
   McpStateFile,
+  McpSupervisionInfo,
+  McpToolPin,
+  ReadinessConfig,
+  ReadinessStrategy,
+  RemoteServerConfig,
+  RestartPolicyConfig,
+  SecurityProfileConfig,
+  WindsurfHttpMcpEntry,
 } from './types.ts'
 export { getMcpServerConfigs }
 
@@ -39,4 +60,6 @@ export * from './orchestrator.ts'
 export * from './presentation.ts'
 export * from './services/docker-service.ts'
 export * from './services/health-validator-service.ts'
+export * from './services/mcp-session-service.ts'
 export * from './services/cursor-service.ts'
+export * from './services/mcp-client-service.ts'
@@ -13,15 +13,23 @@ import type {
   CursorHttpMcpEntry,
   CursorMcpEntry,
   CursorStdioMcpEntry,
+  McpClientId,
+  McpConfigScope,
+  McpImageLock,
+  McpProcessInfo,
   McpServerConfig,
   McpState,
 } from './types.ts'
 import {
+  buildInteractiveRunArgs,
+  getContainerLogs,
+  getImageDigest,
+  getSecurityArgs,
   isContainerRunning,
   isDockerImagePulled,
   isDockerInstalled,
   isDockerRunning,
-  printDockerLogs,
+  isPortInUse,
   pullDockerImage,
   runContainer,
   startDocker,
@@ -29,34 +37,128 @@ import {
 } from './services/docker-service.ts'
 import {
   isPortOpen,
+  openServerSession,
   validateServerHealth,
 } from './services/health-validator-service.ts'
 import {
   confirm,
   displayCursorConfig,
+  displayMissingEnvVars,
   suggestEnvFileCreation,
 } from './presentation.ts'
-import { getAppConfig, getEnvFilePath } from './config.ts'
-import { addMcpServers, getMcpServers } from './services/cursor-service.ts'
 import {
+  getAppConfig,
+  getBindAddress,
+  getEnvFilePath,
+  getHttpEndpointPath,
+  getStdioEndpoint,
+  getWorkspacePath,
+  isContainerServer,
+  isHttpServer,
+  isNativeServer,
+  isRemoteServer,
+} from './config.ts'
+import {
+  addMcpServers,
+  getMcpServers,
+  removeMcpServers,
+} from './services/cursor-service.ts'
+import {
+  type DetectedMcpClient,
+  getDetectedMcpClients,
+} from './services/mcp-client-service.ts'
+import { readEnvFile } from './utils/env-file.ts'
+import { findMissingEnvVars } from './services/env-service.ts'
+import { getSecretReferences } from './services/secret-service.ts'
+import { listAllPages } from './services/inventory-service.ts'
+import type { McpSession } from './services/mcp-session-service.ts'
+import {
+  createToolPin,
+  diffTools,
+  formatToolChanges,
+  hashTools,
+} from './services/tool-pin-service.ts'
+import {
+  ensureEgressProxy,
+  getEgressArgs,
+  hasEgressAllowlist,
+  removeEgressRoute,
+} from './services/egress-service.ts'
+import {
+  getAuthHeaders,
+  getAuthTokenEnv,
+} from './services/auth-token-service.ts'
+import {
+  ensureServerImage,
+  formatImageLock,
+  loadImageLock,
+  lockServerImage,
+  resolveServerImage,
+  saveImageLock,
+  setImageLockEntry,
+} from './services/image-lock-service.ts'
+import {
+  getImageHistory,
+  recordReplacedImage,
+} from './services/image-history-service.ts'
+import {
+  formatSurfaceDiff,
+  getImageSurfaceDiff,
+  hasSurfaceChanges,
+  type SurfaceDiff,
+} from './services/surface-diff-service.ts'
+import {
+  getContainerCommand,
+  getContainerRuntime,
+} from './services/container-runtime-service.ts'
+import {
+  buildNativeCommand,
+  isNativeProcessRunning,
+  readNativeLogTail,
+  startNativeProcess,
+  stopNativeProcess,
+} from './services/native-launcher-service.ts'
+import {
+  checkRemoteReachability,
+  resolveRemoteClientEndpoint,
+} from './services/remote-server-service.ts'
+import {
+  assignServerPort,
+  getConfiguredPort,
+  previewServerPort,
+} from './services/port-registry-service.ts'
+import {
+  getReadinessConfig,
+  waitForServerReady,
+} from './services/readiness-service.ts'
+import {
+  getClientConfigPreference,
   getServerState,
   loadState,
   saveState,
+  updateServerClientConfigPreference,
+  updateServerConfigScope,
+  updateServerProcess,
   updateServerStatus,
-  updateServerCursorConfigPreference,
+  updateServerToolPin,
 } from './state.ts'
 import { join } from '@std/path'
 import { getAvailablePort } from '@std/net'
+import type { ListToolsResult, Tool } from '../vendor/mcp-specification.ts'
+
+/** Log lines printed when an HTTP server fails to start */
+const LOG_TAIL_LINES = 50
 
 /**
- * Check Docker installation and availability
+ * Check that the selected container runtime is installed and running
  *
- * @returns True if Docker is ready, false otherwise
+ * @returns True if the runtime is ready, false otherwise
  */
 async function checkDockerAvailability(): Promise<boolean> {
+  const runtime = await getContainerRuntime()
   if (!await isDockerInstalled()) {
     logger.error(
-      'Docker is not installed. Please install Docker to use this command.',
+      `${runtime.displayName} is not installed. Please install Docker, Podman or nerdctl, or set CONTAINER_RUNTIME, to use this command.`,
     )
     return false
   }
@@ -66,12 +168,12 @@ async function checkDockerAvailability(): Promise<boolean> {
   const started = await startDocker()
   if (!started) {
     logger.error(
-      'Could not start Docker. Please start Docker manually and try again.',
+      `Could not start ${runtime.displayName}. Please start it manually and try again.`,
     )
     return false
   }
 
-  logger.info('Docker started successfully.')
+  logger.info(`${runtime.displayName} started successfully.`)
   return true
 }
 
@@ -141,6 +243,20 @@ function getAbsoluteEnvFilePathForCursor(serverName: string): string {
 async function transformServerConfigForCursor(
   server: McpServerConfig,
 ): Promise<CursorMcpEntry> {
+  // Hosted servers are written with their own URL and headers, filled in
+  // from plain env values only since client configs can't hold secrets
+  if (isRemoteServer(server)) {
+    const { url, headers, inlined } = await resolveRemoteClientEndpoint(server)
+    if (inlined.length > 0) {
+      logger.warn(
+        `${server.name}'s client config entries contain ${
+          inlined.join(', ')
+        } from its env file in plain text`,
+      )
+    }
+    return Object.keys(headers).length > 0 ? { url, headers } : { url }
+  }
+
   // First check if we have this server in the state file with a valid endpoint
   try {
     const state = await loadState()
@@ -149,12 +265,11 @@ async function transformServerConfigForCursor(
     // If server has a valid endpoint in state, use that for Cursor config
     if (serverState?.endpoint) {
       if (
-        server.type === 'http' && serverState.endpoint.startsWith('http://')
+        isHttpServer(server) && serverState.endpoint.startsWith('http://') &&
+        serverState.endpoint.endsWith(getHttpEndpointPath(server))
       ) {
         // For HTTP servers, use the endpoint URL directly
-        return {
-          url: serverState.endpoint,
-        } as CursorHttpMcpEntry
+        return await buildHttpCursorEntry(server, serverState.endpoint)
       }
 
       if (
@@ -162,20 +277,7 @@ async function transformServerConfigForCursor(
       ) {
         // For STDIO servers, construct the args based on the stored endpoint
         // Since the command args may have changed, we still construct them fresh
-        const dockerArgs = [
-          'run',
-          '-i',
-          '--rm',
-          '--env-file',
-          getAbsoluteEnvFilePathForCursor(server.name),
-          server.image,
-          ...server.args,
-        ]
-
-        return {
-          command: 'docker',
-          args: dockerArgs,
-        } as CursorStdioMcpEntry
+        return await buildStdioCursorEntry(server)
       }
     }
   } catch (error) {
@@ -184,51 +286,130 @@ async function transformServerConfigForCursor(
   }
 
   // Fallback to constructing config from server configuration
-  if (server.type === 'http') {
-    // For HTTP servers, extract port from args or get an available port
-    const port = await getPortFromArgs(server.args, true)
-    if (!port) {
-      logger.error(`Could not assign a port for ${server.name}`)
+  if (isHttpServer(server)) {
+    const endpointPath = getHttpEndpointPath(server)
+
+    // For HTTP servers, use the port from args or the one it would be assigned
+    let port = 9000
+    try {
+      port = await previewServerPort(await loadState(), server)
+    } catch (error) {
+      logger.error(`Could not assign a port for ${server.name}: ${error}`)
       // Still provide a default for Cursor config
-      return {
-        url: 'http://localhost:9000/sse',
-      } as CursorHttpMcpEntry
     }
 
-    return {
-      url: `http://localhost:${port}/sse`,
-    } as CursorHttpMcpEntry
+    return await buildHttpCursorEntry(
+      server,
+      `http://localhost:${port}${endpointPath}`,
+    )
   }
 
   // For STDIO servers, create a docker command with appropriate args
-  const dockerArgs = [
-    'run',
-    '-i',
-    '--rm',
-    '--env-file',
-    getAbsoluteEnvFilePathForCursor(server.name),
-    server.image,
-    ...server.args,
-  ]
+  return await buildStdioCursorEntry(server)
+}
+
+/**
+ * Build the Cursor entry for an HTTP server, with its bearer token when the
+ * server requires one
+ *
+ * @param server HTTP server configuration
+ * @param url Endpoint URL
+ * @returns Cursor MCP entry
+ */
+async function buildHttpCursorEntry(
+  server: McpServerConfig,
+  url: string,
+): Promise<CursorHttpMcpEntry> {
+  const headers = await getAuthHeaders(server)
+  return Object.keys(headers).length > 0 ? { url, headers } : { url }
+}
+
+/**
+ * Build the Cursor entry that spawns a STDIO server
+ *
+ * Secret values can't be written into client configs, so when the env file
+ * holds `secret://` references the entry runs the manager's `exec` command,
+ * which resolves them and spawns the container itself. Native servers without
+ * references get their launcher command, working directory and the env file's
+ * values, which are copied into the client configs with a warning.
+ *
+ * @param server STDIO server configuration
+ * @returns Cursor MCP entry
+ */
+async function buildStdioCursorEntry(
+  server: McpServerConfig,
+): Promise<CursorStdioMcpEntry> {
+  const envFile = getAbsoluteEnvFilePathForCursor(server.name)
+
+  if (Object.keys(await getSecretReferences(envFile)).length > 0) {
+    const workspacePath = getWorkspacePath()
+    return {
+      command: Deno.execPath(),
+      args: [
+        'run',
+        '-A',
+        '--quiet',
+        '--config',
+        join(workspacePath, 'deno.jsonc'),
+        join(workspacePath, 'src', 'mod.ts'),
+        'exec',
+        server.name,
+      ],
+      // Keep stdout free of log lines, it carries the JSON-RPC stream
+      env: { MCP_MANAGER_WORKSPACE: workspacePath, LOG_LEVEL: 'error' },
+    }
+  }
+
+  if (isNativeServer(server)) {
+    const { command, args, cwd } = buildNativeCommand(server)
+    const env = await readEnvFile(getEnvFilePath(server.name)) ?? {}
+    if (Object.keys(env).length > 0) {
+      logger.warn(
+        `${server.name}'s client config entries contain ${
+          Object.keys(env).join(', ')
+        } from its env file in plain text, use secret references to keep them out`,
+      )
+    }
+    return {
+      command,
+      args,
+      // Only a configured working directory is written, the client's own is
+      // as good as the workspace's for everything else
+      ...(server.launcher?.cwd !== undefined && { cwd }),
+      ...(Object.keys(env).length > 0 && { env }),
+    }
+  }
 
   return {
-    command: 'docker',
-    args: dockerArgs,
-  } as CursorStdioMcpEntry
+    command: await getContainerCommand(),
+    args: buildInteractiveRunArgs({
+      imageName: await resolveServerImage(server),
+      args: server.args,
+      envFile,
+      securityArgs: getSecurityArgs(server),
+      networkArgs: await getEgressArgs(server),
+    }),
+  }
 }
 
 /**
- * Check if the environment file exists for a server
- * If not, suggest creating it from the example file
+ * Check that the environment file exists for a server and sets every required
+ * variable declared in its `envVars`.
+ * If the file is missing, suggest creating it from the example file
  *
  * @param server Server configuration
- * @returns True if the file exists or if no environment file is needed
+ * @returns True if the file exists and no required variable is missing or empty
  */
 async function checkEnvFile(server: McpServerConfig): Promise<boolean> {
   const envFilePath = getEnvFilePath(server.name)
-  if (await exists(envFilePath)) return true
+  if (!await exists(envFilePath) && !await suggestEnvFileCreation(server)) {
+    return false
+  }
+
+  const missing = await findMissingEnvVars(server)
+  if (missing.length === 0) return true
 
-  await suggestEnvFileCreation(server)
+  displayMissingEnvVars(server, missing)
   return false
 }
 
@@ -272,7 +453,7 @@ async function handleHttpServerSuccess(
   port: number,
 ): Promise<boolean> {
   const { name } = server
-  const endpoint = `http://localhost:${port}/sse`
+  const endpoint = `http://localhost:${port}${getHttpEndpointPath(server)}`
 
   // Update state
   await updateAndSaveServerState(name, true, endpoint)
@@ -281,9 +462,85 @@ async function handleHttpServerSuccess(
   return true
 }
 
+/**
+ * Get the process of a native HTTP server, if it's still running
+ *
+ * @param name Name of the server
+ * @returns Process info from the state file, undefined if it isn't running
+ */
+async function getRunningNativeProcess(
+  name: string,
+): Promise<McpProcessInfo | undefined> {
+  const info = getServerState(await loadState(), name)?.process
+  return info && await isNativeProcessRunning(info) ? info : undefined
+}
+
+/**
+ * Check whether an HTTP server's container or native process is running
+ *
+ * @param server HTTP server configuration
+ * @returns True if the container or process is running
+ */
+async function isServerProcessRunning(
+  server: McpServerConfig,
+): Promise<boolean> {
+  return isNativeServer(server)
+    ? await getRunningNativeProcess(server.name) !== undefined
+    : await isContainerRunning(server.name)
+}
+
+/**
+ * Stop and remove an HTTP server's container, or stop its native process and
+ * forget it in the state file. Remote servers are left alone
+ *
+ * @param server HTTP server configuration
+ * @returns True if nothing of the server is running anymore
+ */
+async function stopServerProcess(server: McpServerConfig): Promise<boolean> {
+  // Hosted servers aren't ours to stop
+  if (isRemoteServer(server)) return true
+  if (!isNativeServer(server)) {
+    return await stopAndRemoveContainer(server.name)
+  }
+
+  const info = getServerState(await loadState(), server.name)?.process
+  if (info && !await stopNativeProcess(info)) return false
+  await saveState(
+    updateServerProcess(await loadState(), server.name, undefined),
+  )
+  return true
+}
+
+/**
+ * Print the end of an HTTP server's container or process output
+ *
+ * @param server HTTP server configuration
+ */
+async function printServerLogTail(server: McpServerConfig): Promise<void> {
+  const { name } = server
+  if (isNativeServer(server)) {
+    logger.print(
+      await readNativeLogTail(name, LOG_TAIL_LINES) || 'No logs available',
+    )
+    return
+  }
+
+  const logs = await getContainerLogs(name, LOG_TAIL_LINES)
+  if (!logs.success) {
+    logger.error(`Failed to get logs for ${name}: ${logs.error}`)
+    return
+  }
+  // Most servers log to stderr, which `docker logs` keeps apart from stdout
+  const output = [logs.stdout, logs.stderr]
+    .map((stream) => stream?.trimEnd())
+    .filter(Boolean)
+    .join('\n')
+  logger.print(output || 'No logs available')
+}
+
 /**
  * Handle server startup failure for HTTP servers
- * Cleans up container, logs error
+ * Cleans up container or process, logs error
  *
  * @param server Server configuration
  * @param message Error message
@@ -296,11 +553,11 @@ async function handleHttpServerFailure(
   const { name } = server
 
   // Get logs for troubleshooting
-  logger.info('Retrieving logs for troubleshooting:')
-  await printDockerLogs(name)
+  logger.info(`Last ${LOG_TAIL_LINES} log lines of ${name}:`)
+  await printServerLogTail(server)
 
-  // Clean up container
-  await stopAndRemoveContainer(name)
+  // Clean up container or process
+  await stopServerProcess(server)
 
   // Log error
   logger.error(message)
@@ -336,40 +593,140 @@ async function checkServerHealth(
 }
 
 /**
- * Start an HTTP-based MCP server
+ * Compare a server's tools with the definitions the user approved, pinning
+ * them in the state file on first approval. `TOOL_PINNING` decides whether a
+ * change blocks the server (`block`, the default), is only reported (`warn`)
+ * or isn't checked at all (`off`)
+ *
+ * @param server Server configuration, HTTP servers must be running
+ * @param options.interactive Whether the user can be asked to approve new or changed tools
+ * @returns False if the tools don't match the approved ones and pinning blocks them
+ */
+async function verifyToolPin(
+  server: McpServerConfig,
+  { interactive }: { interactive: boolean },
+): Promise<boolean> {
+  const { name } = server
+  const mode = (await getAppConfig()).TOOL_PINNING || 'block'
+  if (mode === 'off') return true
+  const blocking = mode !== 'warn'
+
+  let tools: Tool[]
+  let session: McpSession | undefined
+  try {
+    session = await openServerSession(server, server.healthValidator?.timeoutMs)
+    tools = session.capabilities.tools
+      ? await listAllPages<ListToolsResult, Tool>(
+        session,
+        'tools/list',
+        (page) => page.tools,
+      )
+      : []
+  } catch (error) {
+    logger.error(
+      `Could not list the tools of ${name} to compare them with the approved ones:`,
+      error,
+    )
+    return !blocking
+  } finally {
+    await session?.close()
+  }
+
+  const pin = getServerState(await loadState(), name)?.toolPin
+  if (pin?.hash === await hashTools(tools)) {
+    logger.debug(
+      `Tools of ${name} match the definitions approved on ${pin.approvedOn}`,
+    )
+    return true
+  }
+
+  const approve = async () => {
+    await saveState(
+      updateServerToolPin(await loadState(), name, await createToolPin(tools)),
+    )
+    logger.info(`Pinned ${tools.length} tool definition(s) for ${name}`)
+    return true
+  }
+
+  if (!pin) {
+    logger.info(
+      `${name} exposes ${tools.length} tool(s): ${
+        tools.map((tool) => tool.name).join(', ') || 'none'
+      }. Review them with \`deno task tools --server=${name}\``,
+    )
+    if (!interactive) {
+      logger.warn(
+        `The tools of ${name} haven't been approved yet, run \`deno task start --server=${name}\` to approve them`,
+      )
+      return true
+    }
+    if (
+      await confirm(`Approve the tools of ${name} and pin their definitions?`)
+    ) {
+      return await approve()
+    }
+    if (blocking) logger.error(`The tools of ${name} were not approved`)
+    return !blocking
+  }
+
+  logger.warn(
+    `The tools of ${name} changed since they were approved on ${pin.approvedOn}:\n${
+      formatToolChanges(diffTools(pin.tools, tools)).join('\n')
+    }`,
+  )
+  if (
+    interactive &&
+    await confirm(`Approve the changed tools of ${name}?`, false)
+  ) {
+    return await approve()
+  }
+  if (blocking) {
+    logger.error(
+      `Blocked ${name} because its tools don't match the approved definitions. Run \`deno task start --server=${name}\` to review and approve the changes, or set TOOL_PINNING=warn`,
+    )
+  }
+  return !blocking
+}
+
+/**
+ * Start an HTTP-based MCP server (legacy SSE or Streamable HTTP)
  */
 async function startHttpServer(server: McpServerConfig): Promise<boolean> {
-  const { name, type } = server
+  const { name } = server
+  const endpointPath = getHttpEndpointPath(server)
 
   try {
-    if (type !== 'http') {
+    if (!isHttpServer(server)) {
       logger.error(`Server ${name} is not configured as HTTP type`)
       return false
     }
 
-    // Extract port from args or get an available port
-    const port = await getPortFromArgs(server.args, true)
-    if (!port) {
-      logger.error(`Could not assign a port for ${name}`)
+    // Use the port from args, or the one assigned from PORT_RANGE
+    let port: number
+    try {
+      port = await assignServerPort(server)
+    } catch (error) {
+      logger.error(`Could not assign a port for ${name}: ${error}`)
       return false
     }
 
-    // Update the server args with the assigned port if it wasn't already specified
-    let portSpecifiedInArgs = false
-    for (let i = 0; i < server.args.length - 1; i++) {
-      if (server.args[i] === '--port') {
-        portSpecifiedInArgs = true
-        break
-      }
-    }
+    // Pass the assigned port on without touching the server's configured args
+    const launched = getConfiguredPort(server) === undefined
+      ? { ...server, args: [...server.args, '--port', port.toString()] }
+      : server
 
-    if (!portSpecifiedInArgs) {
-      server.args.push('--port', port.toString())
-      logger.info(`Updated server args with dynamically assigned port: ${port}`)
+    // A restricted server sits on the internal egress network, which can't
+    // publish ports, so the egress proxy publishes its port instead
+    const restricted = hasEgressAllowlist(server)
+    if (restricted && !await ensureEgressProxy(server, port)) {
+      return await handleHttpServerFailure(
+        server,
+        `Failed to start the egress proxy for ${name}`,
+      )
     }
 
     // Check if a server is already responding at the port with a quick port check
-    const portResponding = await isPortOpen('localhost', port)
+    const portResponding = await isPortOpen('localhost', port, endpointPath)
     if (portResponding) {
       logger.info(`Server already running on port ${port}`)
 
@@ -384,9 +741,9 @@ async function startHttpServer(server: McpServerConfig): Promise<boolean> {
       return false
     }
 
-    // Check existing container status
-    if (await isContainerRunning(name)) {
-      logger.info(`Container ${name} is already running.`)
+    // Check existing container or process status
+    if (await isServerProcessRunning(server)) {
+      logger.info(`${name} is already running.`)
       const isHealthy = await checkServerHealth(server, port)
 
       if (isHealthy) {
@@ -396,53 +753,62 @@ async function startHttpServer(server: McpServerConfig): Promise<boolean> {
       return isHealthy
     }
 
-    // Clean up any existing containers
-    await stopAndRemoveContainer(name)
-
-    // Start new container
-    const containerConfig = {
-      imageName: server.image,
-      containerName: name,
-      args: server.args,
-      envFile: getEnvFilePath(name),
-      detached: true,
-      ports: [{ hostPort: port, containerPort: port }],
-    }
-
-    const result = await runContainer(containerConfig)
-    if (!result.success) {
-      return await handleHttpServerFailure(
-        server,
-        `Failed to start ${name} container: ${result.error}`,
+    // Something the manager doesn't run holds the port, the server would fail
+    // to bind it. A restricted server's port is held by the egress proxy
+    if (!restricted && isPortInUse(port)) {
+      logger.error(
+        `Port ${port} of ${name} is in use by another process. Stop that process, or run \`deno task ports --release --server=${name}\` to assign ${name} a new port`,
       )
+      return false
     }
 
-    logger.info(
-      `Started ${name} container. Waiting for server to initialize...`,
-    )
+    // Clean up any existing containers or processes
+    await stopServerProcess(server)
 
-    // Wait for server initialization with quick port checks first
-    let serverAvailable = false
-    const maxAttempts = 10
-    const intervalMs = 1000
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      await new Promise((resolve) => setTimeout(resolve, intervalMs))
+    if (isNativeServer(server)) {
+      const info = await startNativeProcess(launched)
+      await saveState(updateServerProcess(await loadState(), name, info))
+      logger.info(
+        `Started ${name} as process ${info.pid}, logging to ${info.logFile}. Waiting for server to initialize...`,
+      )
+    } else {
+      // Start new container
+      const containerConfig = {
+        imageName: await resolveServerImage(server),
+        containerName: name,
+        args: launched.args,
+        envFile: getEnvFilePath(name),
+        detached: true,
+        ports: restricted ? [] : [{
+          hostPort: port,
+          containerPort: port,
+          hostIp: getBindAddress(server),
+        }],
+        securityArgs: getSecurityArgs(server),
+        networkArgs: await getEgressArgs(server),
+        secretEnv: await getAuthTokenEnv(server),
+      }
 
-      if (await isPortOpen('localhost', port)) {
-        serverAvailable = true
-        break
+      const result = await runContainer(containerConfig)
+      if (!result.success) {
+        return await handleHttpServerFailure(
+          server,
+          `Failed to start ${name} container: ${result.error}`,
+        )
       }
 
-      logger.debug(
-        `Waiting for server (attempt ${attempt + 1}/${maxAttempts})...`,
+      logger.info(
+        `Started ${name} container. Waiting for server to initialize...`,
       )
     }
 
-    if (!serverAvailable) {
+    // Wait for the server with its readiness strategy before health checking it
+    const readiness = await waitForServerReady(server, port)
+    if (!readiness.ready) {
+      const { strategy, timeoutMs } = getReadinessConfig(server)
       return await handleHttpServerFailure(
         server,
-        'Server did not become available within the timeout period.',
+        `${name} was not ready after ${timeoutMs}ms (${readiness.attempts} ${strategy} checks, last: ${readiness.detail}). Raise readiness.timeoutMs if it needs longer to start`,
       )
     }
 
@@ -462,13 +828,85 @@ async function startHttpServer(server: McpServerConfig): Promise<boolean> {
   }
 }
 
+/**
+ * Connect to a remote server: check that its URL answers, run the health check
+ * against it and record it as online with its URL
+ *
+ * @param server Server configuration with a `remote`
+ * @returns True if the server is reachable and healthy
+ */
+async function startRemoteServer(server: McpServerConfig): Promise<boolean> {
+  const { name } = server
+
+  try {
+    const { reachable, detail } = await checkRemoteReachability(server)
+    if (!reachable) {
+      logger.error(`Could not reach ${name}: ${detail}`)
+      await updateAndSaveServerState(name, false)
+      return false
+    }
+    logger.info(`${name} answered with ${detail}`)
+
+    if (!await validateServerHealth(server)) {
+      logger.error(
+        `Health check failed for ${name}, check its url and headers`,
+      )
+      await updateAndSaveServerState(name, false)
+      return false
+    }
+
+    // Record the URL clients connect to, filled in from the env file. One
+    // that needs a secret keeps its placeholders, the state file is plain too
+    let endpoint = server.remote?.url
+    try {
+      endpoint = (await resolveRemoteClientEndpoint(server)).url
+    } catch (error) {
+      logger.debug(`Recording ${name}'s url with its placeholders: ${error}`)
+    }
+    await updateAndSaveServerState(name, true, endpoint)
+    logger.info(`${name} is reachable and healthy!`)
+    return true
+  } catch (error) {
+    logger.error(`Error connecting to remote server ${name}: ${error}`)
+    return false
+  }
+}
+
+/**
+ * Restart an HTTP server's container without prompting
+ *
+ * The server is restarted on the port recorded in the state file so the
+ * endpoint in every client config stays valid.
+ *
+ * @param server Server configuration
+ * @returns True if the server came back up healthy, false otherwise
+ */
+async function restartServer(server: McpServerConfig): Promise<boolean> {
+  const { name, description } = server
+
+  if (!isHttpServer(server)) {
+    logger.error(`${name} is a ${server.type} server and can't be restarted`)
+    return false
+  }
+  if (isRemoteServer(server)) {
+    logger.error(`${name} is a remote server and can't be restarted`)
+    return false
+  }
+
+  logger.info(`Restarting ${description} (${name})...`)
+
+  // The port registry hands the server the same port again
+  await stopServerProcess(server)
+  return await startHttpServer(server)
+}
+
 /**
  * Validate STDIO-based MCP server
  *
  * STDIO servers are not kept running; we only validate they can run
  */
 async function validateStdioServer(server: McpServerConfig): Promise<boolean> {
-  const { name, image } = server
+  const { name } = server
 
   try {
     if (server.type !== 'stdio') {
@@ -490,12 +928,14 @@ async function validateStdioServer(server: McpServerConfig): Promise<boolean> {
 
     // Update the state file - mark as validated but not running
     // STDIO servers aren't continuously running, but we store their config
-    const endpoint = `command:docker:${image}`
+    const endpoint = getStdioEndpoint(server)
     await updateAndSaveServerState(name, false, endpoint)
 
     logger.info(`${name} validation successful!`)
     logger.info(
-      'NOTE: STDIO servers run on-demand when called from Cursor.\nNo persistent container is needed.',
+      `NOTE: STDIO servers run on-demand when called from Cursor.\nNo persistent ${
+        isNativeServer(server) ? 'process' : 'container'
+      } is needed.`,
     )
 
     return true
@@ -522,12 +962,25 @@ async function stopServer(server: McpServerConfig): Promise<boolean> {
       return true
     }
 
-    const success = await stopAndRemoveContainer(name)
+    if (isRemoteServer(server)) {
+      logger.info(
+        `${name} is hosted remotely, only its client entries are removed.`,
+      )
+      await updateAndSaveServerState(name, false)
+      return true
+    }
+
+    const success = await stopServerProcess(server)
     if (!success) {
       logger.error(`Failed to stop ${name}`)
       return false
     }
 
+    // The egress proxy would keep publishing the port of a restricted server
+    if (hasEgressAllowlist(server) && !await removeEgressRoute(name)) {
+      logger.warn(`Could not remove the egress proxy route of ${name}`)
+    }
+
     // Update the state file to mark server as offline
     await updateAndSaveServerState(name, false)
 
@@ -554,20 +1007,27 @@ async function healthCheck(server: McpServerConfig): Promise<boolean> {
   try {
     logger.info(`Performing health check for ${description} (${name})...`)
 
-    // For HTTP servers, verify container is running first
-    if (server.type === 'http') {
-      const containerRunning = await isContainerRunning(name)
-      if (!containerRunning) {
-        logger.error(`Container ${name} is not running`)
+    if (isRemoteServer(server)) {
+      const { reachable, detail } = await checkRemoteReachability(server)
+      if (!reachable) {
+        logger.error(`${name} is not reachable: ${detail}`)
         return false
       }
+    } else if (isHttpServer(server) && !await isServerProcessRunning(server)) {
+      // For HTTP servers, verify the container or process is running first
+      logger.error(
+        `${
+          isNativeServer(server) ? 'Process' : 'Container'
+        } of ${name} is not running`,
+      )
+      return false
     }
 
     if (!server.healthValidator) {
       logger.info(
         `Skipping health check for ${name} as no healthValidator is configured`,
       )
-      return true
+      return await verifyToolPin(server, { interactive: false })
     }
 
     // Use the standardized health validator for all server types
@@ -579,7 +1039,7 @@ async function healthCheck(server: McpServerConfig): Promise<boolean> {
       logger.error(`Health check failed for ${name}`)
     }
 
-    return isHealthy
+    return isHealthy && await verifyToolPin(server, { interactive: false })
   } catch (error) {
     logger.error(`Error performing health check for ${name}:`, error)
     return false
@@ -596,10 +1056,14 @@ async function isServerRunning(server: McpServerConfig): Promise<boolean> {
   const { name, type } = server
 
   try {
-    if (type === 'http') {
-      // First check if the container is running by name
-      const containerRunning = await isContainerRunning(name)
-      if (containerRunning) return true
+    // A hosted server counts as running while its URL answers
+    if (isRemoteServer(server)) {
+      return (await checkRemoteReachability(server)).reachable
+    }
+
+    if (isHttpServer(server)) {
+      // First check if the container or process is running
+      if (await isServerProcessRunning(server)) return true
 
       // Get the current state to find the stored endpoint with port
       const state = await loadState()
@@ -612,7 +1076,11 @@ async function isServerRunning(server: McpServerConfig): Promise<boolean> {
           const port = Number.parseInt(portMatch[1], 10)
           if (!Number.isNaN(port)) {
             // Check if that specific port is responding
-            return await isPortOpen('localhost', port)
+            return await isPortOpen(
+              'localhost',
+              port,
+              getHttpEndpointPath(server),
+            )
           }
         }
       }
@@ -623,7 +1091,11 @@ async function isServerRunning(server: McpServerConfig): Promise<boolean> {
         if (server.args[i] === '--port') {
           const port = Number.parseInt(server.args[i + 1], 10)
           if (!Number.isNaN(port)) {
-            return await isPortOpen('localhost', port)
+            return await isPortOpen(
+              'localhost',
+              port,
+              getHttpEndpointPath(server),
+            )
           }
         }
       }
@@ -649,15 +1121,142 @@ async function isServerRunning(server: McpServerConfig): Promise<boolean> {
   }
 }
 
+/**
+ * Ask whether to go ahead with an image update. `--yes` approves without
+ * asking, and without a terminal to ask in the default answer is used so
+ * scripted runs don't block
+ *
+ * @param question The question to ask
+ * @param defaultYes Answer used when nobody can be asked
+ * @param yes Whether `--yes` was passed
+ * @returns True if the update may go ahead
+ */
+async function confirmImageUpdate(
+  question: string,
+  defaultYes: boolean,
+  yes: boolean,
+): Promise<boolean> {
+  if (yes) return true
+  if (!Deno.stdin.isTerminal()) {
+    logger.info(
+      `${question} ${
+        defaultYes ? 'Yes' : 'No, pass --yes to approve it'
+      } (not a terminal)`,
+    )
+    return defaultYes
+  }
+  return await confirm(question, defaultYes)
+}
+
+/**
+ * Show what a server's new image changes in its tools, prompts and resources
+ * and ask whether to switch to it. When the images can't be compared, the
+ * user is asked whether to update without the review
+ *
+ * @param server Server configuration
+ * @param currentImage Image the server runs now, undefined if it was never locked
+ * @param newImage Image the server would switch to
+ * @param yes Whether to approve without asking
+ * @returns Whether the user approved, and the new image's tools if they were read
+ */
+async function reviewImageSurface(
+  server: McpServerConfig,
+  currentImage: string | undefined,
+  newImage: string,
+  yes: boolean,
+): Promise<{ approved: boolean; tools?: Tool[] }> {
+  const { name } = server
+
+  let diff: SurfaceDiff
+  try {
+    diff = await getImageSurfaceDiff(server, currentImage, newImage)
+  } catch (error) {
+    logger.warn(
+      `Could not compare the new image of ${name} with the current one:`,
+      error,
+    )
+    return {
+      approved: await confirmImageUpdate(
+        `Update ${name} without reviewing what the new image exposes?`,
+        false,
+        yes,
+      ),
+    }
+  }
+
+  const changed = hasSurfaceChanges(diff)
+  if (changed) {
+    logger.warn(
+      `The new image of ${name} changes what it exposes:\n${
+        formatSurfaceDiff(diff).join('\n')
+      }`,
+    )
+  } else {
+    logger.info(
+      `The new image of ${name} exposes the same tools, prompts and resources`,
+    )
+  }
+  return {
+    approved: await confirmImageUpdate(
+      `Switch ${name} to the new image?`,
+      !changed,
+      yes,
+    ),
+    tools: diff.after.tools,
+  }
+}
+
+/**
+ * Pin tools the user already approved by reviewing an image's surface diff,
+ * so they aren't asked about the same changes again
+ *
+ * @param server Server configuration
+ * @param tools Tools of the approved image
+ */
+async function pinReviewedTools(
+  server: McpServerConfig,
+  tools: Tool[],
+): Promise<void> {
+  const { name } = server
+  if (((await getAppConfig()).TOOL_PINNING || 'block') === 'off') return
+
+  const state = await loadState()
+  if (getServerState(state, name)?.toolPin?.hash === await hashTools(tools)) {
+    return
+  }
+  await saveState(updateServerToolPin(state, name, await createToolPin(tools)))
+  logger.info(`Pinned ${tools.length} tool definition(s) for ${name}`)
+}
+
 /**
  * Update Docker image for a server
  *
+ * The new image is started next to the current one and the differences in
+ * what they expose are shown. Only once the user confirms is the server moved
+ * to the new digest in mcp.lock, a running HTTP container restarted on it and
+ * STDIO client entries pointed at it.
+ *
  * @param server Server configuration
+ * @param options.yes Switch to the new image without asking
  * @returns True if update successful, false otherwise
  */
-async function updateServerImage(server: McpServerConfig): Promise<boolean> {
+async function updateServerImage(
+  server: McpServerConfig,
+  { yes = false }: { yes?: boolean } = {},
+): Promise<boolean> {
   const { name, description, image } = server
 
+  if (isRemoteServer(server)) {
+    logger.info(`${name} is hosted remotely, its vendor updates it`)
+    return true
+  }
+  if (!image) {
+    logger.info(
+      `${name} runs natively, ${server.launcher?.type} fetches ${server.launcher?.package} when it starts. Pin a version in its launcher package to control updates`,
+    )
+    return true
+  }
+
   try {
     logger.info(`Updating Docker image for ${description} (${name})...`)
 
@@ -667,7 +1266,92 @@ async function updateServerImage(server: McpServerConfig): Promise<boolean> {
       return false
     }
 
-    logger.info(`Successfully updated image for ${name}`)
+    const previous = (await loadImageLock()).servers[name]
+    const digest = await getImageDigest(image)
+    if (previous && previous.digest === digest) {
+      logger.info(
+        `${name} is already up to date (${formatImageLock(previous)})`,
+      )
+      return true
+    }
+
+    const review = await reviewImageSurface(
+      server,
+      previous?.digest,
+      digest ?? image,
+      yes,
+    )
+    if (!review.approved) {
+      logger.info(
+        `Kept ${name} at ${
+          formatImageLock(previous)
+        }, run \`deno task update --server=${name}\` again to review the new image`,
+      )
+      return false
+    }
+
+    // Only update moves a server to a new digest in mcp.lock
+    const locked = await lockServerImage(server)
+    if (locked) {
+      logger.info(
+        `Updated ${name}: ${formatImageLock(previous)} → ${
+          formatImageLock(locked)
+        }`,
+      )
+    }
+
+    if (review.tools) {
+      await pinReviewedTools(server, review.tools)
+    } else if (
+      server.type === 'stdio' &&
+      !await verifyToolPin(server, { interactive: Deno.stdin.isTerminal() })
+    ) {
+      // Keep everyone on the approved image and stop offering the new one,
+      // MCP clients would spawn it on their own
+      await saveImageLock(
+        setImageLockEntry(await loadImageLock(), name, previous),
+      )
+      if (previous) {
+        logger.info(
+          `Kept ${name} at ${
+            formatImageLock(previous)
+          } in mcp.lock, run \`deno task update --server=${name}\` again to review the new image`,
+        )
+      }
+      await removeServerFromClientConfigs(server)
+      return false
+    }
+
+    // Keep the replaced image around for `rollback`
+    if (previous && locked && previous.digest !== locked.digest) {
+      await recordReplacedImage(server, previous, locked)
+    }
+
+    if (server.type === 'stdio') {
+      // STDIO client entries run the locked digest, point them at the new one
+      await updateClientConfigsForServer(
+        server,
+        false,
+        await resolveConfigScope(server),
+      )
+    } else if (await isContainerRunning(name)) {
+      if (!review.tools) {
+        // Without a review the running container keeps the old image, its
+        // tools are compared the next time it's started
+        logger.info(
+          `${name} still runs the previous image, restart it with \`deno task start --server=${name}\``,
+        )
+      } else if (!await restartServer(server)) {
+        logger.error(
+          `${name} is unhealthy on ${
+            formatImageLock(locked)
+          }, run \`deno task rollback --server=${name}\` to go back to ${
+            formatImageLock(previous)
+          }`,
+        )
+        return false
+      }
+    }
     return true
   } catch (error) {
     logger.error(`Error updating image for ${name}:`, error)
@@ -676,77 +1360,185 @@ async function updateServerImage(server: McpServerConfig): Promise<boolean> {
 }
 
 /**
- * Update Cursor MCP configuration for a server
- * This should be called whenever a server is started, stopped, or has its configuration changed
+ * Roll a server back to an image it ran before. The chosen image becomes the
+ * locked one in mcp.lock and the current image moves into the history, so a
+ * rollback can itself be undone. HTTP servers are restarted, STDIO servers
+ * re-validated, and the tool pin is checked like on `start`
  *
  * @param server Server configuration
- * @param forceUpdate Whether to force update without prompting
- * @returns True if update was successful or user declined, false if it failed
+ * @param steps Which entry of the image history to restore, 1 for the most recent
+ * @returns True if the server runs the restored image and is healthy
  */
-async function updateCursorConfigForServer(
+async function rollbackServerImage(
   server: McpServerConfig,
-  forceUpdate = false,
+  steps = 1,
 ): Promise<boolean> {
+  const { name } = server
+
+  if (!isContainerServer(server)) {
+    logger.error(
+      `${name} doesn't run in a container, it has no images to roll back to`,
+    )
+    return false
+  }
+
   try {
-    // Get app configuration
-    const appConfig = await getAppConfig()
-    const mcpConfigPath = appConfig.CURSOR_MCP_CONFIG_PATH
+    const history = await getImageHistory(name)
+    const target = history[steps - 1]
+    if (!target) {
+      logger.error(
+        history.length === 0
+          ? `${name} has no earlier images to roll back to, they are recorded by \`deno task update\``
+          : `${name} only has ${history.length} earlier image(s), got ${steps}`,
+      )
+      return false
+    }
+    if (target.image !== server.image) {
+      logger.error(
+        `${target.digest} was locked from ${target.image} but ${name} is now configured with ${server.image}`,
+      )
+      return false
+    }
 
-    if (!mcpConfigPath) {
-      logger.debug(
-        'Cursor MCP config file path not configured, skipping config update',
+    if (
+      !await isDockerImagePulled(target.digest) &&
+      !await pullDockerImage(target.digest)
+    ) {
+      logger.error(
+        `${target.digest} is no longer available locally or remotely`,
       )
-      return true
+      return false
+    }
+
+    const lock = await loadImageLock()
+    const current = lock.servers[name]
+    const restored: McpImageLock = {
+      image: target.image,
+      digest: target.digest,
+      ...(target.version !== undefined && { version: target.version }),
+      lockedOn: new Date().toISOString(),
+    }
+    await saveImageLock(setImageLockEntry(lock, name, restored))
+    if (current) await recordReplacedImage(server, current, restored)
+    logger.info(
+      `Rolling ${name} back: ${formatImageLock(current)} → ${
+        formatImageLock(restored)
+      }`,
+    )
+
+    const healthy = isHttpServer(server)
+      ? await restartServer(server)
+      : await validateStdioServer(server)
+    if (!healthy) {
+      logger.error(
+        `${name} is unhealthy on ${
+          formatImageLock(restored)
+        }, run \`deno task rollback --server=${name}\` to go back to ${
+          formatImageLock(current)
+        }`,
+      )
+      return false
+    }
+
+    if (
+      !await verifyToolPin(server, { interactive: Deno.stdin.isTerminal() })
+    ) {
+      if (isHttpServer(server)) {
+        await stopServerProcess(server)
+        await updateAndSaveServerState(name, false)
+      }
+      await removeServerFromClientConfigs(server)
+      return false
+    }
+
+    await updateClientConfigsForServer(
+      server,
+      false,
+      await resolveConfigScope(server),
+    )
+    return true
+  } catch (error) {
+    logger.error(`Error rolling back ${name}:`, error)
+    return false
+  }
+}
+
+/**
+ * Outcome of syncing a server into a single MCP client's config
+ */
+type ClientConfigUpdateResult =
+  | 'unchanged'
+  | 'updated'
+  | 'declined'
+  | 'unsupported'
+  | 'failed'
+
+/**
+ * Add or update a server in a single MCP client's config file, prompting the
+ * user the first time and remembering their choice per client
+ *
+ * @param client Detected MCP client to update
+ * @param server Server configuration
+ * @param transformedConfig Cursor-style entry for the server
+ * @param forceUpdate Whether to force update without prompting
+ * @returns Outcome of the update
+ */
+async function updateClientConfigForServer(
+  client: DetectedMcpClient,
+  server: McpServerConfig,
+  transformedConfig: CursorMcpEntry,
+  forceUpdate: boolean,
+): Promise<ClientConfigUpdateResult> {
+  const { displayName, configPath } = client
+
+  try {
+    const { entry, reason } = client.formatEntry(transformedConfig, server)
+    if (!entry) {
+      logger.warn(reason ?? `${displayName} does not support ${server.name}`)
+      return 'unsupported'
     }
 
     // Load current state to check user's previous choice
     const currentState = await loadState()
     const serverState = getServerState(currentState, server.name)
+    const preference = getClientConfigPreference(serverState, client.id)
 
     // Determine if we should update based on forceUpdate and previous preferences
     let shouldUpdateWithoutPrompt = forceUpdate
 
     // If user has already made a choice for this server, respect it
-    if (!forceUpdate && serverState?.manageCursorConfig !== undefined) {
-      if (!serverState.manageCursorConfig) {
+    if (!forceUpdate && preference !== undefined) {
+      if (!preference) {
         logger.debug(
-          `User previously chose not to manage Cursor config for ${server.name}, skipping update`,
+          `User previously chose not to manage ${displayName} config for ${server.name}, skipping update`,
         )
-        return true
+        return 'declined'
       }
       // User previously said yes, so proceed with update without prompting
       logger.debug(
-        `User previously chose to manage Cursor config for ${server.name}, updating without prompting`,
+        `User previously chose to manage ${displayName} config for ${server.name}, updating without prompting`,
       )
       shouldUpdateWithoutPrompt = true
     }
 
-    // Transform server config for Cursor
-    const transformedConfig = await transformServerConfigForCursor(server)
+    // Get current client MCP config
+    const currentServers = await getMcpServers(configPath)
 
-    // Get current Cursor MCP config
-    const currentServers = await getMcpServers(mcpConfigPath)
-
-    // Check if the server already exists in Cursor config
+    // Check if the server already exists in the client config
     const serverInConfig = !!currentServers[server.name]
 
     // Check if the configuration has changed by comparing with existing entry
-    let configChanged = false
     if (serverInConfig) {
-      const currentConfig = currentServers[server.name]
-      const currentConfigStr = JSON.stringify(currentConfig)
-      const newConfigStr = JSON.stringify(transformedConfig)
-      configChanged = currentConfigStr !== newConfigStr
-
-      if (!configChanged) {
+      const currentConfigStr = JSON.stringify(currentServers[server.name])
+      if (currentConfigStr === JSON.stringify(entry)) {
         logger.debug(
-          `Cursor config for ${server.name} is already up-to-date, no update needed`,
+          `${displayName} config for ${server.name} is already up-to-date, no update needed`,
         )
-        return true
+        return 'unchanged'
       }
 
       logger.debug(
-        `Cursor config for ${server.name} has changed, update needed`,
+        `${displayName} config for ${server.name} has changed, update needed`,
       )
     }
 
@@ -755,97 +1547,264 @@ async function updateCursorConfigForServer(
     if (!shouldUpdateWithoutPrompt) {
       const action = serverInConfig ? 'update' : 'add'
       shouldUpdate = await confirm(
-        `Would you like to automatically ${action} ${server.description} (${server.name}) in your Cursor MCP config at ${mcpConfigPath}?`,
+        `Would you like to automatically ${action} ${server.description} (${server.name}) in your ${displayName} MCP config at ${configPath}?`,
       )
 
       // Save the user's choice to state for future reference
-      const updatedState = updateServerCursorConfigPreference(
+      const updatedState = updateServerClientConfigPreference(
         currentState,
         server.name,
+        client.id,
         shouldUpdate,
       )
       await saveState(updatedState)
 
-      if (shouldUpdate) {
-        logger.debug(`Saved user preference: will manage Cursor config for ${server.name}`)
-      } else {
-        logger.debug(`Saved user preference: will NOT manage Cursor config for ${server.name}`)
-      }
+      logger.debug(
+        `Saved user preference: will ${
+          shouldUpdate ? '' : 'NOT '
+        }manage ${displayName} config for ${server.name}`,
+      )
     }
 
-    if (shouldUpdate) {
-      // Create the server config entry
-      const serverConfig = {
-        [server.name]: transformedConfig,
-      }
+    if (!shouldUpdate) return 'declined'
 
-      // Add to Cursor config
-      const added = await addMcpServers(mcpConfigPath, serverConfig)
+    const added = await addMcpServers(configPath, { [server.name]: entry })
+    if (!added) {
+      logger.error(`Failed to update ${displayName} config for ${server.name}`)
+      return 'failed'
+    }
 
-      if (added) {
-        logger.info(
-          `Successfully ${
-            serverInConfig ? 'updated' : 'added'
-          } ${server.name} in your Cursor MCP config at ${mcpConfigPath}`,
-        )
-        // Pass the transformed config and true to skip manual config instructions
-        displayCursorConfig(server, transformedConfig, true)
-        return true
-      }
+    logger.info(
+      `Successfully ${
+        serverInConfig ? 'updated' : 'added'
+      } ${server.name} in your ${displayName} MCP config at ${configPath}`,
+    )
+    return 'updated'
+  } catch (error) {
+    logger.error(
+      `Error updating ${displayName} config for ${server.name}: ${error}`,
+    )
+    return 'failed'
+  }
+}
 
-      logger.error(`Failed to update Cursor config for ${server.name}`)
-      // Fall back to displaying manual instructions
-      displayCursorConfig(server, transformedConfig, false)
-      return false
+/**
+ * Resolve which client config scope to write a server to
+ *
+ * Precedence: explicit `--scope` override, then the server's configured
+ * `scope`, then the scope the server was last written to (from state), then
+ * 'global'.
+ *
+ * @param server Server configuration
+ * @param scope Optional scope override from the command line
+ * @returns Scope to read and write client configs for
+ */
+async function resolveConfigScope(
+  server: McpServerConfig,
+  scope?: McpConfigScope,
+): Promise<McpConfigScope> {
+  if (scope ?? server.scope) return scope ?? server.scope ?? 'global'
+  const serverState = getServerState(await loadState(), server.name)
+  return serverState?.configScope ?? 'global'
+}
+
+/**
+ * Resolve which client config scope a server's existing entries are in, to
+ * remove them
+ *
+ * Precedence: explicit `--scope` override, then the scope the server was last
+ * written to (from state), then its configured `scope`, then 'global'.
+ *
+ * @param server Server configuration
+ * @param scope Optional scope override from the command line
+ * @returns Scope the server's entries were written to
+ */
+async function resolveWrittenConfigScope(
+  server: McpServerConfig,
+  scope?: McpConfigScope,
+): Promise<McpConfigScope> {
+  if (scope) return scope
+  const serverState = getServerState(await loadState(), server.name)
+  return serverState?.configScope ?? server.scope ?? 'global'
+}
+
+/**
+ * Update the MCP configuration of every detected client (Cursor, Windsurf,
+ * Claude Desktop) for a server.
+ * This should be called whenever a server is started, stopped, or has its configuration changed
+ *
+ * @param server Server configuration
+ * @param forceUpdate Whether to force update without prompting
+ * @param scope Optional scope override, see resolveConfigScope
+ * @returns True if every update was successful or declined, false if any failed
+ */
+async function updateClientConfigsForServer(
+  server: McpServerConfig,
+  forceUpdate = false,
+  scope?: McpConfigScope,
+): Promise<boolean> {
+  let transformedConfig: CursorMcpEntry
+  try {
+    transformedConfig = await transformServerConfigForCursor(server)
+  } catch (error) {
+    logger.error(`Failed to generate MCP config for ${server.name}: ${error}`)
+    return false
+  }
+
+  const configScope = await resolveConfigScope(server, scope)
+  const clients = await getDetectedMcpClients(configScope)
+  if (clients.length === 0) {
+    logger.debug('No MCP client config paths detected, skipping config update')
+    return true
+  }
+
+  const results = new Map<McpClientId, ClientConfigUpdateResult>()
+  for (const client of clients) {
+    results.set(
+      client.id,
+      await updateClientConfigForServer(
+        client,
+        server,
+        transformedConfig,
+        forceUpdate,
+      ),
+    )
+  }
+
+  // Remember the scope so stop and later updates target the same config files
+  const written = [...results.values()].some((result) =>
+    result === 'updated' || result === 'unchanged'
+  )
+  if (written) {
+    const currentState = await loadState()
+    const previousScope = getServerState(currentState, server.name)
+      ?.configScope
+    // Moving scopes, so clean up the entries written to the previous scope
+    if (previousScope && previousScope !== configScope) {
+      await removeServerFromClientConfigs(server, previousScope)
     }
+    await saveState(
+      updateServerConfigScope(currentState, server.name, configScope),
+    )
+  }
 
+  // Configuration instructions are written for Cursor, show them based on its outcome
+  const cursorResult = results.get('cursor')
+  if (cursorResult === 'updated') {
+    // Pass the transformed config and true to skip manual config instructions
+    displayCursorConfig(server, transformedConfig, true)
+  } else if (cursorResult === 'declined' || cursorResult === 'failed') {
     logger.info('Manual configuration required:')
     // Display full manual instructions
     displayCursorConfig(server, transformedConfig, false)
-    return true // User intentionally chose not to update, so consider it "successful"
-  } catch (error) {
-    logger.error(`Error updating Cursor config for ${server.name}: ${error}`)
-    // Fall back to displaying manual instructions with the transformed config
-    try {
-      const transformedConfig = await transformServerConfigForCursor(server)
-      displayCursorConfig(server, transformedConfig, false)
-    } catch (e) {
-      logger.error(`Failed to generate Cursor config: ${e}`)
+  }
+
+  return ![...results.values()].includes('failed')
+}
+
+/**
+ * Remove a server from every detected client config the user opted in to
+ *
+ * Clients the user declined, or was never asked about, are left untouched.
+ *
+ * @param server Server configuration
+ * @param scope Optional scope override, see resolveWrittenConfigScope
+ * @returns Display names of the clients the server was removed from
+ */
+async function removeServerFromClientConfigs(
+  server: McpServerConfig,
+  scope?: McpConfigScope,
+): Promise<string[]> {
+  const configScope = await resolveWrittenConfigScope(server, scope)
+  const serverState = getServerState(await loadState(), server.name)
+  const removedFrom: string[] = []
+
+  for (const client of await getDetectedMcpClients(configScope)) {
+    const { displayName, configPath } = client
+    const preference = getClientConfigPreference(serverState, client.id)
+    if (preference !== true) {
+      // User previously said no, or was never asked
+      logger.debug(
+        `Skipping ${displayName} config update for ${server.name} (${
+          preference === false
+            ? 'user previously declined'
+            : 'user was never asked'
+        })`,
+      )
+      continue
+    }
+
+    const currentServers = await getMcpServers(configPath)
+    if (!currentServers[server.name]) continue
+
+    if (await removeMcpServers(configPath, [server.name])) {
+      logger.info(`Removed ${server.name} from ${displayName} MCP config`)
+      removedFrom.push(displayName)
+    } else {
+      logger.error(
+        `Failed to remove ${server.name} from ${displayName} MCP config`,
+      )
     }
-    return false
   }
+
+  return removedFrom
+}
+
+/**
+ * @deprecated Use updateClientConfigsForServer instead
+ */
+async function updateCursorConfigForServer(
+  server: McpServerConfig,
+  forceUpdate = false,
+): Promise<boolean> {
+  return await updateClientConfigsForServer(server, forceUpdate)
 }
 
 /**
  * Start an MCP server
  *
  * @param server Server configuration
+ * @param scope Optional client config scope override, see resolveConfigScope
  * @returns True if server started successfully, false otherwise
  */
-async function startServer(server: McpServerConfig): Promise<boolean> {
-  const { name, description, image, type } = server
+async function startServer(
+  server: McpServerConfig,
+  scope?: McpConfigScope,
+): Promise<boolean> {
+  const { name, description, type } = server
   logger.info(`Starting ${description} (${name})...`)
 
   try {
     // Verify environment file exists
     if (!await checkEnvFile(server)) return false
 
-    // Ensure Docker image is available
-    if (!await isDockerImagePulled(image)) {
-      const pulled = await pullDockerImage(image)
-      if (!pulled) {
-        logger.error(`Failed to pull Docker image for ${name}. Aborting.`)
-        return false
-      }
+    // Ensure the locked Docker image is available, see mcp.lock
+    if (!await ensureServerImage(server)) {
+      logger.error(`Failed to pull Docker image for ${name}. Aborting.`)
+      return false
+    }
+
+    // Clients spawn STDIO containers themselves, so a restricted server's
+    // proxy has to be running before they do
+    if (
+      !isHttpServer(server) && hasEgressAllowlist(server) &&
+      !await ensureEgressProxy(server)
+    ) {
+      logger.error(`Failed to start the egress proxy for ${name}. Aborting.`)
+      return false
     }
 
     // Server type-specific startup logic
     const startupHandlers = {
       http: () => startHttpServer(server),
+      'streamable-http': () => startHttpServer(server),
       stdio: () => validateStdioServer(server),
     }
 
-    const handler = startupHandlers[type]
+    // Hosted servers are only checked, there's nothing to start
+    const handler = isRemoteServer(server)
+      ? () => startRemoteServer(server)
+      : startupHandlers[type]
     if (!handler) {
       logger.error(`Unknown server type: ${type}`)
       return false
@@ -853,9 +1812,28 @@ async function startServer(server: McpServerConfig): Promise<boolean> {
 
     const success = await handler()
 
-    // If server started successfully, update Cursor config
+    // Keep a server whose tools changed away from the MCP clients
+    if (
+      success &&
+      !await verifyToolPin(server, { interactive: Deno.stdin.isTerminal() })
+    ) {
+      if (isHttpServer(server)) {
+        await stopServerProcess(server)
+        await updateAndSaveServerState(name, false)
+      }
+      await removeServerFromClientConfigs(server)
+      return false
+    }
+
+    // If server started successfully, update every detected client's config
     if (success) {
-      await updateCursorConfigForServer(server)
+      // An explicit scope wins, then the server's configured scope, then the
+      // scope it was last written to
+      await updateClientConfigsForServer(
+        server,
+        false,
+        await resolveConfigScope(server, scope),
+      )
     }
 
     return success
@@ -873,11 +1851,19 @@ export {
   getPortFromArgs,
   getRelativeEnvFilePathForCursor,
   healthCheck,
+  isServerProcessRunning,
   isServerRunning,
+  removeServerFromClientConfigs,
+  resolveConfigScope,
+  resolveWrittenConfigScope,
+  restartServer,
+  rollbackServerImage,
   startServer,
   stopServer,
   transformServerConfigForCursor,
   updateAndSaveServerState,
+  updateClientConfigsForServer,
   updateCursorConfigForServer,
   updateServerImage,
+  verifyToolPin,
 }
@@ -7,17 +7,29 @@
  */
 import logger from './utils/logger.ts'
 import { dedent } from '@qnighy/dedent'
-import type { CursorMcpEntry, McpServerConfig, McpStateFile } from './types.ts'
+import type {
+  CursorMcpEntry,
+  EnvVarDefinition,
+  McpServerConfig,
+  McpStateFile,
+} from './types.ts'
 import { getServerState } from './state.ts'
 import {
   getEnvExampleFilePath,
   getEnvFilePath,
   getExamplesPath,
+  getHttpEndpointPath,
+  isHttpServer,
 } from './config.ts'
 import { join } from '@std/path'
 import { exists } from '@std/fs'
 import * as colors from '@std/fmt/colors'
 import { promptSelect } from '@std/cli/unstable-prompt-select'
+import { promptSecret } from '@std/cli/prompt-secret'
+import {
+  isEnvVarRequired,
+  renderServerEnvFile,
+} from './services/env-service.ts'
 
 /**
  * Ask the user a yes/no question using promptSelect
@@ -43,6 +55,18 @@ export async function confirm(
   }
 }
 
+/**
+ * Ask the user for a line of free-form text
+ *
+ * @param question The question to ask
+ * @param defaultValue Value used when the user enters nothing
+ * @returns The trimmed answer, or the default value
+ */
+export function promptText(question: string, defaultValue = ''): string {
+  const response = prompt(question, defaultValue)
+  return response?.trim() || defaultValue
+}
+
 /**
  * Display configuration instructions for Cursor
  *
@@ -146,7 +170,8 @@ function displayServerStatus(
         Status: ${isRunning ? 'Running' : 'Stopped'}
         Type: ${server.type.toUpperCase()}`)
 
-    if (server.type === 'http') {
+    // Remote servers have no local port, their URL is shown below
+    if (isHttpServer(server) && !server.remote) {
       // Get port from the server state if available, or from args
       // This avoids the need to call getPortFromArgs which is now async
       let portDisplay = 'Not specified'
@@ -173,11 +198,16 @@ function displayServerStatus(
 
       logger.info(dedent`\
         Port: ${portDisplay}
-        Endpoint: /sse`)
+        Endpoint: ${getHttpEndpointPath(server)}`)
     }
 
+    const runsWith = server.remote
+      ? `Remote URL: ${server.remote.url}`
+      : server.launcher
+      ? `Launcher: ${server.launcher.type} ${server.launcher.package}`
+      : `Docker Image: ${server.image}`
     logger.info(dedent`\
-      Docker Image: ${server.image}
+      ${runsWith}
       Environment: ${getEnvFilePath(server.name)}
     `)
   }
@@ -213,15 +243,39 @@ function displaySingleServerStatus(
 }
 
 /**
- * Suggest how to create an environment file from the example
+ * Suggest how to create an environment file from the example. When the server
+ * declares its `envVars`, offer to generate the file by prompting for exactly
+ * those variables instead.
  *
  * @param server Server configuration
+ * @returns True if the environment file was generated
  */
-async function suggestEnvFileCreation(server: McpServerConfig): Promise<void> {
+async function suggestEnvFileCreation(
+  server: McpServerConfig,
+): Promise<boolean> {
   const envFilePath = getEnvFilePath(server.name)
   const envExampleFilePath = getEnvExampleFilePath(server.name)
 
   console.error(colors.red(`Environment file not found: ${envFilePath}`))
+
+  if (server.envVars?.length) {
+    if (await confirm(`Would you like to create ${envFilePath} now?`)) {
+      await Deno.writeTextFile(
+        envFilePath,
+        renderServerEnvFile(server, promptForEnvVars(server.envVars)),
+        // It holds the secrets just entered, keep it private to the user
+        { mode: 0o600 },
+      )
+      console.error(colors.green(`Created ${envFilePath}`))
+      return true
+    }
+    console.error(
+      `\n${server.name} needs the following variables in ${envFilePath}:`,
+    )
+    displayEnvVars(server.envVars)
+    return false
+  }
+
   console.error(
     'You need to create an environment file with your credentials.\n',
   )
@@ -245,10 +299,70 @@ async function suggestEnvFileCreation(server: McpServerConfig): Promise<void> {
   }
 
   console.error('\nThen edit the file to add your credentials and settings.')
+  return false
+}
+
+/**
+ * Prompt for the value of each environment variable, hiding secret input
+ *
+ * @param envVars Variables to prompt for
+ * @returns Values entered, empty answers are left out
+ */
+function promptForEnvVars(envVars: EnvVarDefinition[]): Record<string, string> {
+  const values: Record<string, string> = {}
+
+  for (const envVar of envVars) {
+    const label = isEnvVarRequired(envVar) ? '' : ' (optional)'
+    const example = envVar.example ? ` e.g. ${envVar.example}` : ''
+    console.log(colors.dim(`${envVar.description}${example}`))
+
+    const value = envVar.secret
+      ? promptSecret(`${envVar.name}${label}:`)?.trim()
+      : promptText(`${envVar.name}${label}:`)
+    if (value) values[envVar.name] = value
+  }
+
+  return values
+}
+
+/**
+ * List environment variables with their descriptions
+ *
+ * @param envVars Variables to list
+ */
+function displayEnvVars(envVars: EnvVarDefinition[]): void {
+  for (const envVar of envVars) {
+    const label = isEnvVarRequired(envVar) ? '' : colors.dim(' (optional)')
+    console.error(
+      `  ${colors.cyan(envVar.name)}${label} - ${envVar.description}`,
+    )
+  }
+}
+
+/**
+ * Explain which required environment variables are missing from a server's
+ * environment file
+ *
+ * @param server Server configuration
+ * @param missing Required variables that are missing or empty
+ */
+function displayMissingEnvVars(
+  server: McpServerConfig,
+  missing: EnvVarDefinition[],
+): void {
+  const envFilePath = getEnvFilePath(server.name)
+  console.error(
+    colors.red(
+      `${server.name} can't start, ${envFilePath} is missing required variables:`,
+    ),
+  )
+  displayEnvVars(missing)
+  console.error('\nAdd them to the file and try again.')
 }
 
 export {
   displayCursorConfig,
+  displayMissingEnvVars,
   displayServerStatus,
   displaySingleServerStatus,
   suggestEnvFileCreation,
@@ -0,0 +1,437 @@
+/**
+ * Audit service
+ *
+ * Scans the metadata a server hands to the model (tool descriptions and input
+ * schemas, prompt templates, resource descriptions) for signs of prompt
+ * injection and tool poisoning. Each rule looks for one technique and reports
+ * findings with a severity:
+ * - `high`: almost certainly an attempt to steer the model, e.g. hidden
+ *   instructions or invisible Unicode
+ * - `medium`: suspicious and worth reviewing, e.g. URLs or references to
+ *   sensitive files
+ * - `low`: unusual but often legitimate
+ *
+ * @module services/audit-service
+ */
+import type {
+  GetPromptResult,
+  Prompt,
+  Resource,
+  Tool,
+} from '../../vendor/mcp-specification.ts'
+
+/**
+ * How serious a finding is
+ */
+type AuditSeverity = 'low' | 'medium' | 'high'
+
+/**
+ * A piece of text a server shows to the model
+ */
+interface AuditTarget {
+  kind: 'tool' | 'prompt' | 'resource'
+  /** Name of the tool, prompt or resource */
+  name: string
+  /** Where the text comes from, e.g. `description` or `inputSchema.query.description` */
+  field: string
+  text: string
+}
+
+/**
+ * Names of every tool being audited, used to spot references across tools
+ */
+interface AuditContext {
+  /** Tool names of the server the target belongs to */
+  ownTools: Set<string>
+  /** Tool names of every other audited server */
+  foreignTools: Set<string>
+}
+
+/**
+ * A single rule violation
+ */
+interface AuditFinding {
+  ruleId: string
+  severity: AuditSeverity
+  kind: AuditTarget['kind']
+  name: string
+  field: string
+  message: string
+  /** The offending text, shortened and with invisible characters made visible */
+  excerpt: string
+}
+
+/**
+ * A check run over every target
+ */
+interface AuditRule {
+  id: string
+  description: string
+  /**
+   * Check a target
+   *
+   * @returns One entry per violation, with its severity, message and the matched text
+   */
+  check: (
+    target: AuditTarget,
+    context: AuditContext,
+  ) => { severity: AuditSeverity; message: string; match: string }[]
+}
+
+const SEVERITY_ORDER: Record<AuditSeverity, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+}
+
+const HIDDEN_INSTRUCTION_PATTERNS = [
+  /<\s*\/?\s*(important|system|instructions?|secret|hidden|admin)\s*>/i,
+  /<!--[\s\S]*?-->/,
+  /\b(do not|don't|never) (tell|inform|mention|reveal|show)\b[^.]{0,40}\b(user|human)\b/i,
+  /\bwithout (telling|informing|notifying) the (user|human)\b/i,
+  /\b(secretly|covertly)\b/i,
+]
+
+const OVERRIDE_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b[^.]{0,30}\b(previous|prior|above|earlier|all|other|system)\b[^.]{0,20}\b(instructions?|prompts?|rules|messages|context)\b/i,
+  /\byou are now\b/i,
+  /\bnew (system )?instructions\b/i,
+  /\b(before|instead of) (using|calling) any other tools?\b/i,
+]
+
+const SENSITIVE_PATH_PATTERN =
+  /(~\/\.ssh|id_rsa|id_ed25519|\.aws\/credentials|\/etc\/passwd|\.env\b|mcp\.json|\.netrc|\.git-credentials|private[ _-]key)/i
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s)"'<>]+/gi
+
+// A placeholder the model is meant to fill in, e.g. `{data}`, `${token}` or `<file contents>`
+const DATA_PLACEHOLDER_PATTERN = /\$?\{[^}]*\}|%7B|<[\w .-]+>/i
+
+// An imperative telling the model to move data, followed by a placeholder for it
+const DATA_DIRECTIVE_PATTERN = new RegExp(
+  `\\b(send|pass|include|append|add|forward|upload|post|attach|put)\\b[^\\n]{0,120}?(${DATA_PLACEHOLDER_PATTERN.source})`,
+  'i',
+)
+
+// Zero-width characters, bidirectional overrides and Unicode tag characters
+// render as nothing but are read by the model
+const INVISIBLE_CHARACTER_PATTERN =
+  /[\u200B-\u200F\u2060-\u2064\uFEFF\u202A-\u202E\u2066-\u2069\u{E0000}-\u{E007F}]/u
+
+const MIXED_SCRIPT_WORD_PATTERN =
+  /[\p{L}]*(?:\p{Script=Latin}[\p{L}]*[\p{Script=Cyrillic}\p{Script=Greek}]|[\p{Script=Cyrillic}\p{Script=Greek}][\p{L}]*\p{Script=Latin})[\p{L}]*/u
+
+// Very long descriptions leave room for instructions a reviewer won't read
+const MAX_DESCRIPTION_LENGTH = 2000
+
+// Short names like `get` or `list` appear in ordinary prose
+const MIN_TOOL_NAME_LENGTH = 4
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+const AUDIT_RULES: AuditRule[] = [
+  {
+    id: 'hidden-instructions',
+    description:
+      'Instructions hidden from the user, e.g. <IMPORTANT> blocks or "do not tell the user"',
+    check: ({ text }) =>
+      HIDDEN_INSTRUCTION_PATTERNS.flatMap((pattern) => {
+        const match = text.match(pattern)
+        return match
+          ? [{
+            severity: 'high' as const,
+            message: 'Contains instructions meant to be hidden from the user',
+            match: match[0],
+          }]
+          : []
+      }),
+  },
+  {
+    id: 'instruction-override',
+    description:
+      'Attempts to override the model\'s instructions, e.g. "ignore previous instructions"',
+    check: ({ text }) =>
+      OVERRIDE_PATTERNS.flatMap((pattern) => {
+        const match = text.match(pattern)
+        return match
+          ? [{
+            severity: 'high' as const,
+            message: 'Tries to override the instructions the model was given',
+            match: match[0],
+          }]
+          : []
+      }),
+  },
+  {
+    id: 'unicode-tricks',
+    description:
+      'Invisible characters or words mixing Latin with look-alike letters',
+    check: ({ text }) => {
+      const results = []
+      const invisible = text.match(INVISIBLE_CHARACTER_PATTERN)
+      if (invisible) {
+        results.push({
+          severity: 'high' as const,
+          message: 'Contains invisible or bidirectional control characters',
+          match: invisible[0],
+        })
+      }
+      const mixed = text.match(MIXED_SCRIPT_WORD_PATTERN)
+      if (mixed) {
+        results.push({
+          severity: 'medium' as const,
+          message: 'Mixes Latin with Cyrillic or Greek look-alike letters',
+          match: mixed[0],
+        })
+      }
+      return results
+    },
+  },
+  {
+    id: 'exfiltration-url',
+    description:
+      'URLs the model could be made to send data to, especially markdown images and query strings',
+    check: ({ text }) =>
+      [...text.matchAll(URL_PATTERN)].map((match) => {
+        const url = match[0]
+        const markdownImage = /!\[[^\]]*\]\($/.test(text.slice(0, match.index))
+        const placeholder = DATA_PLACEHOLDER_PATTERN.test(url)
+        // Query strings are everywhere in documentation links, only an image
+        // that's fetched with a placeholder or an instruction to fill one in
+        // is a strong sign
+        if (markdownImage && placeholder) {
+          return {
+            severity: 'high' as const,
+            message:
+              'Embeds a markdown image with a placeholder in its URL, which is fetched automatically when rendered',
+            match: url,
+          }
+        }
+        if (placeholder && DATA_DIRECTIVE_PATTERN.test(text)) {
+          return {
+            severity: 'high' as const,
+            message: 'Tells the model to fill data into a placeholder of a URL',
+            match: url,
+          }
+        }
+        return {
+          severity: 'medium' as const,
+          message: markdownImage
+            ? 'Embeds a markdown image, which is fetched automatically when rendered'
+            : placeholder || /[?&][^=]+=/.test(url)
+            ? 'Contains a URL with parameters data could be appended to'
+            : 'Contains an external URL',
+          match: url,
+        }
+      }),
+  },
+  {
+    id: 'sensitive-data',
+    description: 'References to credentials or files holding secrets',
+    check: ({ text }) => {
+      const match = text.match(SENSITIVE_PATH_PATTERN)
+      return match
+        ? [{
+          severity: 'medium' as const,
+          message: 'Refers to credentials or files holding secrets',
+          match: match[0],
+        }]
+        : []
+    },
+  },
+  {
+    id: 'cross-tool-reference',
+    description:
+      'Mentions of other tools, which can shadow or redirect calls to them',
+    check: ({ kind, name, text }, { ownTools, foreignTools }) => {
+      const mentions = (tool: string) =>
+        tool !== name && tool.length >= MIN_TOOL_NAME_LENGTH &&
+        new RegExp(`(^|[^\\w-])${escapeRegExp(tool)}($|[^\\w-])`).test(text)
+
+      return [
+        // Mentioning another server's tool is only high when the text also
+        // tells the model to hand data over
+        ...[...foreignTools].filter(mentions).map((tool) =>
+          DATA_DIRECTIVE_PATTERN.test(text)
+            ? {
+              severity: 'high' as const,
+              message:
+                `Refers to ${tool}, a tool of another server, and tells the model to pass data along`,
+              match: tool,
+            }
+            : {
+              severity: 'medium' as const,
+              message: `Refers to ${tool}, a tool of another server`,
+              match: tool,
+            }
+        ),
+        // Tools pointing at their siblings is common, prompts and resources doing it less so
+        ...[...ownTools].filter(mentions).map((tool) => ({
+          severity: kind === 'tool' ? 'low' as const : 'medium' as const,
+          message: `Refers to ${tool}, another tool of this server`,
+          match: tool,
+        })),
+      ]
+    },
+  },
+  {
+    id: 'excessive-length',
+    description:
+      `Descriptions longer than ${MAX_DESCRIPTION_LENGTH} characters`,
+    check: ({ text }) =>
+      text.length > MAX_DESCRIPTION_LENGTH
+        ? [{
+          severity: 'low' as const,
+          message: `Is ${text.length} characters long, review it in full`,
+          match: text.slice(0, 40),
+        }]
+        : [],
+  },
+]
+
+/**
+ * Collect the description of every property of a JSON Schema, recursively
+ */
+function collectSchemaDescriptions(
+  schema: unknown,
+  path: string,
+): { field: string; text: string }[] {
+  if (typeof schema !== 'object' || schema === null) return []
+  const { description, properties, items } = schema as {
+    description?: unknown
+    properties?: Record<string, unknown>
+    items?: unknown
+  }
+
+  return [
+    ...(typeof description === 'string'
+      ? [{ field: `${path}.description`, text: description }]
+      : []),
+    ...Object.entries(properties ?? {}).flatMap(([key, value]) =>
+      collectSchemaDescriptions(value, `${path}.${key}`)
+    ),
+    ...collectSchemaDescriptions(items, `${path}[]`),
+  ]
+}
+
+/**
+ * Gather every piece of text a server shows to the model
+ *
+ * @param metadata Tools, resources and prompts of a server, with the messages of each prompt template
+ * @returns Texts to audit
+ */
+function collectAuditTargets({ tools, resources, prompts, promptTemplates }: {
+  tools: Tool[]
+  resources: Resource[]
+  prompts: Prompt[]
+  promptTemplates: Record<string, GetPromptResult>
+}): AuditTarget[] {
+  const targets: AuditTarget[] = []
+  const add = (
+    kind: AuditTarget['kind'],
+    name: string,
+    field: string,
+    text: string | undefined,
+  ) => {
+    if (text) targets.push({ kind, name, field, text })
+  }
+
+  for (const tool of tools) {
+    add('tool', tool.name, 'name', tool.name)
+    add('tool', tool.name, 'description', tool.description)
+    add('tool', tool.name, 'annotations.title', tool.annotations?.title)
+    for (
+      const { field, text } of collectSchemaDescriptions(
+        tool.inputSchema,
+        'inputSchema',
+      )
+    ) {
+      add('tool', tool.name, field, text)
+    }
+  }
+
+  for (const resource of resources) {
+    add('resource', resource.name, 'name', resource.name)
+    add('resource', resource.name, 'description', resource.description)
+  }
+
+  for (const prompt of prompts) {
+    add('prompt', prompt.name, 'description', prompt.description)
+    for (const arg of prompt.arguments ?? []) {
+      add('prompt', prompt.name, `arguments.${arg.name}`, arg.description)
+    }
+    promptTemplates[prompt.name]?.messages?.forEach((message, index) => {
+      const { content } = message
+      add(
+        'prompt',
+        prompt.name,
+        `messages[${index}]`,
+        content.type === 'text'
+          ? content.text
+          : content.type === 'resource' && 'text' in content.resource
+          ? content.resource.text
+          : undefined,
+      )
+    })
+  }
+
+  return targets
+}
+
+/**
+ * Make invisible characters visible and shorten long matches for display
+ */
+function formatExcerpt(text: string): string {
+  const visible = text.replace(
+    new RegExp(INVISIBLE_CHARACTER_PATTERN.source, 'gu'),
+    (char) =>
+      `\\u{${
+        char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')
+      }}`,
+  ).replace(/\s+/g, ' ')
+  return visible.length > 80 ? `${visible.slice(0, 77)}...` : visible
+}
+
+/**
+ * Run every audit rule over a server's metadata
+ *
+ * @param targets Texts from collectAuditTargets
+ * @param context Tool names of the server and of every other audited server
+ * @returns Findings, most severe first
+ */
+function auditTargets(
+  targets: AuditTarget[],
+  context: AuditContext,
+): AuditFinding[] {
+  const findings = targets.flatMap((target) =>
+    AUDIT_RULES.flatMap((rule) =>
+      // A tool's own name field is only checked for Unicode tricks
+      target.field === 'name' && rule.id !== 'unicode-tricks'
+        ? []
+        : rule.check(target, context).map(({ severity, message, match }) => ({
+          ruleId: rule.id,
+          severity,
+          kind: target.kind,
+          name: target.name,
+          field: target.field,
+          message,
+          excerpt: formatExcerpt(match),
+        }))
+    )
+  )
+
+  return findings.sort((a, b) =>
+    SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  )
+}
+
+export { AUDIT_RULES, auditTargets, collectAuditTargets }
+export type {
+  AuditContext,
+  AuditFinding,
+  AuditRule,
+  AuditSeverity,
+  AuditTarget,
+}
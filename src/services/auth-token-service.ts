@@ -0,0 +1,91 @@
+/**
+ * Auth token service
+ *
+ * Generates and looks up the bearer token of HTTP servers with an `authToken`
+ * config. The token is kept in the secret provider as
+ * `secret://<server>/MCP_AUTH_TOKEN`, not in the server's env file, and is
+ * handed to the container through the env variable the image checks it
+ * against. MCP clients and the health validator send it as an
+ * `Authorization: Bearer` header.
+ *
+ * @module services/auth-token-service
+ */
+import logger from '../utils/logger.ts'
+import type { McpServerConfig } from '../types.ts'
+import {
+  formatSecretReference,
+  getSecretProvider,
+  type SecretReference,
+} from './secret-service.ts'
+
+/** Name the token is stored under in the secret provider */
+const AUTH_TOKEN_KEY = 'MCP_AUTH_TOKEN'
+
+function getAuthTokenReference(server: McpServerConfig): SecretReference {
+  return { server: server.name, key: AUTH_TOKEN_KEY }
+}
+
+/**
+ * Get a server's bearer token, generating and storing one the first time
+ *
+ * @param server Server configuration
+ * @returns The token, undefined if the server has no `authToken` config
+ * @throws {Error} If there is no token and the secret provider is read-only
+ */
+async function getServerAuthToken(
+  server: McpServerConfig,
+): Promise<string | undefined> {
+  if (!server.authToken) return undefined
+
+  const ref = getAuthTokenReference(server)
+  const provider = await getSecretProvider()
+  const existing = await provider.get(ref)
+  if (existing) return existing
+
+  if (!provider.set) {
+    throw new Error(
+      `${server.name} needs a bearer token but the ${provider.displayName} provider is read-only, store one as ${
+        formatSecretReference(ref)
+      }`,
+    )
+  }
+
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+  await provider.set(ref, token)
+  logger.info(
+    `Generated a bearer token for ${server.name}, stored as ${
+      formatSecretReference(ref)
+    }`,
+  )
+  return token
+}
+
+/**
+ * Get the headers that authenticate a client with a server
+ *
+ * @param server Server configuration
+ * @returns `Authorization` header, empty if the server has no `authToken` config
+ */
+async function getAuthHeaders(
+  server: McpServerConfig,
+): Promise<Record<string, string>> {
+  const token = await getServerAuthToken(server)
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+/**
+ * Get the env variable that passes a server's token to its container
+ *
+ * @param server Server configuration
+ * @returns Variable name mapped to the token, empty if the server has no `authToken` config
+ */
+async function getAuthTokenEnv(
+  server: McpServerConfig,
+): Promise<Record<string, string>> {
+  const token = await getServerAuthToken(server)
+  return token && server.authToken ? { [server.authToken.envVar]: token } : {}
+}
+
+export { getAuthHeaders, getAuthTokenEnv, getServerAuthToken }
@@ -0,0 +1,241 @@
+/**
+ * Container runtime service
+ *
+ * The container engines the manager can drive. Docker, Podman and nerdctl
+ * take the same `run`, `ps`, `logs`, `image inspect` and `network` arguments,
+ * so a runtime is mostly the CLI binary the docker service shells out to and
+ * that MCP client entries spawn, plus how to start its daemon or VM.
+ *
+ * `CONTAINER_RUNTIME` picks one, `auto` (the default) uses the first installed
+ * runtime whose engine is running, preferring Docker, then Podman, then nerdctl.
+ *
+ * @module services/container-runtime-service
+ */
+import logger from '../utils/logger.ts'
+import { getAppConfig } from '../config.ts'
+
+type ContainerRuntimeId = 'docker' | 'podman' | 'nerdctl'
+
+/**
+ * A container engine and its CLI
+ */
+interface ContainerRuntime {
+  /** Unique identifier, matches `CONTAINER_RUNTIME` */
+  id: ContainerRuntimeId
+  /** Human-readable name for messages */
+  displayName: string
+  /** CLI binary, used for every container command and in MCP client entries */
+  command: string
+  /** Start the engine's daemon or VM, false if it has to be started by hand */
+  start: () => Promise<boolean>
+}
+
+/** Runtimes in the order `auto` tries them */
+const RUNTIME_IDS: ContainerRuntimeId[] = ['docker', 'podman', 'nerdctl']
+
+let selectedRuntime: Promise<ContainerRuntime> | null = null
+
+async function runQuietly(command: string, args: string[]): Promise<boolean> {
+  try {
+    const { code } = await new Deno.Command(command, {
+      args,
+      stdout: 'null',
+      stderr: 'null',
+    }).output()
+    return code === 0
+  } catch (_error) {
+    return false
+  }
+}
+
+/**
+ * Check whether a runtime's CLI is installed
+ *
+ * @param runtime Container runtime
+ * @returns True if `<command> --version` succeeds
+ */
+async function isRuntimeInstalled(runtime: ContainerRuntime): Promise<boolean> {
+  return await runQuietly(runtime.command, ['--version'])
+}
+
+/**
+ * Check whether a runtime's engine is running and reachable
+ *
+ * @param runtime Container runtime
+ * @returns True if `<command> info` succeeds
+ */
+async function isRuntimeRunning(runtime: ContainerRuntime): Promise<boolean> {
+  return await runQuietly(runtime.command, ['info'])
+}
+
+/**
+ * Run a command that starts an engine, then wait for it to answer
+ *
+ * @param runtime Container runtime being started
+ * @param command Command and arguments that start it
+ * @param attempts How many times to check, two seconds apart
+ * @returns True if the engine is running afterwards
+ */
+async function startAndWait(
+  runtime: ContainerRuntime,
+  command: string[],
+  attempts = 30,
+): Promise<boolean> {
+  const [binary, ...args] = command
+  if (!await runQuietly(binary, args)) return false
+
+  logger.info(`Waiting for ${runtime.displayName} to start...`)
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (await isRuntimeRunning(runtime)) {
+      logger.info(`${runtime.displayName} started successfully.`)
+      return true
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000))
+  }
+
+  logger.error(`${runtime.displayName} did not start within the expected time.`)
+  return false
+}
+
+function createDockerRuntime(): ContainerRuntime {
+  const runtime: ContainerRuntime = {
+    id: 'docker',
+    displayName: 'Docker',
+    command: 'docker',
+    start: async () => {
+      const platform = Deno.build.os
+      if (platform === 'darwin') {
+        return await startAndWait(runtime, ['open', '-a', 'Docker'])
+      }
+      if (platform === 'linux') {
+        return await startAndWait(runtime, [
+          'sudo',
+          'systemctl',
+          'start',
+          'docker',
+        ], 5)
+      }
+      if (platform === 'windows') {
+        logger.info('On Windows, please start Docker Desktop manually.')
+        return false
+      }
+      logger.error(`Unsupported platform: ${platform}`)
+      return false
+    },
+  }
+  return runtime
+}
+
+function createPodmanRuntime(): ContainerRuntime {
+  const runtime: ContainerRuntime = {
+    id: 'podman',
+    displayName: 'Podman',
+    command: 'podman',
+    start: async () => {
+      // Podman is daemonless on Linux, elsewhere containers run in a VM
+      if (Deno.build.os === 'linux') return await isRuntimeRunning(runtime)
+      return await startAndWait(runtime, ['podman', 'machine', 'start'])
+    },
+  }
+  return runtime
+}
+
+function createNerdctlRuntime(): ContainerRuntime {
+  const runtime: ContainerRuntime = {
+    id: 'nerdctl',
+    displayName: 'nerdctl',
+    command: 'nerdctl',
+    start: async () => {
+      if (Deno.build.os === 'linux') {
+        return await startAndWait(runtime, [
+          'sudo',
+          'systemctl',
+          'start',
+          'containerd',
+        ], 5)
+      }
+      logger.info(
+        'Please start containerd manually, e.g. from Rancher Desktop, Colima or Lima.',
+      )
+      return false
+    },
+  }
+  return runtime
+}
+
+/**
+ * Create a runtime by id
+ *
+ * @param id Runtime id
+ * @returns The runtime
+ */
+function createContainerRuntime(id: ContainerRuntimeId): ContainerRuntime {
+  if (id === 'podman') return createPodmanRuntime()
+  if (id === 'nerdctl') return createNerdctlRuntime()
+  return createDockerRuntime()
+}
+
+async function detectContainerRuntime(): Promise<ContainerRuntime> {
+  const runtimes = RUNTIME_IDS.map(createContainerRuntime)
+  const installed: ContainerRuntime[] = []
+  for (const runtime of runtimes) {
+    if (!await isRuntimeInstalled(runtime)) continue
+    if (await isRuntimeRunning(runtime)) return runtime
+    installed.push(runtime)
+  }
+  // Nothing is running, use the runtime that can be started, or fall back to
+  // Docker so the messages tell the user what to install
+  return installed[0] ?? runtimes[0]
+}
+
+async function selectContainerRuntime(): Promise<ContainerRuntime> {
+  const id = (await getAppConfig()).CONTAINER_RUNTIME || 'auto'
+
+  if (id === 'auto') {
+    const runtime = await detectContainerRuntime()
+    logger.debug(`Detected container runtime: ${runtime.displayName}`)
+    return runtime
+  }
+
+  if (!RUNTIME_IDS.includes(id as ContainerRuntimeId)) {
+    throw new Error(
+      `Unknown CONTAINER_RUNTIME "${id}", expected "auto", ${
+        RUNTIME_IDS.map((runtimeId) => `"${runtimeId}"`).join(', ')
+      }`,
+    )
+  }
+  return createContainerRuntime(id as ContainerRuntimeId)
+}
+
+/**
+ * Get the runtime selected with `CONTAINER_RUNTIME`, detected once per process
+ *
+ * @returns The selected runtime
+ * @throws {Error} If `CONTAINER_RUNTIME` names an unknown runtime
+ */
+async function getContainerRuntime(): Promise<ContainerRuntime> {
+  if (!selectedRuntime) {
+    selectedRuntime = selectContainerRuntime()
+    // Don't cache a failed selection, the config may be fixed and retried
+    selectedRuntime.catch(() => selectedRuntime = null)
+  }
+  return await selectedRuntime
+}
+
+/**
+ * Get the CLI binary of the selected runtime
+ *
+ * @returns Binary name, e.g. `podman`
+ */
+async function getContainerCommand(): Promise<string> {
+  return (await getContainerRuntime()).command
+}
+
+export {
+  createContainerRuntime,
+  getContainerCommand,
+  getContainerRuntime,
+  isRuntimeInstalled,
+  isRuntimeRunning,
+}
+export type { ContainerRuntime, ContainerRuntimeId }
@@ -1,7 +1,9 @@
 /**
  * Cursor Configuration Service
  *
- * Manages reading and writing to the Cursor MCP configuration file
+ * Manages reading and writing to the Cursor MCP configuration file.
+ * Windsurf and Claude Desktop use the same `mcpServers` layout, so these
+ * helpers are shared by every adapter in services/mcp-client-service.
  *
  * @module services/cursor-service
  */
@@ -9,12 +11,12 @@
 import { exists } from '@std/fs'
 import { dirname } from '@std/path'
 import logger from '../utils/logger.ts'
-import type { CursorMcpEntry } from '../types.ts'
+import type { McpClientEntry } from '../types.ts'
 
 /**
- * Read the Cursor MCP configuration file
+ * Read the MCP client configuration file
  *
- * @param configPath Path to the Cursor MCP configuration file
+ * @param configPath Path to the MCP client configuration file
  * @returns Object representing the parsed configuration, or an empty object if file doesn't exist
  */
 async function readMcpConfigFile(
@@ -22,18 +24,18 @@ async function readMcpConfigFile(
 ): Promise<Record<string, unknown>> {
   try {
     if (!await exists(configPath)) {
-      logger.debug(`Cursor MCP config file not found: ${configPath}`)
+      logger.debug(`MCP client config file not found: ${configPath}`)
       return {}
     }
 
     const rawContent = await Deno.readTextFile(configPath)
     try {
       const jsonContent = JSON.parse(rawContent)
-      logger.debug(`Successfully read Cursor MCP config file: ${configPath}`)
+      logger.debug(`Successfully read MCP client config file: ${configPath}`)
       return jsonContent
     } catch (parseError) {
       logger.warn(
-        `Could not parse Cursor MCP config file as JSON: ${
+        `Could not parse MCP client config file as JSON: ${
           (parseError as Error).message
         }`,
       )
@@ -41,16 +43,16 @@ async function readMcpConfigFile(
     }
   } catch (error) {
     logger.warn(
-      `Error reading Cursor MCP config file: ${(error as Error).message}`,
+      `Error reading MCP client config file: ${(error as Error).message}`,
     )
     return {}
   }
 }
 
 /**
- * Write to the Cursor MCP configuration file
+ * Write to the MCP client configuration file
  *
- * @param configPath Path to the Cursor MCP configuration file
+ * @param configPath Path to the MCP client configuration file
  * @param config Configuration object to write
  * @returns True if successful, false otherwise
  */
@@ -75,32 +77,32 @@ async function writeMcpConfigFile(
       JSON.stringify(config, null, 2),
     )
 
-    logger.debug(`Successfully wrote Cursor MCP config file: ${configPath}`)
+    logger.debug(`Successfully wrote MCP client config file: ${configPath}`)
     return true
   } catch (error) {
     logger.error(
-      `Failed to write Cursor MCP config file: ${(error as Error).message}`,
+      `Failed to write MCP client config file: ${(error as Error).message}`,
     )
     return false
   }
 }
 
 /**
- * Get MCP servers from the Cursor configuration file
+ * Get MCP servers from the MCP client configuration file
  *
- * @param configPath Path to the Cursor MCP configuration file
+ * @param configPath Path to the MCP client configuration file
  * @returns Record of server configurations (empty if no file or servers found)
  */
 async function getMcpServers(
   configPath: string,
-): Promise<Record<string, CursorMcpEntry>> {
+): Promise<Record<string, McpClientEntry>> {
   try {
     const config = await readMcpConfigFile(configPath)
-    const mcpServers = config.mcpServers as Record<string, CursorMcpEntry> || {}
+    const mcpServers = config.mcpServers as Record<string, McpClientEntry> || {}
     return mcpServers
   } catch (error) {
     logger.warn(
-      `Error getting MCP servers from Cursor config: ${
+      `Error getting MCP servers from MCP client config: ${
         (error as Error).message
       }`,
     )
@@ -109,15 +111,15 @@ async function getMcpServers(
 }
 
 /**
- * Add MCP servers to the Cursor configuration file
+ * Add MCP servers to the MCP client configuration file
  *
- * @param configPath Path to the Cursor MCP configuration file
+ * @param configPath Path to the MCP client configuration file
  * @param servers Map of server names to server configurations to add
  * @returns True if successful, false otherwise
  */
 async function addMcpServers(
   configPath: string,
-  servers: Record<string, CursorMcpEntry>,
+  servers: Record<string, McpClientEntry>,
 ): Promise<boolean> {
   try {
     // Read current config
@@ -130,16 +132,16 @@ async function addMcpServers(
 
     // Add each server
     for (const [name, serverConfig] of Object.entries(servers)) {
-      ;(config.mcpServers as Record<string, CursorMcpEntry>)[name] =
+      ;(config.mcpServers as Record<string, McpClientEntry>)[name] =
         serverConfig
-      logger.debug(`Added/updated server ${name} in Cursor MCP config`)
+      logger.debug(`Added/updated server ${name} in MCP client config`)
     }
 
     // Write updated config
     return await writeMcpConfigFile(configPath, config)
   } catch (error) {
     logger.error(
-      `Error adding MCP servers to Cursor config file: ${
+      `Error adding MCP servers to MCP client config file: ${
         (error as Error).message
       }`,
     )
@@ -148,9 +150,9 @@ async function addMcpServers(
 }
 
 /**
- * Remove MCP servers from the Cursor configuration file
+ * Remove MCP servers from the MCP client configuration file
  *
- * @param configPath Path to the Cursor MCP configuration file
+ * @param configPath Path to the MCP client configuration file
  * @param serverNames Array of server names to remove
  * @returns True if successful, false otherwise
  */
@@ -162,7 +164,7 @@ async function removeMcpServers(
     // Check if config file exists
     if (!await exists(configPath)) {
       logger.warn(
-        `Cursor MCP config file not found: ${configPath}, nothing to remove`,
+        `MCP client config file not found: ${configPath}, nothing to remove`,
       )
       return true // Return true as there's nothing to remove
     }
@@ -172,7 +174,7 @@ async function removeMcpServers(
 
     // If mcpServers doesn't exist, nothing to remove
     if (!config.mcpServers) {
-      logger.warn('No MCP servers in Cursor config, nothing to remove')
+      logger.warn('No MCP servers in MCP client config, nothing to remove')
       return true
     }
 
@@ -181,7 +183,7 @@ async function removeMcpServers(
     for (const name of serverNames) {
       if ((config.mcpServers as Record<string, unknown>)[name]) {
         delete (config.mcpServers as Record<string, unknown>)[name]
-        logger.debug(`Removed server ${name} from Cursor MCP config`)
+        logger.debug(`Removed server ${name} from MCP client config`)
         removed = true
       }
     }
@@ -194,7 +196,7 @@ async function removeMcpServers(
     return true // Nothing was removed, but that's not an error
   } catch (error) {
     logger.warn(
-      `Error removing MCP servers from Cursor config file: ${
+      `Error removing MCP servers from MCP client config file: ${
         (error as Error).message
       }`,
     )
@@ -1,115 +1,56 @@
 /**
  * Docker service
  *
- * Encapsulates all Docker CLI interactions (run, stop, ps, logs, pull, image info)
+ * Encapsulates all container CLI interactions (run, stop, ps, logs, pull, image
+ * info). Commands go to the CLI of the selected container runtime, Docker,
+ * Podman or nerdctl, which all accept the same arguments
  *
  * @module
  */
 import logger from '../utils/logger.ts'
+import type { McpServerConfig, SecurityProfileConfig } from '../types.ts'
+import { resolveSecretEnv } from './secret-service.ts'
+import {
+  getContainerCommand,
+  getContainerRuntime,
+  isRuntimeInstalled,
+  isRuntimeRunning,
+} from './container-runtime-service.ts'
+
+const DEFAULT_SECURITY_PROFILE: Required<SecurityProfileConfig> = {
+  enabled: true,
+  readOnly: true,
+  capAdd: [],
+  noNewPrivileges: true,
+  user: '65534:65534',
+  tmpfs: ['/tmp'],
+  memory: '512m',
+  cpus: '1',
+  pidsLimit: 256,
+}
 
 /**
- * Check if Docker is installed
+ * Check if the selected container runtime's CLI is installed
  */
 async function isDockerInstalled(): Promise<boolean> {
-  try {
-    const command = new Deno.Command('docker', {
-      args: ['--version'],
-      stdout: 'null',
-      stderr: 'null',
-    })
-    const { code } = await command.output()
-    return code === 0
-  } catch (_error) {
-    return false
-  }
+  return await isRuntimeInstalled(await getContainerRuntime())
 }
 
 /**
- * Check if Docker daemon is running
+ * Check if the selected container runtime's engine is running
  */
 async function isDockerRunning(): Promise<boolean> {
-  try {
-    const command = new Deno.Command('docker', {
-      args: ['info'],
-      stdout: 'null',
-      stderr: 'null',
-    })
-    const { code } = await command.output()
-    return code === 0
-  } catch (_error) {
-    return false
-  }
+  return await isRuntimeRunning(await getContainerRuntime())
 }
 
 /**
- * Start Docker daemon (platform dependent)
+ * Start the selected container runtime's engine (platform dependent)
  */
 async function startDocker(): Promise<boolean> {
   // This is platform-dependent and may not work on all systems
-  logger.info('Attempting to start Docker daemon...')
-
-  // Different command based on platform
-  const platform = Deno.build.os
-
-  if (platform === 'darwin') {
-    // macOS
-    const command = new Deno.Command('open', {
-      args: ['-a', 'Docker'],
-      stdout: 'null',
-      stderr: 'null',
-    })
-    await command.output()
-
-    // Wait for Docker to start (it takes time)
-    logger.info('Waiting for Docker to start...')
-    let attempts = 0
-    const maxAttempts = 30
-
-    while (attempts < maxAttempts) {
-      if (await isDockerRunning()) {
-        logger.info('Docker daemon started successfully.')
-        return true
-      }
-
-      // Wait 2 seconds between checks
-      await new Promise((resolve) => setTimeout(resolve, 2000))
-      attempts++
-    }
-
-    logger.error('Docker daemon did not start within the expected time.')
-    return false
-  }
-
-  if (platform === 'linux') {
-    // Linux
-    try {
-      const command = new Deno.Command('sudo', {
-        args: ['systemctl', 'start', 'docker'],
-        stdout: 'null',
-        stderr: 'null',
-      })
-      const { code } = await command.output()
-
-      if (code === 0) {
-        logger.info('Docker daemon started successfully.')
-        return true
-      }
-
-      return false
-    } catch (_error) {
-      return false
-    }
-  }
-
-  if (platform === 'windows') {
-    // Windows
-    // Just check if Docker Desktop is running, can't easily start it
-    logger.info('On Windows, please start Docker Desktop manually.')
-    return false
-  }
-
-  logger.error(`Unsupported platform: ${platform}`)
-  return false
+  const runtime = await getContainerRuntime()
+  logger.info(`Attempting to start ${runtime.displayName}...`)
+  return await runtime.start()
 }
 
 /**
@@ -117,7 +58,7 @@ async function startDocker(): Promise<boolean> {
  */
 async function isDockerImagePulled(imageName: string): Promise<boolean> {
   try {
-    const command = new Deno.Command('docker', {
+    const command = new Deno.Command(await getContainerCommand(), {
       args: ['image', 'inspect', imageName],
       stdout: 'null',
       stderr: 'null',
@@ -136,7 +77,7 @@ async function pullDockerImage(imageName: string): Promise<boolean> {
   try {
     logger.info(`Pulling Docker image: ${imageName}...`)
 
-    const command = new Deno.Command('docker', {
+    const command = new Deno.Command(await getContainerCommand(), {
       args: ['pull', imageName],
       stdout: 'piped',
       stderr: 'piped',
@@ -158,12 +99,151 @@ async function pullDockerImage(imageName: string): Promise<boolean> {
   }
 }
 
+/**
+ * Get the repository part of an image reference, without its tag or digest
+ *
+ * @param imageName Image reference, e.g. `ghcr.io/org/server:latest`
+ * @returns Repository, e.g. `ghcr.io/org/server`
+ */
+function getImageRepository(imageName: string): string {
+  const withoutDigest = imageName.split('@')[0]
+  const lastSlash = withoutDigest.lastIndexOf('/')
+  const lastColon = withoutDigest.lastIndexOf(':')
+  // A colon before the last slash belongs to a registry port, not a tag
+  return lastColon > lastSlash
+    ? withoutDigest.slice(0, lastColon)
+    : withoutDigest
+}
+
+/**
+ * Get the registry digest a pulled image was resolved to
+ *
+ * @param imageName Image reference that has been pulled
+ * @returns Digest reference, e.g. `mcp/slack@sha256:...`, undefined for images
+ *   that weren't pulled from the image's own repository
+ */
+async function getImageDigest(imageName: string): Promise<string | undefined> {
+  try {
+    const { code, stdout } = await new Deno.Command(
+      await getContainerCommand(),
+      {
+        args: [
+          'image',
+          'inspect',
+          imageName,
+          '--format',
+          '{{json .RepoDigests}}',
+        ],
+        stdout: 'piped',
+        stderr: 'null',
+      },
+    ).output()
+    if (code !== 0) return undefined
+
+    const digests = JSON.parse(new TextDecoder().decode(stdout).trim() || '[]')
+    if (!Array.isArray(digests)) return undefined
+    const repository = getImageRepository(imageName)
+    // Docker Hub images are listed without their docker.io/ or library/ prefix
+    const shortRepository = repository.replace(/^docker\.io\//, '')
+      .replace(/^library\//, '')
+    return digests.find((digest: string) => {
+      const digestRepository = getImageRepository(digest)
+      return digestRepository === repository ||
+        digestRepository === shortRepository
+    })
+  } catch (error) {
+    logger.debug(`Error getting digest of ${imageName}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * Get the version label (`org.opencontainers.image.version`) of a pulled image
+ *
+ * @param imageName Image reference that has been pulled
+ * @returns Version, undefined if the image has no version label
+ */
+async function getImageVersion(imageName: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await new Deno.Command(await getContainerCommand(), {
+      args: [
+        'image',
+        'inspect',
+        imageName,
+        '--format',
+        '{{index .Config.Labels "org.opencontainers.image.version"}}',
+      ],
+      stdout: 'piped',
+      stderr: 'null',
+    }).output()
+    const version = new TextDecoder().decode(stdout).trim()
+    return version && version !== '<no value>' ? version : undefined
+  } catch (_error) {
+    return undefined
+  }
+}
+
+/**
+ * Add a tag to a local image
+ *
+ * @param sourceImage Image to tag, e.g. a digest reference
+ * @param targetTag New tag, e.g. `mcp-manager/mcp-slack:previous`
+ * @returns True if successful, false otherwise
+ */
+async function tagDockerImage(
+  sourceImage: string,
+  targetTag: string,
+): Promise<boolean> {
+  try {
+    const { code, stderr } = await new Deno.Command(
+      await getContainerCommand(),
+      {
+        args: ['tag', sourceImage, targetTag],
+        stdout: 'null',
+        stderr: 'piped',
+      },
+    ).output()
+    if (code !== 0) {
+      logger.error(
+        `Failed to tag ${sourceImage} as ${targetTag}: ${
+          new TextDecoder().decode(stderr)
+        }`,
+      )
+      return false
+    }
+    return true
+  } catch (error) {
+    logger.error(`Error tagging ${sourceImage}:`, error)
+    return false
+  }
+}
+
+/**
+ * Remove a tag from a local image, the image itself is only deleted when
+ * nothing else refers to it
+ *
+ * @param tag Tag to remove
+ * @returns True if successful, false otherwise
+ */
+async function removeDockerImageTag(tag: string): Promise<boolean> {
+  try {
+    const { code } = await new Deno.Command(await getContainerCommand(), {
+      args: ['rmi', tag],
+      stdout: 'null',
+      stderr: 'null',
+    }).output()
+    return code === 0
+  } catch (_error) {
+    return false
+  }
+}
+
 /**
  * Check if a container is running
  */
 async function isContainerRunning(containerName: string): Promise<boolean> {
   try {
-    const command = new Deno.Command('docker', {
+    const command = new Deno.Command(await getContainerCommand(), {
       args: [
         'ps',
         '--filter',
@@ -184,49 +264,23 @@ async function isContainerRunning(containerName: string): Promise<boolean> {
 }
 
 /**
- * Check if a port is already in use
+ * Check if a port is already in use by trying to listen on it. Both the
+ * loopback and the wildcard address are tried, since on macOS a listener on
+ * one doesn't stop binding the other
+ *
+ * @param port Port to check
+ * @returns True if something is listening on the port
  */
-async function isPortInUse(port: number): Promise<boolean> {
-  try {
-    // Different command based on platform
-    const platform = Deno.build.os
-
-    if (platform === 'darwin' || platform === 'linux') {
-      // macOS or Linux
-      const command = new Deno.Command('lsof', {
-        args: ['-i', `:${port}`],
-        stdout: 'piped',
-        stderr: 'null',
-      })
-
-      const { code, stdout } = await command.output()
-
-      if (code !== 0) {
-        return false
-      }
-
-      const output = new TextDecoder().decode(stdout).trim()
-      return output.length > 0
-    }
-
-    if (platform === 'windows') {
-      // Windows
-      const command = new Deno.Command('netstat', {
-        args: ['-ano', '|', 'findstr', `:${port}`],
-        stdout: 'piped',
-        stderr: 'null',
-      })
-
-      const { stdout } = await command.output()
-      const output = new TextDecoder().decode(stdout).trim()
-
-      return output.length > 0
+function isPortInUse(port: number): boolean {
+  for (const hostname of ['127.0.0.1', '0.0.0.0']) {
+    try {
+      Deno.listen({ hostname, port }).close()
+    } catch (error) {
+      if (error instanceof Deno.errors.AddrInUse) return true
+      logger.debug(`Could not probe ${hostname}:${port}: ${error}`)
     }
-
-    return false
-  } catch (_error) {
-    return false
   }
+  return false
 }
 
 /**
@@ -248,7 +302,7 @@ async function getImageVersionInfo(
     }
 
     // Get current version
-    const inspectCommand = new Deno.Command('docker', {
+    const inspectCommand = new Deno.Command(await getContainerCommand(), {
       args: [
         'image',
         'inspect',
@@ -269,7 +323,7 @@ async function getImageVersionInfo(
 
     // Pull latest without tag to get the latest version
     // We use pull --quiet to only get the digest
-    const latestPullCommand = new Deno.Command('docker', {
+    const latestPullCommand = new Deno.Command(await getContainerCommand(), {
       args: ['pull', '--quiet', baseImageName],
       stdout: 'piped',
       stderr: 'null',
@@ -278,7 +332,7 @@ async function getImageVersionInfo(
     await latestPullCommand.output()
 
     // Check the latest version
-    const latestInspectCommand = new Deno.Command('docker', {
+    const latestInspectCommand = new Deno.Command(await getContainerCommand(), {
       args: [
         'image',
         'inspect',
@@ -304,6 +358,55 @@ async function getImageVersionInfo(
   }
 }
 
+/**
+ * Resolve a server's security profile, filling in the defaults
+ *
+ * @param server Server configuration
+ * @returns Security profile with every field set
+ */
+function getSecurityProfile(
+  server: McpServerConfig,
+): Required<SecurityProfileConfig> {
+  return { ...DEFAULT_SECURITY_PROFILE, ...server.securityProfile }
+}
+
+/**
+ * Build the `docker run` flags that apply a security profile
+ *
+ * @param profile Resolved security profile
+ * @returns Flags to insert before the image name, empty if the profile is disabled
+ */
+function buildSecurityArgs(profile: Required<SecurityProfileConfig>): string[] {
+  if (!profile.enabled) return []
+
+  const dockerArgs = ['--cap-drop=ALL']
+  for (const capability of profile.capAdd) {
+    dockerArgs.push(`--cap-add=${capability}`)
+  }
+  if (profile.readOnly) dockerArgs.push('--read-only')
+  if (profile.noNewPrivileges) {
+    dockerArgs.push('--security-opt', 'no-new-privileges')
+  }
+  if (profile.user) dockerArgs.push('--user', profile.user)
+  for (const mount of profile.tmpfs) dockerArgs.push('--tmpfs', mount)
+  if (profile.memory) dockerArgs.push('--memory', profile.memory)
+  if (profile.cpus) dockerArgs.push('--cpus', profile.cpus)
+  if (profile.pidsLimit > 0) {
+    dockerArgs.push('--pids-limit', String(profile.pidsLimit))
+  }
+  return dockerArgs
+}
+
+/**
+ * Build the `docker run` flags for a server's security profile
+ *
+ * @param server Server configuration
+ * @returns Flags to insert before the image name
+ */
+function getSecurityArgs(server: McpServerConfig): string[] {
+  return buildSecurityArgs(getSecurityProfile(server))
+}
+
 /**
  * Run a Docker container with the given options
  *
@@ -317,7 +420,13 @@ async function runContainer(options: {
   envFile?: string
   env?: Record<string, string>
   detached?: boolean
-  ports?: { hostPort: number; containerPort: number }[]
+  ports?: { hostPort: number; containerPort: number; hostIp?: string }[]
+  securityArgs?: string[]
+  networkArgs?: string[]
+  secretEnv?: Record<string, string>
+  mounts?: { hostPath: string; containerPath: string; readOnly?: boolean }[]
+  labels?: Record<string, string>
+  restart?: string
 }): Promise<{ success: boolean; output?: string; error?: string }> {
   try {
     const dockerArgs = ['run']
@@ -330,19 +439,47 @@ async function runContainer(options: {
     // Add container name
     dockerArgs.push('--name', options.containerName)
 
+    if (options.restart) dockerArgs.push('--restart', options.restart)
+    for (const [key, value] of Object.entries(options.labels ?? {})) {
+      dockerArgs.push('--label', `${key}=${value}`)
+    }
+    for (const mount of options.mounts ?? []) {
+      dockerArgs.push(
+        '-v',
+        `${mount.hostPath}:${mount.containerPath}${
+          mount.readOnly ? ':ro' : ''
+        }`,
+      )
+    }
+
     // Add port mappings if provided
     if (options.ports && options.ports.length > 0) {
       for (const portMapping of options.ports) {
+        // Without a host IP Docker listens on every interface
+        const hostIp = portMapping.hostIp?.includes(':')
+          ? `[${portMapping.hostIp}]:`
+          : portMapping.hostIp
+          ? `${portMapping.hostIp}:`
+          : ''
         dockerArgs.push(
           '-p',
-          `${portMapping.hostPort}:${portMapping.containerPort}`,
+          `${hostIp}${portMapping.hostPort}:${portMapping.containerPort}`,
         )
       }
     }
 
     // Add env file if provided - this is the standardized approach
+    // Secret references in it are resolved now and passed as `-e NAME`, with
+    // the values only in the docker process's environment, never its args
+    // `secretEnv` values that aren't in the env file (e.g. a bearer token) are
+    // passed the same way
+    let secretEnv: Record<string, string> = { ...options.secretEnv }
+    for (const name of Object.keys(secretEnv)) dockerArgs.push('-e', name)
     if (options.envFile) {
       dockerArgs.push('--env-file', options.envFile)
+      const fileSecretEnv = await resolveSecretEnv(options.envFile)
+      for (const name of Object.keys(fileSecretEnv)) dockerArgs.push('-e', name)
+      secretEnv = { ...secretEnv, ...fileSecretEnv }
     } else if (options.env && Object.keys(options.env).length > 0) {
       // For backward compatibility: log a warning if env vars are provided but no env file
       logger.warn(
@@ -351,12 +488,18 @@ async function runContainer(options: {
       // We do not add individual -e flags as per the standardization proposal
     }
 
+    // Add hardening flags, see buildSecurityArgs
+    dockerArgs.push(...options.securityArgs ?? [])
+    // Add network flags, e.g. the egress network and proxy variables
+    dockerArgs.push(...options.networkArgs ?? [])
+
     // Add image name and additional args
     dockerArgs.push(options.imageName, ...options.args)
 
     // Run the container
-    const command = new Deno.Command('docker', {
+    const command = new Deno.Command(await getContainerCommand(), {
       args: dockerArgs,
+      env: secretEnv,
       stdout: 'piped',
       stderr: 'piped',
     })
@@ -379,6 +522,39 @@ async function runContainer(options: {
   }
 }
 
+/**
+ * Build `docker run` arguments for an interactive (STDIO) container
+ * The container reads from stdin and is removed once stdin closes
+ *
+ * @param options Container options, `secretEnvNames` are passed as `-e NAME` so
+ *   their values are taken from the docker process's environment,
+ *   `securityArgs` come from buildSecurityArgs and `networkArgs` are added
+ *   after them
+ * @returns Arguments to pass to the docker binary
+ */
+function buildInteractiveRunArgs(options: {
+  imageName: string
+  args: string[]
+  envFile?: string
+  secretEnvNames?: string[]
+  securityArgs?: string[]
+  networkArgs?: string[]
+}): string[] {
+  const dockerArgs = ['run', '-i', '--rm']
+
+  if (options.envFile) {
+    dockerArgs.push('--env-file', options.envFile)
+  }
+  for (const name of options.secretEnvNames ?? []) {
+    dockerArgs.push('-e', name)
+  }
+  dockerArgs.push(...options.securityArgs ?? [])
+  dockerArgs.push(...options.networkArgs ?? [])
+
+  dockerArgs.push(options.imageName, ...options.args)
+  return dockerArgs
+}
+
 /**
  * Stop and remove a Docker container
  *
@@ -388,7 +564,7 @@ async function runContainer(options: {
 async function stopAndRemoveContainer(containerName: string): Promise<boolean> {
   try {
     // Check if container exists
-    const checkCommand = new Deno.Command('docker', {
+    const checkCommand = new Deno.Command(await getContainerCommand(), {
       args: [
         'ps',
         '-a',
@@ -409,7 +585,7 @@ async function stopAndRemoveContainer(containerName: string): Promise<boolean> {
     }
 
     // Stop the container
-    const stopCommand = new Deno.Command('docker', {
+    const stopCommand = new Deno.Command(await getContainerCommand(), {
       args: ['stop', containerName],
       stdout: 'null',
       stderr: 'piped',
@@ -424,7 +600,7 @@ async function stopAndRemoveContainer(containerName: string): Promise<boolean> {
     }
 
     // Remove the container
-    const removeCommand = new Deno.Command('docker', {
+    const removeCommand = new Deno.Command(await getContainerCommand(), {
       args: ['rm', containerName],
       stdout: 'null',
       stderr: 'piped',
@@ -452,17 +628,25 @@ async function stopAndRemoveContainer(containerName: string): Promise<boolean> {
  * Get logs from a Docker container
  *
  * @param containerName Name of the container
+ * @param tail Only return this many of the last lines of each stream
  * @returns Container logs or error message
  */
-async function getContainerLogs(containerName: string): Promise<{
+async function getContainerLogs(
+  containerName: string,
+  tail?: number,
+): Promise<{
   success: boolean
   stdout?: string
   stderr?: string
   error?: string
 }> {
   try {
-    const command = new Deno.Command('docker', {
-      args: ['logs', containerName],
+    const command = new Deno.Command(await getContainerCommand(), {
+      args: [
+        'logs',
+        ...(tail === undefined ? [] : ['--tail', String(tail)]),
+        containerName,
+      ],
       stdout: 'piped',
       stderr: 'piped',
     })
@@ -501,7 +685,7 @@ async function execInContainer(options: {
   error?: string
 }> {
   try {
-    const execCommand = new Deno.Command('docker', {
+    const execCommand = new Deno.Command(await getContainerCommand(), {
       args: ['exec', '-i', options.containerName, ...options.command],
       stdin: options.input ? 'piped' : 'null',
       stdout: 'piped',
@@ -534,6 +718,134 @@ async function execInContainer(options: {
   }
 }
 
+/**
+ * Create a Docker network unless it already exists
+ *
+ * @param networkName Name of the network
+ * @param options `internal` creates a network with no route outside the host
+ * @returns True if the network exists afterwards
+ */
+async function ensureDockerNetwork(
+  networkName: string,
+  options: { internal?: boolean } = {},
+): Promise<boolean> {
+  try {
+    const inspect = await new Deno.Command(await getContainerCommand(), {
+      args: ['network', 'inspect', networkName],
+      stdout: 'null',
+      stderr: 'null',
+    }).output()
+    if (inspect.code === 0) return true
+
+    const { code, stderr } = await new Deno.Command(
+      await getContainerCommand(),
+      {
+        args: [
+          'network',
+          'create',
+          ...(options.internal ? ['--internal'] : []),
+          networkName,
+        ],
+        stdout: 'null',
+        stderr: 'piped',
+      },
+    ).output()
+
+    if (code !== 0) {
+      logger.error(
+        `Failed to create network ${networkName}: ${
+          new TextDecoder().decode(stderr)
+        }`,
+      )
+      return false
+    }
+    logger.info(`Created Docker network ${networkName}`)
+    return true
+  } catch (error) {
+    logger.error(`Error creating network ${networkName}:`, error)
+    return false
+  }
+}
+
+/**
+ * Connect a container to an additional network
+ *
+ * @param containerName Name of the container
+ * @param networkName Name of the network
+ * @param alias Extra host name other containers on the network can use
+ * @returns True if successful, false otherwise
+ */
+async function connectContainerToNetwork(
+  containerName: string,
+  networkName: string,
+  alias?: string,
+): Promise<boolean> {
+  try {
+    const { code, stderr } = await new Deno.Command(
+      await getContainerCommand(),
+      {
+        args: [
+          'network',
+          'connect',
+          ...(alias ? ['--alias', alias] : []),
+          networkName,
+          containerName,
+        ],
+        stdout: 'null',
+        stderr: 'piped',
+      },
+    ).output()
+
+    if (code !== 0) {
+      logger.error(
+        `Failed to connect ${containerName} to ${networkName}: ${
+          new TextDecoder().decode(stderr)
+        }`,
+      )
+      return false
+    }
+    return true
+  } catch (error) {
+    logger.error(
+      `Error connecting ${containerName} to ${networkName}:`,
+      error,
+    )
+    return false
+  }
+}
+
+/**
+ * Read a label of a container, running or not
+ *
+ * @param containerName Name of the container
+ * @param label Label key
+ * @returns The label's value, undefined if the container or label doesn't exist
+ */
+async function getContainerLabel(
+  containerName: string,
+  label: string,
+): Promise<string | undefined> {
+  try {
+    const { code, stdout } = await new Deno.Command(
+      await getContainerCommand(),
+      {
+        args: [
+          'inspect',
+          '--format',
+          `{{index .Config.Labels "${label}"}}`,
+          containerName,
+        ],
+        stdout: 'piped',
+        stderr: 'null',
+      },
+    ).output()
+    const value = new TextDecoder().decode(stdout).trim()
+    return code === 0 && value ? value : undefined
+  } catch (_error) {
+    return undefined
+  }
+}
+
 /**
  * Print Docker logs to the console
  *
@@ -569,9 +881,20 @@ async function printDockerLogs(containerName: string): Promise<void> {
 }
 
 export {
+  buildInteractiveRunArgs,
+  buildSecurityArgs,
+  connectContainerToNetwork,
+  DEFAULT_SECURITY_PROFILE,
+  ensureDockerNetwork,
   execInContainer,
+  getContainerLabel,
   getContainerLogs,
+  getImageDigest,
+  getImageRepository,
+  getImageVersion,
   getImageVersionInfo,
+  getSecurityArgs,
+  getSecurityProfile,
   isContainerRunning,
   isDockerImagePulled,
   isDockerInstalled,
@@ -579,7 +902,9 @@ export {
   isPortInUse,
   printDockerLogs,
   pullDockerImage,
+  removeDockerImageTag,
   runContainer,
   startDocker,
   stopAndRemoveContainer,
+  tagDockerImage,
 }
@@ -0,0 +1,360 @@
+/**
+ * Egress service
+ *
+ * Restricts the outbound connections of servers with an `egress` allowlist.
+ * Their containers join an internal Docker network that has no route out, and
+ * get HTTP(S)_PROXY pointed at a manager-run proxy container (see
+ * `scripts/egress-proxy.ts`) that sits on both that network and the default
+ * bridge. The proxy listens on one port per server, so each request is checked
+ * against the allowlist of the server that sent it, and logs the requests it
+ * denies.
+ *
+ * Containers on an internal network can't publish ports, so for HTTP servers
+ * the proxy also publishes the server's port and forwards it to the container.
+ *
+ * The proxy's routes are kept in `data/egress/proxy.json`, which is mounted
+ * into the proxy container. The container is recreated whenever it changes.
+ *
+ * @module services/egress-service
+ */
+import { exists } from '@std/fs'
+import { dirname, join } from '@std/path'
+import logger from '../utils/logger.ts'
+import { getAppConfig, getBindAddress, getWorkspacePath } from '../config.ts'
+import type { McpServerConfig } from '../types.ts'
+import {
+  buildSecurityArgs,
+  connectContainerToNetwork,
+  DEFAULT_SECURITY_PROFILE,
+  ensureDockerNetwork,
+  getContainerLabel,
+  getContainerLogs,
+  isContainerRunning,
+  runContainer,
+  stopAndRemoveContainer,
+} from './docker-service.ts'
+
+/** Internal network restricted servers are attached to */
+const EGRESS_NETWORK = 'mcp-manager-egress'
+/** Name of the proxy container */
+const EGRESS_PROXY_CONTAINER = 'mcp-manager-egress-proxy'
+/** Host name of the proxy on the internal network */
+const EGRESS_PROXY_HOST = 'mcp-egress-proxy'
+/** First proxy port handed out, later servers get the next free one */
+const FIRST_PROXY_PORT = 3128
+/** Label holding the hash of the config the proxy container was started with */
+const CONFIG_HASH_LABEL = 'mcp-manager.egress-config'
+
+/**
+ * A server's entry in the proxy config, read by `scripts/egress-proxy.ts`
+ */
+interface EgressRoute {
+  /** Server the route belongs to */
+  server: string
+  /** Port the server's HTTP_PROXY points at */
+  proxyPort: number
+  /** Hosts the server may reach, each also allows its subdomains */
+  allowedHosts: string[]
+  /** Published port forwarded to the server's container, HTTP servers only */
+  inbound?: { port: number; host: string; targetPort: number; hostIp: string }
+}
+
+interface EgressProxyConfig {
+  routes: EgressRoute[]
+}
+
+/**
+ * A denied connection attempt, grouped by server, host and port
+ */
+interface DeniedEgress {
+  server: string
+  host: string
+  port: number
+  /** How many times it was attempted since the proxy started */
+  count: number
+  lastSeen: string
+}
+
+/**
+ * Check whether a server's outbound connections are restricted
+ *
+ * @param server Server configuration
+ * @returns True if the server has an `egress` allowlist
+ */
+function hasEgressAllowlist(server: McpServerConfig): boolean {
+  return server.egress !== undefined
+}
+
+function getEgressConfigPath(): string {
+  return join(getWorkspacePath(), 'data', 'egress', 'proxy.json')
+}
+
+/**
+ * Read the proxy config, empty if no server has been restricted yet
+ */
+async function readEgressProxyConfig(): Promise<EgressProxyConfig> {
+  const path = getEgressConfigPath()
+  if (!(await exists(path))) return { routes: [] }
+  return JSON.parse(await Deno.readTextFile(path)) as EgressProxyConfig
+}
+
+/**
+ * Add or update a server's route. A server keeps its proxy port so containers
+ * started earlier keep working, new servers get the lowest free port
+ *
+ * @param config Current proxy config
+ * @param server Server configuration
+ * @param inboundPort Host port of an HTTP server, forwarded to its container
+ * @returns Updated proxy config
+ */
+function setEgressRoute(
+  config: EgressProxyConfig,
+  server: McpServerConfig,
+  inboundPort?: number,
+): EgressProxyConfig {
+  const others = config.routes.filter((route) => route.server !== server.name)
+  const existing = config.routes.find((route) => route.server === server.name)
+
+  const usedPorts = new Set(
+    others.flatMap((route) => [route.proxyPort, route.inbound?.port]),
+  )
+  let proxyPort = existing?.proxyPort ?? FIRST_PROXY_PORT
+  if (!existing || usedPorts.has(proxyPort) || proxyPort === inboundPort) {
+    proxyPort = FIRST_PROXY_PORT
+    while (usedPorts.has(proxyPort) || proxyPort === inboundPort) proxyPort++
+  }
+
+  const route: EgressRoute = {
+    server: server.name,
+    proxyPort,
+    allowedHosts: server.egress?.allowedHosts ?? [],
+    ...(inboundPort !== undefined && {
+      inbound: {
+        port: inboundPort,
+        host: server.name,
+        targetPort: inboundPort,
+        hostIp: getBindAddress(server),
+      },
+    }),
+  }
+  return {
+    routes: [...others, route].sort((a, b) => a.server.localeCompare(b.server)),
+  }
+}
+
+async function hashConfig(json: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(json),
+  )
+  return Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Save the proxy config and make sure the network and a proxy container
+ * running it are up. The container is recreated when the config changed, so
+ * restricted servers lose their open connections
+ *
+ * @param config Proxy config to run
+ * @param reason What the proxy is started for, for the log
+ * @returns True if the proxy is ready
+ */
+async function applyEgressProxyConfig(
+  config: EgressProxyConfig,
+  reason: string,
+): Promise<boolean> {
+  const configPath = getEgressConfigPath()
+  const json = JSON.stringify(config, null, 2)
+
+  await Deno.mkdir(dirname(configPath), { recursive: true })
+  await Deno.writeTextFile(configPath, json)
+
+  if (!(await ensureDockerNetwork(EGRESS_NETWORK, { internal: true }))) {
+    return false
+  }
+
+  const hash = await hashConfig(json)
+  if (
+    await isContainerRunning(EGRESS_PROXY_CONTAINER) &&
+    await getContainerLabel(EGRESS_PROXY_CONTAINER, CONFIG_HASH_LABEL) === hash
+  ) {
+    return true
+  }
+
+  logger.info(`Starting egress proxy ${reason}...`)
+  await stopAndRemoveContainer(EGRESS_PROXY_CONTAINER)
+
+  const result = await runContainer({
+    imageName: (await getAppConfig()).EGRESS_PROXY_IMAGE ||
+      'denoland/deno:alpine-2.1.4',
+    containerName: EGRESS_PROXY_CONTAINER,
+    detached: true,
+    restart: 'unless-stopped',
+    labels: { [CONFIG_HASH_LABEL]: hash },
+    mounts: [
+      {
+        hostPath: join(getWorkspacePath(), 'scripts', 'egress-proxy.ts'),
+        containerPath: '/egress-proxy.ts',
+        readOnly: true,
+      },
+      { hostPath: configPath, containerPath: '/proxy.json', readOnly: true },
+    ],
+    ports: config.routes.flatMap((route) =>
+      route.inbound
+        ? [{
+          hostPort: route.inbound.port,
+          containerPort: route.inbound.port,
+          hostIp: route.inbound.hostIp,
+        }]
+        : []
+    ),
+    // Deno caches the compiled script in /deno-dir
+    securityArgs: buildSecurityArgs({
+      ...DEFAULT_SECURITY_PROFILE,
+      tmpfs: ['/tmp', '/deno-dir'],
+    }),
+    args: [
+      'run',
+      '--allow-net',
+      '--allow-read=/proxy.json',
+      '/egress-proxy.ts',
+      '/proxy.json',
+    ],
+  })
+  if (!result.success) return false
+
+  return await connectContainerToNetwork(
+    EGRESS_PROXY_CONTAINER,
+    EGRESS_NETWORK,
+    EGRESS_PROXY_HOST,
+  )
+}
+
+/**
+ * Register a server with the egress proxy and make sure the network and an
+ * up-to-date proxy container are running. Other restricted servers lose their
+ * open connections while the proxy is recreated
+ *
+ * @param server Server configuration with an `egress` allowlist
+ * @param inboundPort Host port of an HTTP server, published by the proxy
+ * @returns True if the proxy is ready
+ */
+async function ensureEgressProxy(
+  server: McpServerConfig,
+  inboundPort?: number,
+): Promise<boolean> {
+  return await applyEgressProxyConfig(
+    setEgressRoute(await readEgressProxyConfig(), server, inboundPort),
+    `for ${server.name}`,
+  )
+}
+
+/**
+ * Remove a route that's no longer needed, e.g. a stopped server's or a
+ * preview container's. A running proxy is recreated without it
+ *
+ * @param name Server or container name the route was registered under
+ * @returns True if the route is gone and the proxy, if running, is ready
+ */
+async function removeEgressRoute(name: string): Promise<boolean> {
+  const config = await readEgressProxyConfig()
+  const routes = config.routes.filter((route) => route.server !== name)
+  if (routes.length === config.routes.length) return true
+  if (!await isContainerRunning(EGRESS_PROXY_CONTAINER)) {
+    await Deno.writeTextFile(
+      getEgressConfigPath(),
+      JSON.stringify({ routes }, null, 2),
+    )
+    return true
+  }
+  return await applyEgressProxyConfig({ routes }, `without ${name}`)
+}
+
+/**
+ * Build the `docker run` flags that put a server behind the egress proxy
+ *
+ * @param server Server configuration
+ * @returns Network and proxy variable flags, empty if the server is unrestricted
+ * @throws If the server has an allowlist but was never registered with the proxy
+ */
+async function getEgressArgs(server: McpServerConfig): Promise<string[]> {
+  if (!hasEgressAllowlist(server)) return []
+
+  const route = (await readEgressProxyConfig()).routes.find((candidate) =>
+    candidate.server === server.name
+  )
+  if (!route) {
+    throw new Error(
+      `${server.name} has an egress allowlist but no proxy route yet, run \`deno task start --server=${server.name}\` first`,
+    )
+  }
+
+  const proxyUrl = `http://${EGRESS_PROXY_HOST}:${route.proxyPort}`
+  const proxyEnv = {
+    HTTP_PROXY: proxyUrl,
+    HTTPS_PROXY: proxyUrl,
+    http_proxy: proxyUrl,
+    https_proxy: proxyUrl,
+    NO_PROXY: 'localhost,127.0.0.1',
+    no_proxy: 'localhost,127.0.0.1',
+  }
+  return [
+    '--network',
+    EGRESS_NETWORK,
+    ...Object.entries(proxyEnv).flatMap(([name, value]) => [
+      '-e',
+      `${name}=${value}`,
+    ]),
+  ]
+}
+
+/**
+ * Read the connection attempts the proxy denied since it was last started
+ *
+ * @returns Denied attempts grouped by server, host and port, most frequent first
+ */
+async function getDeniedEgress(): Promise<DeniedEgress[]> {
+  const logs = await getContainerLogs(EGRESS_PROXY_CONTAINER)
+  if (!logs.success) return []
+
+  const denied = new Map<string, DeniedEgress>()
+  for (const line of (logs.stdout ?? '').split('\n')) {
+    let entry: Record<string, unknown>
+    try {
+      entry = JSON.parse(line)
+    } catch {
+      continue
+    }
+    if (entry.action !== 'deny') continue
+
+    const key = `${entry.server} ${entry.host}:${entry.port}`
+    const existing = denied.get(key)
+    if (existing) {
+      existing.count++
+      existing.lastSeen = String(entry.time)
+    } else {
+      denied.set(key, {
+        server: String(entry.server),
+        host: String(entry.host),
+        port: Number(entry.port),
+        count: 1,
+        lastSeen: String(entry.time),
+      })
+    }
+  }
+  return [...denied.values()].sort((a, b) => b.count - a.count)
+}
+
+export {
+  EGRESS_NETWORK,
+  EGRESS_PROXY_CONTAINER,
+  ensureEgressProxy,
+  getDeniedEgress,
+  getEgressArgs,
+  hasEgressAllowlist,
+  readEgressProxyConfig,
+  removeEgressRoute,
+}
+export type { DeniedEgress, EgressRoute }
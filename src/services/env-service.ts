@@ -0,0 +1,76 @@
+/**
+ * Env Service
+ *
+ * Checks a server's `servers/config/<name>.env` file against the environment
+ * variables declared in its `envVars`, and renders env files that list exactly
+ * those variables with their descriptions.
+ *
+ * @module services/env-service
+ */
+
+import { getEnvFilePath } from '../config.ts'
+import {
+  type EnvFileEntry,
+  readEnvFile,
+  renderEnvFile,
+} from '../utils/env-file.ts'
+import type { EnvVarDefinition, McpServerConfig } from '../types.ts'
+
+/**
+ * Check whether a server refuses to start without the variable
+ *
+ * @param envVar Variable definition
+ * @returns True unless the variable is explicitly optional
+ */
+function isEnvVarRequired(envVar: EnvVarDefinition): boolean {
+  return envVar.required !== false
+}
+
+/**
+ * Find the required variables that are missing or empty in a server's env file
+ *
+ * @param server Server configuration
+ * @returns Definitions of every missing required variable, empty when the file is complete
+ */
+async function findMissingEnvVars(
+  server: McpServerConfig,
+): Promise<EnvVarDefinition[]> {
+  const required = (server.envVars ?? []).filter(isEnvVarRequired)
+  if (required.length === 0) return []
+
+  const values = await readEnvFile(getEnvFilePath(server.name)) ?? {}
+  return required.filter((envVar) => !values[envVar.name]?.trim())
+}
+
+/**
+ * Render an env file for a server listing each declared variable under its
+ * description. Optional variables without a value are written commented out.
+ *
+ * @param server Server configuration
+ * @param values Values to write, variables without one are left empty
+ * @returns The env file contents
+ */
+function renderServerEnvFile(
+  server: McpServerConfig,
+  values: Record<string, string> = {},
+): string {
+  const entries: EnvFileEntry[] = (server.envVars ?? []).map((envVar) => {
+    const value = values[envVar.name] ?? ''
+    const required = isEnvVarRequired(envVar)
+    return {
+      key: envVar.name,
+      value,
+      comment: [
+        `${required ? 'Required' : 'Optional'}: ${envVar.description}`,
+      ],
+      disabled: !required && value === '',
+    }
+  })
+
+  return renderEnvFile(entries, [
+    server.description,
+    '----------------------------------------------',
+  ])
+}
+
+export { findMissingEnvVars, isEnvVarRequired, renderServerEnvFile }
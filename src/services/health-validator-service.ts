@@ -1,13 +1,41 @@
 /**
  * Health validator service
  *
- * Standardized health validation for MCP servers using JSON-RPC 2.0 requests
- * Works for both HTTP and STDIO transports
+ * Standardized health validation for MCP servers. Each check runs a full MCP
+ * session lifecycle (initialize, notifications/initialized) before sending the
+ * configured probe request. Works for both HTTP and STDIO transports
  */
 
 import type { HealthValidatorConfig, McpServerConfig } from '../types.ts'
 import logger from '../utils/logger.ts'
-import { getServerState, loadState } from '../state.ts'
+import {
+  getServerState,
+  loadState,
+  saveState,
+  updateServerSessionInfo,
+} from '../state.ts'
+import {
+  getEnvFilePath,
+  getHttpEndpointPath,
+  isHttpServer,
+  isNativeServer,
+  isRemoteServer,
+} from '../config.ts'
+import { buildInteractiveRunArgs, getSecurityArgs } from './docker-service.ts'
+import { getEgressArgs } from './egress-service.ts'
+import { getAuthHeaders } from './auth-token-service.ts'
+import { resolveServerImage } from './image-lock-service.ts'
+import { resolveSecretEnv } from './secret-service.ts'
+import { getContainerCommand } from './container-runtime-service.ts'
+import { buildNativeCommand, getNativeEnv } from './native-launcher-service.ts'
+import { resolveRemoteEndpoint } from './remote-server-service.ts'
+import {
+  createSseTransport,
+  createStdioTransport,
+  createStreamableHttpTransport,
+  type McpSession,
+  openMcpSession,
+} from './mcp-session-service.ts'
 
 /**
  * Check if a port is responding to HTTP requests
@@ -15,7 +43,7 @@ import { getServerState, loadState } from '../state.ts'
  *
  * @param host Host to check (usually localhost)
  * @param port Port to check
- * @param path Path to check (defaults to /sse for MCP servers)
+ * @param path Path to check (defaults to /sse for legacy SSE MCP servers, pass /mcp for Streamable HTTP)
  * @param timeoutMs Timeout in milliseconds
  * @returns True if port is open and responding, false otherwise
  */
@@ -30,13 +58,16 @@ async function isPortOpen(
     const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
 
     const url = `http://${host}:${port}${path}`
-    const _response = await fetch(url, {
+    const response = await fetch(url, {
       method: 'GET',
       signal: controller.signal,
     })
 
     clearTimeout(timeoutId)
 
+    // Don't keep SSE streams open, the status line is all we need
+    await response.body?.cancel()
+
     // Any response means the port is open
     return true
   } catch (_error) {
@@ -46,42 +77,13 @@ async function isPortOpen(
 }
 
 /**
- * Generate a unique request ID for JSON-RPC requests
- */
-function generateRequestId(): number {
-  return Math.floor(Math.random() * 10000) + 1
-}
-
-/**
- * Create a JSON-RPC 2.0 request object
- */
-function createJsonRpcRequest(
-  method: string,
-  params: Record<string, unknown>,
-): Record<string, unknown> {
-  return {
-    jsonrpc: '2.0',
-    id: generateRequestId(),
-    method,
-    params,
-  }
-}
-
-/**
- * Perform health validation for an HTTP server
+ * Resolve the port of an HTTP server from the state file or its args
+ *
+ * @param server HTTP server configuration
+ * @returns Port the server should be listening on
  */
-async function validateHttpHealth(
-  server: McpServerConfig,
-  validator: HealthValidatorConfig,
-): Promise<boolean> {
-  if (server.type !== 'http') {
-    logger.error(`Server ${server.name} is not an HTTP server`)
-    return false
-  }
-
+async function resolveHttpPort(server: McpServerConfig): Promise<number> {
   // First, try to get the port from the state file
-  let port: number | undefined = undefined
-
   try {
     const state = await loadState()
     const serverState = getServerState(state, server.name)
@@ -89,8 +91,9 @@ async function validateHttpHealth(
     if (serverState?.endpoint) {
       const portMatch = serverState.endpoint.match(/:(\d+)\//)
       if (portMatch?.[1]) {
-        port = Number.parseInt(portMatch[1], 10)
+        const port = Number.parseInt(portMatch[1], 10)
         logger.debug(`Using port ${port} from state file for ${server.name}`)
+        return port
       }
     }
   } catch (error) {
@@ -98,74 +101,160 @@ async function validateHttpHealth(
   }
 
   // If not found in state, extract port from server args
-  if (!port) {
-    port = 9000 // Default port
-    for (let i = 0; i < server.args.length - 1; i++) {
-      if (server.args[i] === '--port') {
-        const parsedPort = Number.parseInt(server.args[i + 1], 10)
-        if (!Number.isNaN(parsedPort)) {
-          port = parsedPort
-          logger.debug(`Using port ${port} from server args for ${server.name}`)
-          break
-        }
+  for (let i = 0; i < server.args.length - 1; i++) {
+    if (server.args[i] === '--port') {
+      const parsedPort = Number.parseInt(server.args[i + 1], 10)
+      if (!Number.isNaN(parsedPort)) {
+        logger.debug(
+          `Using port ${parsedPort} from server args for ${server.name}`,
+        )
+        return parsedPort
       }
     }
   }
 
-  const timeoutMs = validator.timeoutMs || 5000
-
-  try {
-    const endpoint = `http://localhost:${port}/sse`
-    const rpcRequest = createJsonRpcRequest(validator.method, validator.params)
-
-    logger.debug(
-      `Sending health validation request to ${endpoint}:`,
-      rpcRequest,
-    )
+  return 9000 // Default port
+}
 
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+/**
+ * Run the configured probe method in an initialized session and record the
+ * negotiated session details in the state file
+ *
+ * @param server MCP server configuration
+ * @param session Initialized MCP session
+ * @param validator Health validator configuration
+ * @returns True if the probe succeeded, false otherwise
+ */
+async function runHealthProbe(
+  server: McpServerConfig,
+  session: McpSession,
+  validator: HealthValidatorConfig,
+): Promise<boolean> {
+  const state = await loadState()
+  await saveState(
+    updateServerSessionInfo(state, server.name, {
+      protocolVersion: session.protocolVersion,
+      serverInfo: session.serverInfo,
+      capabilities: session.capabilities,
+      initializedOn: new Date().toISOString(),
+    }),
+  )
+
+  const result = await session.request(validator.method, validator.params)
+  logger.debug('Health validation response:', result)
+
+  // Check for required response content if specified
+  if (validator.responseContains) {
+    const responseStr = JSON.stringify(result)
+    if (!responseStr.includes(validator.responseContains)) {
+      logger.error(
+        `Response does not contain required string: "${validator.responseContains}"`,
+      )
+      return false
+    }
+  }
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(rpcRequest),
-      signal: controller.signal,
-    })
+  return true
+}
 
-    clearTimeout(timeoutId)
+/**
+ * Open an initialized MCP session with a server, connecting to a running or
+ * remote HTTP server or spawning a STDIO container the same way Cursor will
+ *
+ * @param server MCP server configuration
+ * @param timeoutMs Timeout for each request, defaults to 5s for HTTP and 10s for STDIO
+ * @param target Port of an HTTP server or image of a STDIO server to use instead of the server's own, e.g. to preview a new image
+ * @returns Initialized session, the caller must close it
+ * @throws {Error} If the server can't be reached or the handshake fails
+ */
+async function openServerSession(
+  server: McpServerConfig,
+  timeoutMs?: number,
+  target: { port?: number; image?: string } = {},
+): Promise<McpSession> {
+  if (isHttpServer(server)) {
+    // Hosted servers are reached at their own URL with their own headers
+    const remote = isRemoteServer(server)
+      ? await resolveRemoteEndpoint(server)
+      : undefined
+    const endpoint = remote?.url ??
+      `http://localhost:${target.port ?? await resolveHttpPort(server)}${
+        getHttpEndpointPath(server)
+      }`
+    const httpTimeoutMs = timeoutMs || 5000
+
+    logger.debug(`Opening MCP session with ${server.name} at ${endpoint}`)
+    const headers = remote?.headers ?? await getAuthHeaders(server)
+    const transport = server.type === 'streamable-http'
+      ? createStreamableHttpTransport(endpoint, { headers })
+      : await createSseTransport(endpoint, {
+        headers,
+        timeoutMs: httpTimeoutMs,
+      })
+    return await openMcpSession(transport, { timeoutMs: httpTimeoutMs })
+  }
 
-    if (!response.ok) {
-      logger.error(`HTTP error: ${response.status} ${response.statusText}`)
-      return false
-    }
+  if (server.type !== 'stdio') {
+    throw new Error(
+      `Unknown server type (expected 'http', 'streamable-http' or 'stdio')`,
+    )
+  }
 
-    const responseData = await response.json()
-    logger.debug('Health validation response:', responseData)
+  if (isNativeServer(server)) {
+    const { command, args, cwd } = buildNativeCommand(server)
+    logger.debug(`Opening MCP session with ${server.name} over STDIO`)
+    const transport = createStdioTransport(command, args, {
+      env: await getNativeEnv(server),
+      cwd,
+    })
+    return await openMcpSession(transport, { timeoutMs: timeoutMs || 10000 })
+  }
 
-    // Check for JSON-RPC error
-    if (responseData.error) {
-      logger.error(`JSON-RPC error: ${JSON.stringify(responseData.error)}`)
-      return false
-    }
+  // Run the container the same way Cursor will
+  const envFile = getEnvFilePath(server.name)
+  const secretEnv = await resolveSecretEnv(envFile)
+  const dockerArgs = buildInteractiveRunArgs({
+    imageName: target.image ?? await resolveServerImage(server),
+    args: server.args,
+    envFile,
+    secretEnvNames: Object.keys(secretEnv),
+    securityArgs: getSecurityArgs(server),
+    networkArgs: await getEgressArgs(server),
+  })
+
+  logger.debug(`Opening MCP session with ${server.name} over STDIO`)
+  const transport = createStdioTransport(
+    await getContainerCommand(),
+    dockerArgs,
+    {
+      env: secretEnv,
+    },
+  )
+  return await openMcpSession(transport, { timeoutMs: timeoutMs || 10000 })
+}
 
-    // Check for required response content if specified
-    if (validator.responseContains) {
-      const responseStr = JSON.stringify(responseData)
-      if (!responseStr.includes(validator.responseContains)) {
-        logger.error(
-          `Response does not contain required string: "${validator.responseContains}"`,
-        )
-        return false
-      }
-    }
+/**
+ * Perform health validation for an HTTP server, using the legacy SSE
+ * transport or the Streamable HTTP transport depending on the server type
+ */
+async function validateHttpHealth(
+  server: McpServerConfig,
+  validator: HealthValidatorConfig,
+): Promise<boolean> {
+  if (!isHttpServer(server)) {
+    logger.error(`Server ${server.name} is not an HTTP server`)
+    return false
+  }
 
-    return true
+  let session: McpSession | undefined
+  try {
+    session = await openServerSession(server, validator.timeoutMs)
+    return await runHealthProbe(server, session, validator)
   } catch (error) {
     logger.error(`Error validating HTTP health for ${server.name}:`, error)
     return false
+  } finally {
+    await session?.close()
   }
 }
 
@@ -181,108 +270,15 @@ async function validateStdioHealth(
     return false
   }
 
+  let session: McpSession | undefined
   try {
-    const rpcRequest = createJsonRpcRequest(validator.method, validator.params)
-    const requestJson = JSON.stringify(rpcRequest)
-
-    logger.debug(
-      `Validating STDIO health for ${server.name} with request:`,
-      rpcRequest,
-    )
-
-    const timeoutMs = validator.timeoutMs || 10000
-
-    // Prepare command arguments
-    const dockerArgs = [
-      'run',
-      '--rm',
-      '-e',
-      `TIMEOUT_MS=${timeoutMs}`,
-      ...(server.args || []),
-    ]
-
-    // Add the image as the last argument
-    dockerArgs.push(server.image)
-
-    // Run the Docker command and pipe the request to stdin
-    const command = new Deno.Command('docker', {
-      args: dockerArgs,
-      stdin: 'piped',
-      stdout: 'piped',
-      stderr: 'piped',
-    })
-
-    const process = command.spawn()
-
-    // Write the JSON-RPC request to stdin
-    const writer = process.stdin.getWriter()
-    const encoder = new TextEncoder()
-    await writer.write(encoder.encode(`${requestJson}\n`))
-    await writer.close()
-
-    // Wait for the command to complete
-    const { code, stdout, stderr } = await process.output()
-
-    const stdoutText = new TextDecoder().decode(stdout)
-    const stderrText = new TextDecoder().decode(stderr)
-
-    if (code !== 0) {
-      logger.error(
-        `Docker command failed with exit code ${code}: ${stderrText}`,
-      )
-      return false
-    }
-
-    logger.debug('STDIO validation response:', stdoutText)
-
-    // Parse the JSON-RPC response from stdout
-    // Look for the first valid JSON object in the output (may contain log lines)
-    let responseData: Record<string, unknown> | null = null
-    try {
-      const jsonLines = stdoutText.split('\n')
-        .filter((line: string) => line.trim().startsWith('{'))
-
-      for (const line of jsonLines) {
-        try {
-          const parsedData = JSON.parse(line) as Record<string, unknown>
-          if (parsedData.id === rpcRequest.id) {
-            responseData = parsedData
-            break
-          }
-        } catch {
-          // Skip invalid JSON lines
-        }
-      }
-
-      if (!responseData) {
-        throw new Error('No valid JSON response found in output')
-      }
-    } catch (parseError) {
-      logger.error('Failed to parse JSON response:', parseError)
-      return false
-    }
-
-    // Check for JSON-RPC error
-    if (responseData.error) {
-      logger.error(`JSON-RPC error: ${JSON.stringify(responseData.error)}`)
-      return false
-    }
-
-    // Check for required response content if specified
-    if (validator.responseContains) {
-      const responseStr = JSON.stringify(responseData)
-      if (!responseStr.includes(validator.responseContains)) {
-        logger.error(
-          `Response does not contain required string: "${validator.responseContains}"`,
-        )
-        return false
-      }
-    }
-
-    return true
+    session = await openServerSession(server, validator.timeoutMs)
+    return await runHealthProbe(server, session, validator)
   } catch (error) {
     logger.error(`Error validating STDIO health for ${server.name}:`, error)
     return false
+  } finally {
+    await session?.close()
   }
 }
 
@@ -307,7 +303,7 @@ async function validateServerHealth(
     return true
   }
 
-  if (server.type === 'http') {
+  if (isHttpServer(server)) {
     return validateHttpHealth(server, server.healthValidator)
   }
 
@@ -317,9 +313,11 @@ async function validateServerHealth(
 
   // If we get here, there's an invalid server type
   if (!options?.silent) {
-    logger.error(`Unknown server type (expected 'http' or 'stdio')`)
+    logger.error(
+      `Unknown server type (expected 'http', 'streamable-http' or 'stdio')`,
+    )
   }
   return false
 }
 
-export { isPortOpen, validateServerHealth }
+export { isPortOpen, openServerSession, validateServerHealth }
@@ -0,0 +1,107 @@
+/**
+ * Image history service
+ *
+ * Remembers the images `update` and `rollback` replaced so a server can be
+ * rolled back. Each replaced digest is tagged locally as
+ * `mcp-manager/<name>:sha256-<digest prefix>`, so `docker image prune` keeps
+ * it, and the most recent one also as `mcp-manager/<name>:previous`. The list
+ * itself is kept under `imageHistory` in the state file.
+ *
+ * @module services/image-history-service
+ */
+import logger from '../utils/logger.ts'
+import { getAppConfig } from '../config.ts'
+import type {
+  McpImageHistoryEntry,
+  McpImageLock,
+  McpServerConfig,
+} from '../types.ts'
+import {
+  getServerState,
+  loadState,
+  saveState,
+  updateServerImageHistory,
+} from '../state.ts'
+import { removeDockerImageTag, tagDockerImage } from './docker-service.ts'
+
+/**
+ * Get the local tag that keeps a replaced image from being pruned
+ *
+ * @param name Name of the server
+ * @param digest Digest reference of the image
+ * @returns Tag, e.g. `mcp-manager/mcp-slack:sha256-1a2b3c4d5e6f`
+ */
+function getImageHistoryTag(name: string, digest: string): string {
+  const hash = (digest.split('@')[1] ?? digest).replace(':', '-')
+  return `mcp-manager/${name}:${hash.slice(0, 19)}`
+}
+
+/**
+ * Get the local tag of the image a server ran before its last update
+ *
+ * @param name Name of the server
+ * @returns Tag, e.g. `mcp-manager/mcp-slack:previous`
+ */
+function getPreviousImageTag(name: string): string {
+  return `mcp-manager/${name}:previous`
+}
+
+/**
+ * Get the images a server ran before, most recent first
+ *
+ * @param name Name of the server
+ * @returns Image history from the state file
+ */
+async function getImageHistory(name: string): Promise<McpImageHistoryEntry[]> {
+  return getServerState(await loadState(), name)?.imageHistory ?? []
+}
+
+/**
+ * Record that a server moved from one image to another. The replaced image is
+ * tagged and put first in the history, which is trimmed to
+ * `IMAGE_HISTORY_LIMIT` entries, untagging the ones that fall off
+ *
+ * @param server Server configuration
+ * @param replaced Image the server ran until now
+ * @param current Image the server runs from now on, removed from the history
+ */
+async function recordReplacedImage(
+  server: McpServerConfig,
+  replaced: McpImageLock,
+  current: McpImageLock,
+): Promise<void> {
+  const { name } = server
+  const limit = Math.max(
+    1,
+    Number((await getAppConfig()).IMAGE_HISTORY_LIMIT) || 5,
+  )
+
+  await tagDockerImage(
+    replaced.digest,
+    getImageHistoryTag(name, replaced.digest),
+  )
+  await tagDockerImage(replaced.digest, getPreviousImageTag(name))
+
+  const state = await loadState()
+  const history = [
+    { ...replaced, replacedOn: new Date().toISOString() },
+    ...(getServerState(state, name)?.imageHistory ?? []).filter((entry) =>
+      entry.digest !== replaced.digest && entry.digest !== current.digest
+    ),
+  ]
+
+  for (const dropped of history.slice(limit)) {
+    logger.debug(`Dropping ${dropped.digest} from ${name}'s image history`)
+    await removeDockerImageTag(getImageHistoryTag(name, dropped.digest))
+  }
+  await saveState(
+    updateServerImageHistory(state, name, history.slice(0, limit)),
+  )
+}
+
+export {
+  getImageHistory,
+  getImageHistoryTag,
+  getPreviousImageTag,
+  recordReplacedImage,
+}
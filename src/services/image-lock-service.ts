@@ -0,0 +1,257 @@
+/**
+ * Image lock service
+ *
+ * Keeps `mcp.lock`, which records the registry digest every server's image
+ * tag resolved to. Containers are run by digest, so everyone sharing the
+ * workspace runs the same code even when a tag like `:latest` moves. `update`
+ * is the only thing that writes it: `start` runs a server that isn't locked,
+ * or whose configured image changed, by its tag until it's updated.
+ *
+ * @module services/image-lock-service
+ */
+import { exists } from '@std/fs'
+import { join } from '@std/path'
+import logger from '../utils/logger.ts'
+import { getWorkspacePath } from '../config.ts'
+import type {
+  McpImageLock,
+  McpImageLockFile,
+  McpServerConfig,
+} from '../types.ts'
+import {
+  getImageDigest,
+  getImageVersion,
+  isDockerImagePulled,
+  pullDockerImage,
+} from './docker-service.ts'
+
+/**
+ * How a server's lock entry changed, see diffImageLocks
+ */
+interface ImageLockChange {
+  name: string
+  before?: McpImageLock
+  after?: McpImageLock
+}
+
+/**
+ * Get the path to the lock file
+ *
+ * @returns Absolute path to `mcp.lock` in the workspace
+ */
+function getImageLockPath(): string {
+  return join(getWorkspacePath(), 'mcp.lock')
+}
+
+/**
+ * Load the lock file
+ *
+ * @returns The lock file, empty if it doesn't exist yet
+ */
+async function loadImageLock(): Promise<McpImageLockFile> {
+  const path = getImageLockPath()
+  if (!(await exists(path))) return { version: 1, servers: {} }
+  return JSON.parse(await Deno.readTextFile(path)) as McpImageLockFile
+}
+
+/**
+ * Save the lock file, with servers sorted by name to keep diffs small
+ *
+ * @param lock Lock file to save
+ */
+async function saveImageLock(lock: McpImageLockFile): Promise<void> {
+  const servers = Object.fromEntries(
+    Object.entries(lock.servers).sort(([a], [b]) => a.localeCompare(b)),
+  )
+  await Deno.writeTextFile(
+    getImageLockPath(),
+    `${JSON.stringify({ ...lock, servers }, null, 2)}\n`,
+  )
+}
+
+/**
+ * Set or remove a server's lock entry
+ *
+ * @param lock Current lock file
+ * @param name Name of the server
+ * @param entry New entry, undefined to remove the server
+ * @returns Updated lock file
+ */
+function setImageLockEntry(
+  lock: McpImageLockFile,
+  name: string,
+  entry: McpImageLock | undefined,
+): McpImageLockFile {
+  const { [name]: _previous, ...servers } = lock.servers
+  return { ...lock, servers: entry ? { ...servers, [name]: entry } : servers }
+}
+
+/**
+ * Get a server's lock entry, only if it was locked from the configured image
+ *
+ * @param lock Lock file
+ * @param server Server configuration
+ * @returns The entry, undefined if the server isn't locked or its image changed
+ */
+function getLockedImage(
+  lock: McpImageLockFile,
+  server: McpServerConfig,
+): McpImageLock | undefined {
+  const entry = lock.servers[server.name]
+  return entry?.image === server.image ? entry : undefined
+}
+
+/**
+ * Find the servers whose lock entry is missing or doesn't match their config
+ *
+ * @param lock Lock file
+ * @param servers Server configurations
+ * @returns One message per disagreeing server, empty when they all match
+ */
+function findImageLockMismatches(
+  lock: McpImageLockFile,
+  servers: McpServerConfig[],
+): string[] {
+  return servers.flatMap((server) => {
+    // Native servers run from their launcher's package, not an image
+    if (!server.image) return []
+    const entry = lock.servers[server.name]
+    if (!entry) return [`${server.name} is not in mcp.lock`]
+    if (entry.image !== server.image) {
+      return [
+        `${server.name} is configured with ${server.image} but mcp.lock has ${entry.image}`,
+      ]
+    }
+    return []
+  })
+}
+
+/**
+ * Get the image reference to run a server with
+ *
+ * @param server Server configuration
+ * @returns The locked digest reference, or the configured image if it isn't locked
+ * @throws {Error} If the server has no image because it runs natively
+ */
+async function resolveServerImage(server: McpServerConfig): Promise<string> {
+  if (!server.image) {
+    throw new Error(`${server.name} has no image, it runs natively`)
+  }
+  return getLockedImage(await loadImageLock(), server)?.digest ?? server.image
+}
+
+/**
+ * Record the digest the configured image currently resolves to locally
+ *
+ * @param server Server configuration, its image must have been pulled
+ * @returns The new entry, undefined if the image has no registry digest or the server has no image
+ */
+async function lockServerImage(
+  server: McpServerConfig,
+): Promise<McpImageLock | undefined> {
+  if (!server.image) return undefined
+  const digest = await getImageDigest(server.image)
+  if (!digest) {
+    logger.warn(
+      `${server.image} has no registry digest (built locally?), ${server.name} is not locked`,
+    )
+    return undefined
+  }
+
+  const version = await getImageVersion(server.image)
+  const entry: McpImageLock = {
+    image: server.image,
+    digest,
+    ...(version !== undefined && { version }),
+    lockedOn: new Date().toISOString(),
+  }
+  await saveImageLock(
+    setImageLockEntry(await loadImageLock(), server.name, entry),
+  )
+  return entry
+}
+
+/**
+ * Make sure the image a server runs is available locally. A locked server
+ * pulls its digest, an unlocked one pulls its tag and runs it unlocked, only
+ * `update` writes the lock
+ *
+ * @param server Server configuration
+ * @returns True if the image is available, always for native servers
+ */
+async function ensureServerImage(server: McpServerConfig): Promise<boolean> {
+  if (!server.image) return true
+  const lock = await loadImageLock()
+  const locked = getLockedImage(lock, server)
+
+  if (locked) {
+    return await isDockerImagePulled(locked.digest) ||
+      await pullDockerImage(locked.digest)
+  }
+
+  const previous = lock.servers[server.name]
+  logger.warn(
+    previous
+      ? `${server.name}'s image changed from ${previous.image} to ${server.image}, running it unlocked. Run \`deno task update --server=${server.name}\` to review and lock the new image`
+      : `${server.name} is not in mcp.lock, running ${server.image} unlocked. Run \`deno task update --server=${server.name}\` to lock it`,
+  )
+  return await isDockerImagePulled(server.image) ||
+    await pullDockerImage(server.image)
+}
+
+/**
+ * Compare two versions of the lock file
+ *
+ * @param before Lock file before the change
+ * @param after Lock file after the change
+ * @returns Servers whose digest was added, removed or changed, sorted by name
+ */
+function diffImageLocks(
+  before: McpImageLockFile,
+  after: McpImageLockFile,
+): ImageLockChange[] {
+  const names = [
+    ...new Set([
+      ...Object.keys(before.servers),
+      ...Object.keys(after.servers),
+    ]),
+  ].sort()
+
+  return names.flatMap((name): ImageLockChange[] => {
+    const old = before.servers[name]
+    const now = after.servers[name]
+    if (old?.digest === now?.digest) return []
+    return [{
+      name,
+      ...(old !== undefined && { before: old }),
+      ...(now !== undefined && { after: now }),
+    }]
+  })
+}
+
+/**
+ * Describe a lock entry in one line, e.g. `sha256:1a2b3c4d5e6f (1.2.0)`
+ *
+ * @param entry Lock entry
+ * @returns Short digest and version
+ */
+function formatImageLock(entry: McpImageLock | undefined): string {
+  if (!entry) return 'none'
+  const digest = entry.digest.split('@')[1] ?? entry.digest
+  return `${digest.slice(0, 19)}${entry.version ? ` (${entry.version})` : ''}`
+}
+
+export {
+  diffImageLocks,
+  ensureServerImage,
+  findImageLockMismatches,
+  formatImageLock,
+  getImageLockPath,
+  getLockedImage,
+  loadImageLock,
+  lockServerImage,
+  resolveServerImage,
+  saveImageLock,
+  setImageLockEntry,
+}
+export type { ImageLockChange }
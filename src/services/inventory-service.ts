@@ -0,0 +1,132 @@
+/**
+ * Inventory service
+ *
+ * Lists everything an MCP server exposes (tools, resources and prompts) over an
+ * initialized session, following `nextCursor` until every page has been read
+ *
+ * @module services/inventory-service
+ */
+import type {
+  Cursor,
+  GetPromptResult,
+  ListPromptsResult,
+  ListResourcesResult,
+  ListToolsResult,
+  PaginatedResult,
+  Prompt,
+  Resource,
+  Tool,
+} from '../../vendor/mcp-specification.ts'
+import type { McpSession } from './mcp-session-service.ts'
+import logger from '../utils/logger.ts'
+
+/**
+ * Stop paging after this many pages, in case a server keeps returning a cursor
+ */
+const MAX_PAGES = 100
+
+/**
+ * Everything a server exposes
+ */
+interface ServerInventory {
+  tools: Tool[]
+  resources: Resource[]
+  prompts: Prompt[]
+}
+
+/**
+ * Request every page of a paginated list method
+ *
+ * @param session Initialized MCP session
+ * @param method List method, e.g. `tools/list`
+ * @param getItems Picks the items out of a page
+ * @returns Items from every page, in the order the server returned them
+ */
+async function listAllPages<R extends PaginatedResult, T>(
+  session: McpSession,
+  method: string,
+  getItems: (page: R) => T[] | undefined,
+): Promise<T[]> {
+  const items: T[] = []
+  const seenCursors = new Set<Cursor>()
+  let cursor: Cursor | undefined
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await session.request<R>(
+      method,
+      cursor !== undefined ? { cursor } : undefined,
+    )
+    items.push(...getItems(result) ?? [])
+
+    cursor = result.nextCursor
+    if (cursor === undefined) return items
+    if (seenCursors.has(cursor)) {
+      logger.warn(`${method} returned cursor ${cursor} twice, stopping`)
+      return items
+    }
+    seenCursors.add(cursor)
+  }
+
+  logger.warn(`${method} still had more results after ${MAX_PAGES} pages`)
+  return items
+}
+
+/**
+ * List the tools, resources and prompts of a server. Lists for capabilities
+ * the server didn't advertise are left empty rather than requested
+ *
+ * @param session Initialized MCP session
+ * @returns The server's inventory
+ */
+async function getServerInventory(
+  session: McpSession,
+): Promise<ServerInventory> {
+  const { capabilities } = session
+
+  return {
+    tools: capabilities.tools
+      ? await listAllPages<ListToolsResult, Tool>(
+        session,
+        'tools/list',
+        (page) => page.tools,
+      )
+      : [],
+    resources: capabilities.resources
+      ? await listAllPages<ListResourcesResult, Resource>(
+        session,
+        'resources/list',
+        (page) => page.resources,
+      )
+      : [],
+    prompts: capabilities.prompts
+      ? await listAllPages<ListPromptsResult, Prompt>(
+        session,
+        'prompts/list',
+        (page) => page.prompts,
+      )
+      : [],
+  }
+}
+
+/**
+ * Get the messages of a prompt template without filling it in, every
+ * argument is passed as a `{name}` placeholder
+ *
+ * @param session Initialized MCP session
+ * @param prompt Prompt from `prompts/list`
+ * @returns The templated messages
+ */
+async function getPromptTemplate(
+  session: McpSession,
+  prompt: Prompt,
+): Promise<GetPromptResult> {
+  return await session.request<GetPromptResult>('prompts/get', {
+    name: prompt.name,
+    arguments: Object.fromEntries(
+      (prompt.arguments ?? []).map((arg) => [arg.name, `{${arg.name}}`]),
+    ),
+  })
+}
+
+export { getPromptTemplate, getServerInventory, listAllPages }
+export type { ServerInventory }
@@ -0,0 +1,177 @@
+/**
+ * MCP Client Service
+ *
+ * Adapter layer for the MCP clients whose configuration files the manager can
+ * keep in sync (Cursor, Windsurf and Claude Desktop). Each adapter knows where
+ * its client's config file lives and how to translate the Cursor-style entry
+ * produced by the orchestrator into the format that client understands.
+ * Only Cursor supports a project-level config, so the `project` scope resolves
+ * to the workspace's `.cursor/mcp.json` and skips every other client.
+ *
+ * @module services/mcp-client-service
+ */
+
+import { exists } from '@std/fs'
+import { dirname } from '@std/path'
+import { getAppConfig } from '../config.ts'
+import logger from '../utils/logger.ts'
+import type {
+  CursorMcpEntry,
+  McpClientEntry,
+  McpClientId,
+  McpConfigScope,
+  McpServerConfig,
+} from '../types.ts'
+
+/**
+ * Result of formatting an entry for a client
+ * - `entry`: the entry to write, or null if the client can't run this server
+ * - `reason`: why the entry is unsupported, when `entry` is null
+ */
+interface McpClientEntryResult {
+  entry: McpClientEntry | null
+  reason?: string
+}
+
+/**
+ * Adapter describing how to sync a single MCP client's config file
+ */
+interface McpClientAdapter {
+  /** Identifier used for per-server preferences in the state file */
+  id: McpClientId
+  /** Human friendly client name used in prompts and logs */
+  displayName: string
+  /** App config key holding the path to the client's global config file */
+  configPathKey: string
+  /** App config key holding the path to the client's project config file, if supported */
+  projectConfigPathKey?: string
+  /**
+   * Whether the client is managed even if its config directory doesn't exist yet.
+   * Cursor is the primary client, the others are only synced once installed.
+   */
+  alwaysDetected: boolean
+  /** Translate a Cursor-style entry into this client's format */
+  formatEntry: (
+    entry: CursorMcpEntry,
+    server: McpServerConfig,
+  ) => McpClientEntryResult
+}
+
+/**
+ * An adapter whose config file path has been resolved for this machine
+ */
+interface DetectedMcpClient extends McpClientAdapter {
+  /** Absolute path to the client's MCP config file for the detected scope */
+  configPath: string
+  /** Scope the config path belongs to */
+  scope: McpConfigScope
+}
+
+const MCP_CLIENT_ADAPTERS: McpClientAdapter[] = [
+  {
+    id: 'cursor',
+    displayName: 'Cursor',
+    configPathKey: 'CURSOR_MCP_CONFIG_PATH',
+    projectConfigPathKey: 'CURSOR_PROJECT_MCP_CONFIG_PATH',
+    alwaysDetected: true,
+    formatEntry: (entry) => ({ entry }),
+  },
+  {
+    id: 'windsurf',
+    displayName: 'Windsurf',
+    configPathKey: 'WINDSURF_MCP_CONFIG_PATH',
+    alwaysDetected: false,
+    // Windsurf expects `serverUrl` rather than `url` for HTTP servers
+    formatEntry: (entry) => ({
+      entry: 'url' in entry
+        ? {
+          serverUrl: entry.url,
+          ...(entry.headers !== undefined && { headers: entry.headers }),
+        }
+        : entry,
+    }),
+  },
+  {
+    id: 'claude',
+    displayName: 'Claude Desktop',
+    configPathKey: 'CLAUDE_MCP_CONFIG_PATH',
+    alwaysDetected: false,
+    // Claude Desktop only launches command-based servers and ignores `url` entries
+    formatEntry: (entry, server) =>
+      'url' in entry
+        ? {
+          entry: null,
+          reason:
+            `Claude Desktop does not support URL-based MCP servers, ${server.name} (${server.type}) will not be added`,
+        }
+        : { entry },
+  },
+]
+
+/**
+ * Get every MCP client adapter, whether or not the client is installed
+ *
+ * @returns All known client adapters
+ */
+function getMcpClientAdapters(): McpClientAdapter[] {
+  return [...MCP_CLIENT_ADAPTERS]
+}
+
+/**
+ * Get the MCP clients detected on this machine
+ *
+ * For the global scope a client is detected when its config path is configured
+ * and, for clients other than Cursor, the directory holding its config file
+ * already exists. For the project scope only clients with a project config
+ * (Cursor) are returned.
+ *
+ * @param scope Which config files to resolve (default: 'global')
+ * @returns Adapters with resolved config paths for each detected client
+ */
+async function getDetectedMcpClients(
+  scope: McpConfigScope = 'global',
+): Promise<DetectedMcpClient[]> {
+  const appConfig = await getAppConfig()
+  const detected: DetectedMcpClient[] = []
+
+  for (const adapter of MCP_CLIENT_ADAPTERS) {
+    if (scope === 'project') {
+      const configPath = adapter.projectConfigPathKey
+        ? appConfig[adapter.projectConfigPathKey]
+        : ''
+      if (!configPath) {
+        logger.debug(
+          `${adapter.displayName} has no project MCP config, skipping`,
+        )
+        continue
+      }
+
+      detected.push({ ...adapter, configPath, scope })
+      continue
+    }
+
+    const configPath = appConfig[adapter.configPathKey]
+    if (!configPath) {
+      logger.debug(
+        `${adapter.displayName} MCP config path not configured, skipping`,
+      )
+      continue
+    }
+
+    if (!adapter.alwaysDetected && !await exists(dirname(configPath))) {
+      logger.debug(
+        `${adapter.displayName} does not appear to be installed (${
+          dirname(configPath)
+        } not found), skipping`,
+      )
+      continue
+    }
+
+    detected.push({ ...adapter, configPath, scope })
+  }
+
+  return detected
+}
+
+export { getDetectedMcpClients, getMcpClientAdapters }
+export type { DetectedMcpClient, McpClientAdapter, McpClientEntryResult }
@@ -0,0 +1,582 @@
+/**
+ * MCP session service
+ *
+ * Runs the MCP session lifecycle (initialize, notifications/initialized, then
+ * regular requests) over the transports used by managed servers
+ *
+ * @module
+ */
+import type {
+  ClientCapabilities,
+  Implementation,
+  InitializeRequest,
+  InitializeResult,
+  JSONRPCError,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  Result,
+  ServerCapabilities,
+} from '../../vendor/mcp-specification.ts'
+import {
+  JSONRPC_VERSION,
+  LATEST_PROTOCOL_VERSION,
+} from '../../vendor/mcp-specification.ts'
+import logger from '../utils/logger.ts'
+import { parseSseStream } from '../utils/sse-parser.ts'
+import { getAppConfig } from '../config.ts'
+
+/**
+ * Protocol versions this client can speak, newest first
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = [LATEST_PROTOCOL_VERSION, '2024-11-05']
+
+/**
+ * Default timeout for a single request in milliseconds
+ */
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000
+
+/**
+ * A JSON-RPC response or error message received from a server
+ */
+type JsonRpcReply = JSONRPCResponse | JSONRPCError
+
+/**
+ * Transport used to exchange JSON-RPC messages with an MCP server
+ */
+interface McpTransport {
+  /** Send a request and wait for the matching response */
+  request(message: JSONRPCRequest, timeoutMs: number): Promise<JsonRpcReply>
+  /** Send a notification that expects no response */
+  notify(message: JSONRPCNotification): Promise<void>
+  /** Tear down the transport and release its resources */
+  close(): Promise<void>
+}
+
+/**
+ * An initialized MCP session
+ */
+interface McpSession {
+  /** Protocol version negotiated with the server */
+  protocolVersion: string
+  /** Capabilities advertised by the server */
+  capabilities: ServerCapabilities
+  /** Name and version reported by the server */
+  serverInfo: Implementation
+  /** Optional usage instructions reported by the server */
+  instructions?: string
+  /**
+   * Send a request within the session
+   *
+   * @throws {Error} If the server replies with a JSON-RPC error or times out
+   */
+  request<T extends Result = Result>(
+    method: string,
+    params?: Record<string, unknown>,
+  ): Promise<T>
+  /** Close the session and its transport */
+  close(): Promise<void>
+}
+
+/**
+ * Tracks in-flight requests and resolves them as replies arrive
+ */
+function createPendingRequests() {
+  const pending = new Map<
+    string | number,
+    { resolve: (reply: JsonRpcReply) => void; reject: (err: Error) => void }
+  >()
+
+  const wait = (
+    id: string | number,
+    timeoutMs: number,
+  ): Promise<JsonRpcReply> =>
+    new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        pending.delete(id)
+        reject(new Error(`Request ${id} timed out after ${timeoutMs}ms`))
+      }, timeoutMs)
+
+      pending.set(id, {
+        resolve: (reply) => {
+          clearTimeout(timeoutId)
+          resolve(reply)
+        },
+        reject: (err) => {
+          clearTimeout(timeoutId)
+          reject(err)
+        },
+      })
+    })
+
+  return {
+    /**
+     * Send a request and wait for its reply, failing after timeoutMs or as
+     * soon as sending fails. Sending is aborted through the signal once the
+     * request settles, so a POST still in flight after a timeout is dropped
+     */
+    async track(
+      id: string | number,
+      timeoutMs: number,
+      send: (signal: AbortSignal) => Promise<void>,
+    ): Promise<JsonRpcReply> {
+      const reply = wait(id, timeoutMs)
+      const sending = new AbortController()
+      // The reply can time out while send() is still blocked, so it's awaited
+      // right away instead of after send() returns
+      send(sending.signal).catch((error) => {
+        pending.get(id)?.reject(
+          error instanceof Error ? error : new Error(String(error)),
+        )
+        pending.delete(id)
+      })
+      try {
+        return await reply
+      } finally {
+        sending.abort()
+      }
+    },
+    /** Check whether a request is still waiting for its reply */
+    has(id: string | number): boolean {
+      return pending.has(id)
+    },
+    /** Route an incoming message to the request waiting for it */
+    dispatch(message: Record<string, unknown>): void {
+      const id = message.id as string | number | undefined
+      if (id === undefined || !('result' in message || 'error' in message)) {
+        logger.debug('Ignoring non-response message from server:', message)
+        return
+      }
+      const entry = pending.get(id)
+      if (!entry) {
+        logger.debug(`Ignoring response for unknown request ${id}`)
+        return
+      }
+      pending.delete(id)
+      entry.resolve(message as unknown as JsonRpcReply)
+    },
+    /** Fail every in-flight request */
+    rejectAll(err: Error): void {
+      for (const entry of pending.values()) entry.reject(err)
+      pending.clear()
+    },
+  }
+}
+
+/**
+ * Create a transport for servers using the legacy HTTP+SSE transport
+ *
+ * The client opens a GET event stream, waits for the `endpoint` event and then
+ * POSTs messages to that endpoint. Responses arrive on the event stream.
+ *
+ * @param url URL of the SSE endpoint (e.g. http://localhost:9000/sse)
+ * @param options Connection options
+ * @returns Connected transport
+ * @throws {Error} If the event stream cannot be opened or no endpoint is announced
+ */
+async function createSseTransport(
+  url: string,
+  options: { headers?: Record<string, string>; timeoutMs?: number } = {},
+): Promise<McpTransport> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  const controller = new AbortController()
+  const pending = createPendingRequests()
+
+  // Give up on a server that accepts the connection but never announces its
+  // endpoint, the timer is cleared once the endpoint event arrives
+  const connectTimeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: { Accept: 'text/event-stream', ...options.headers },
+    signal: controller.signal,
+  }).catch((error) => {
+    clearTimeout(connectTimeoutId)
+    throw controller.signal.aborted
+      ? new Error(`No response from ${url} within ${timeoutMs}ms`)
+      : error
+  })
+
+  if (!response.ok || !response.body) {
+    clearTimeout(connectTimeoutId)
+    controller.abort()
+    throw new Error(
+      `Could not open SSE stream at ${url}: ${response.status} ${response.statusText}`,
+    )
+  }
+
+  let resolveEndpoint: (endpoint: string) => void = () => {}
+  const endpointPromise = new Promise<string>((resolve) => {
+    resolveEndpoint = resolve
+  })
+
+  // Pump the event stream in the background for the lifetime of the transport
+  const events = parseSseStream(response.body)
+  const pump = (async () => {
+    try {
+      for await (const event of events) {
+        if (event.event === 'endpoint') {
+          resolveEndpoint(new URL(event.data, url).toString())
+          continue
+        }
+        if (event.event !== 'message') continue
+        try {
+          pending.dispatch(JSON.parse(event.data))
+        } catch {
+          logger.debug(`Ignoring invalid JSON on SSE stream: ${event.data}`)
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        pending.rejectAll(new Error(`SSE stream failed: ${error}`))
+      }
+    }
+  })()
+
+  let timeoutId: number | undefined
+  const endpoint = await Promise.race([
+    endpointPromise,
+    new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error(`No endpoint event received from ${url}`)),
+        timeoutMs,
+      )
+    }),
+  ]).catch((error) => {
+    controller.abort()
+    throw error
+  }).finally(() => {
+    clearTimeout(timeoutId)
+    clearTimeout(connectTimeoutId)
+  })
+
+  logger.debug(`SSE transport connected, posting messages to ${endpoint}`)
+
+  const post = async (
+    message: JSONRPCRequest | JSONRPCNotification,
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    const postResponse = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: JSON.stringify(message),
+      ...(signal ? { signal } : {}),
+    })
+    // The reply (if any) is delivered on the event stream
+    await postResponse.body?.cancel()
+    if (!postResponse.ok) {
+      throw new Error(
+        `HTTP error: ${postResponse.status} ${postResponse.statusText}`,
+      )
+    }
+  }
+
+  return {
+    request(message, requestTimeoutMs) {
+      return pending.track(
+        message.id,
+        requestTimeoutMs,
+        (signal) => post(message, signal),
+      )
+    },
+    notify: (message) => post(message),
+    async close() {
+      controller.abort()
+      pending.rejectAll(new Error('Transport closed'))
+      await pump
+    },
+  }
+}
+
+/**
+ * Create a transport for servers using the Streamable HTTP transport
+ *
+ * Every message is POSTed to the single MCP endpoint. The server answers a
+ * request either with a JSON body or by upgrading the response to an SSE
+ * stream that carries the reply. The `Mcp-Session-Id` header assigned during
+ * initialization is echoed on every subsequent request.
+ *
+ * @param url URL of the MCP endpoint (e.g. http://localhost:9000/mcp)
+ * @param options Connection options
+ * @returns Transport ready to send the initialize request
+ */
+function createStreamableHttpTransport(
+  url: string,
+  options: { headers?: Record<string, string> } = {},
+): McpTransport {
+  const pending = createPendingRequests()
+  const controller = new AbortController()
+  let sessionId: string | undefined
+
+  const buildHeaders = (): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    Accept: 'application/json, text/event-stream',
+    ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    ...options.headers,
+  })
+
+  const post = async (
+    message: JSONRPCRequest | JSONRPCNotification,
+    signal?: AbortSignal,
+  ): Promise<void> => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: buildHeaders(),
+      body: JSON.stringify(message),
+      signal: signal
+        ? AbortSignal.any([controller.signal, signal])
+        : controller.signal,
+    })
+
+    sessionId = response.headers.get('Mcp-Session-Id') ?? sessionId
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new Error(`HTTP error: ${response.status} ${response.statusText}`)
+    }
+
+    // Notifications are acknowledged with 202 Accepted and no body
+    if (response.status === 202 || !response.body) {
+      await response.body?.cancel()
+      return
+    }
+
+    const contentType = response.headers.get('Content-Type') ?? ''
+    if (contentType.includes('text/event-stream')) {
+      // Read the upgraded stream until the reply to this request arrives
+      for await (const event of parseSseStream(response.body)) {
+        if (event.event !== 'message') continue
+        try {
+          const data = JSON.parse(event.data)
+          for (const item of Array.isArray(data) ? data : [data]) {
+            pending.dispatch(item)
+          }
+          if ('id' in message && !pending.has(message.id)) break
+        } catch {
+          logger.debug(`Ignoring invalid JSON on SSE stream: ${event.data}`)
+        }
+      }
+      await response.body.cancel().catch(() => {})
+      return
+    }
+
+    const data = await response.json()
+    for (const item of Array.isArray(data) ? data : [data]) {
+      pending.dispatch(item)
+    }
+  }
+
+  return {
+    request(message, timeoutMs) {
+      return pending.track(
+        message.id,
+        timeoutMs,
+        (signal) => post(message, signal),
+      )
+    },
+    notify: (message) => post(message),
+    async close() {
+      pending.rejectAll(new Error('Transport closed'))
+      controller.abort()
+      // Explicitly end the server-side session, ignoring servers that don't support it
+      if (sessionId) {
+        await fetch(url, {
+          method: 'DELETE',
+          headers: { 'Mcp-Session-Id': sessionId, ...options.headers },
+        }).then((response) => response.body?.cancel()).catch(() => {})
+      }
+    },
+  }
+}
+
+/**
+ * Create a transport that speaks newline-delimited JSON-RPC over a child
+ * process's stdin/stdout, such as `docker run -i <image>`
+ *
+ * @param command Executable to spawn
+ * @param args Arguments for the executable
+ * @param options Spawn options
+ * @returns Connected transport
+ */
+function createStdioTransport(
+  command: string,
+  args: string[],
+  options: { env?: Record<string, string>; cwd?: string } = {},
+): McpTransport {
+  const pending = createPendingRequests()
+  const child = new Deno.Command(command, {
+    args,
+    stdin: 'piped',
+    stdout: 'piped',
+    stderr: 'piped',
+    ...(options.env ? { env: options.env } : {}),
+    ...(options.cwd ? { cwd: options.cwd } : {}),
+  }).spawn()
+
+  const writer = child.stdin.getWriter()
+  const encoder = new TextEncoder()
+  let stderrText = ''
+
+  // Drain stderr so the child never blocks on a full pipe
+  const stderrPump = (async () => {
+    for await (
+      const chunk of child.stderr.pipeThrough(new TextDecoderStream())
+    ) {
+      stderrText += chunk
+    }
+  })()
+
+  // Read stdout line by line, skipping any log output that is not JSON
+  const stdoutPump = (async () => {
+    let buffer = ''
+    for await (
+      const chunk of child.stdout.pipeThrough(new TextDecoderStream())
+    ) {
+      buffer += chunk
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+      for (const line of lines) {
+        if (!line.trim().startsWith('{')) continue
+        try {
+          pending.dispatch(JSON.parse(line))
+        } catch {
+          // Skip invalid JSON lines
+        }
+      }
+    }
+  })()
+
+  // Fail in-flight requests if the process exits early
+  child.status.then((status) => {
+    pending.rejectAll(
+      new Error(
+        `Process exited with code ${status.code}${
+          stderrText ? `: ${stderrText.trim()}` : ''
+        }`,
+      ),
+    )
+  })
+
+  const write = async (
+    message: JSONRPCRequest | JSONRPCNotification,
+  ): Promise<void> => {
+    await writer.write(encoder.encode(`${JSON.stringify(message)}\n`))
+  }
+
+  return {
+    request(message, timeoutMs) {
+      return pending.track(message.id, timeoutMs, () => write(message))
+    },
+    notify: write,
+    async close() {
+      // Closing stdin asks a well-behaved server to exit
+      await writer.close().catch(() => {})
+      const exited = await Promise.race([
+        child.status.then(() => true),
+        new Promise<boolean>((resolve) =>
+          setTimeout(() => resolve(false), 5000)
+        ),
+      ])
+      if (!exited) {
+        try {
+          child.kill('SIGTERM')
+        } catch {
+          // Process already exited
+        }
+      }
+      await Promise.allSettled([child.status, stdoutPump, stderrPump])
+    },
+  }
+}
+
+/**
+ * Run the MCP initialization handshake over a transport
+ *
+ * Sends `initialize`, checks that the negotiated protocol version is one we
+ * support, then sends `notifications/initialized`
+ *
+ * @param transport Connected transport
+ * @param options Session options
+ * @returns Initialized session
+ * @throws {Error} If the handshake fails or the protocol version is unsupported
+ */
+async function openMcpSession(
+  transport: McpTransport,
+  options: { timeoutMs?: number; capabilities?: ClientCapabilities } = {},
+): Promise<McpSession> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  let nextId = 1
+
+  const request = async <T extends Result = Result>(
+    method: string,
+    params?: Record<string, unknown>,
+  ): Promise<T> => {
+    const message: JSONRPCRequest = {
+      jsonrpc: JSONRPC_VERSION,
+      id: nextId++,
+      method,
+      ...(params ? { params } : {}),
+    }
+    logger.debug(`Sending MCP request ${method}:`, message)
+    const reply = await transport.request(message, timeoutMs)
+    if ('error' in reply) {
+      throw new Error(`JSON-RPC error: ${JSON.stringify(reply.error)}`)
+    }
+    return reply.result as T
+  }
+
+  const config = await getAppConfig()
+  const initializeParams: InitializeRequest['params'] = {
+    protocolVersion: LATEST_PROTOCOL_VERSION,
+    capabilities: options.capabilities ?? {},
+    clientInfo: {
+      name: config.PROJECT_NAME || 'cursor-mcp-manager',
+      version: config.PACKAGE_VERSION || '0.0.0',
+    },
+  }
+
+  try {
+    const result = await request<InitializeResult>(
+      'initialize',
+      initializeParams,
+    )
+
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+      throw new Error(
+        `Server requested unsupported protocol version ${result.protocolVersion} (supported: ${
+          SUPPORTED_PROTOCOL_VERSIONS.join(', ')
+        })`,
+      )
+    }
+
+    await transport.notify({
+      jsonrpc: JSONRPC_VERSION,
+      method: 'notifications/initialized',
+    })
+
+    logger.debug(
+      `Initialized MCP session with ${result.serverInfo?.name} ${result.serverInfo?.version} (protocol ${result.protocolVersion})`,
+    )
+
+    return {
+      protocolVersion: result.protocolVersion,
+      capabilities: result.capabilities ?? {},
+      serverInfo: result.serverInfo,
+      ...(result.instructions ? { instructions: result.instructions } : {}),
+      request,
+      close: () => transport.close(),
+    }
+  } catch (error) {
+    await transport.close()
+    throw error
+  }
+}
+
+export {
+  createSseTransport,
+  createStdioTransport,
+  createStreamableHttpTransport,
+  openMcpSession,
+  SUPPORTED_PROTOCOL_VERSIONS,
+}
+export type { McpSession, McpTransport }
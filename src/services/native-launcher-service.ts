@@ -0,0 +1,345 @@
+/**
+ * Native launcher service
+ *
+ * Runs servers that have a `launcher` as local processes instead of
+ * containers: `npx`, `uvx`, `deno run` or a binary, in the server's working
+ * directory with its env file, secret references resolved, in the environment.
+ *
+ * STDIO servers are spawned by MCP clients like container servers are. HTTP
+ * servers are started in the background with their output appended to
+ * `data/logs/<name>.log`, and their process id and start time are kept in the
+ * state file so `stop`, `status` and `health-check` find them again, and only
+ * them, if the id is later reused.
+ *
+ * @module services/native-launcher-service
+ */
+import { isAbsolute, join, resolve } from '@std/path'
+import logger from '../utils/logger.ts'
+import { readEnvFile } from '../utils/env-file.ts'
+import { getEnvFilePath, getWorkspacePath } from '../config.ts'
+import type { McpProcessInfo, McpServerConfig } from '../types.ts'
+import { isSecretReference, resolveSecretEnv } from './secret-service.ts'
+import { getAuthTokenEnv } from './auth-token-service.ts'
+
+/**
+ * Command line a native server is started with
+ */
+interface NativeCommand {
+  command: string
+  args: string[]
+  /** Absolute working directory */
+  cwd: string
+}
+
+/** How long `stop` waits for a process to exit before killing it */
+const STOP_TIMEOUT_MS = 5000
+/** How long `stop` waits for a killed process to be gone */
+const KILL_TIMEOUT_MS = 2000
+/** How far a process's start time may be from the recorded `startedOn` */
+const START_TIME_TOLERANCE_MS = 5000
+
+/**
+ * Build the command line of a native server
+ *
+ * @param server Server configuration with a `launcher`
+ * @returns Command, arguments and working directory
+ * @throws {Error} If the server has no `launcher`
+ */
+function buildNativeCommand(server: McpServerConfig): NativeCommand {
+  const { launcher } = server
+  if (!launcher) {
+    throw new Error(`${server.name} runs in a container, not as a process`)
+  }
+
+  const cwd = resolve(getWorkspacePath(), launcher.cwd ?? '.')
+  const launcherArgs = launcher.launcherArgs ?? []
+
+  switch (launcher.type) {
+    case 'npx':
+      return {
+        command: 'npx',
+        args: ['-y', ...launcherArgs, launcher.package, ...server.args],
+        cwd,
+      }
+    case 'uvx':
+      return {
+        command: 'uvx',
+        args: [...launcherArgs, launcher.package, ...server.args],
+        cwd,
+      }
+    case 'deno':
+      return {
+        command: 'deno',
+        args: ['run', ...launcherArgs, launcher.package, ...server.args],
+        cwd,
+      }
+    case 'binary':
+      return {
+        // Paths like ./bin/server are relative to the working directory
+        command: isAbsolute(launcher.package) || !launcher.package.includes('/')
+          ? launcher.package
+          : join(cwd, launcher.package),
+        args: [...launcherArgs, ...server.args],
+        cwd,
+      }
+  }
+}
+
+/**
+ * Get the environment a native server runs with: its env file, with secret
+ * references resolved, and the bearer token of servers with `authToken`
+ *
+ * @param server Server configuration
+ * @returns Variables to add to the process's environment
+ * @throws {Error} If a secret reference can't be resolved
+ */
+async function getNativeEnv(
+  server: McpServerConfig,
+): Promise<Record<string, string>> {
+  const envFile = getEnvFilePath(server.name)
+  const fileEnv = Object.fromEntries(
+    Object.entries(await readEnvFile(envFile) ?? {}).filter(([, value]) =>
+      !isSecretReference(value)
+    ),
+  )
+  return {
+    ...fileEnv,
+    ...await resolveSecretEnv(envFile),
+    ...await getAuthTokenEnv(server),
+  }
+}
+
+/**
+ * Get the file a native HTTP server's output is appended to
+ *
+ * @param name Name of the server
+ * @returns Absolute path in `data/logs`
+ */
+function getNativeLogPath(name: string): string {
+  return join(getWorkspacePath(), 'data', 'logs', `${name}.log`)
+}
+
+/**
+ * Start a native server in the background. The process outlives the CLI, its
+ * output is appended to its log file
+ *
+ * @param server Server configuration with a `launcher`
+ * @returns The started process, to record in the state file
+ * @throws {Error} If the process can't be spawned
+ */
+async function startNativeProcess(
+  server: McpServerConfig,
+): Promise<McpProcessInfo> {
+  const { command, args, cwd } = buildNativeCommand(server)
+  const logFile = getNativeLogPath(server.name)
+  await Deno.mkdir(join(getWorkspacePath(), 'data', 'logs'), {
+    recursive: true,
+  })
+  await Deno.writeTextFile(
+    logFile,
+    `\n--- ${new Date().toISOString()} ${command} ${args.join(' ')}\n`,
+    { append: true },
+  )
+
+  // Deno can't hand a file to a child as its stdout, so a shell redirects it.
+  // `exec` replaces the shell, keeping the recorded pid the server's own
+  const shell = Deno.build.os === 'windows'
+    ? {
+      command: 'cmd',
+      args: [
+        '/d',
+        '/s',
+        '/c',
+        `"${
+          [command, ...args].map((arg) => `"${arg}"`).join(' ')
+        } >> "${logFile}" 2>&1"`,
+      ],
+      windowsRawArguments: true,
+    }
+    : {
+      command: '/bin/sh',
+      args: [
+        '-c',
+        'log="$1"; shift; exec "$@" >> "$log" 2>&1',
+        'mcp-launcher',
+        logFile,
+        command,
+        ...args,
+      ],
+    }
+
+  const child = new Deno.Command(shell.command, {
+    args: shell.args,
+    cwd,
+    env: await getNativeEnv(server),
+    stdin: 'null',
+    stdout: 'null',
+    stderr: 'null',
+    ...('windowsRawArguments' in shell && { windowsRawArguments: true }),
+  }).spawn()
+  // Let the CLI exit while the server keeps running
+  child.unref()
+
+  logger.debug(`Started ${server.name} as pid ${child.pid}: ${command}`)
+  return { pid: child.pid, startedOn: new Date().toISOString(), logFile }
+}
+
+/**
+ * Get when a process was started
+ *
+ * @param pid Process id
+ * @returns Start time, undefined if no process has that id
+ */
+async function getProcessStartTime(pid: number): Promise<Date | undefined> {
+  try {
+    const { code, stdout } = Deno.build.os === 'windows'
+      ? await new Deno.Command('powershell', {
+        args: [
+          '-NoProfile',
+          '-Command',
+          `(Get-Process -Id ${pid}).StartTime.ToUniversalTime().ToString('o')`,
+        ],
+        stdout: 'piped',
+        stderr: 'null',
+      }).output()
+      : await new Deno.Command('ps', {
+        args: ['-o', 'lstart=', '-p', String(pid)],
+        // lstart is printed in local time, with English names only in the C locale
+        env: { LC_ALL: 'C' },
+        stdout: 'piped',
+        stderr: 'null',
+      }).output()
+    const text = new TextDecoder().decode(stdout).trim()
+    if (code !== 0 || !text) return undefined
+    const startedAt = new Date(text)
+    return Number.isNaN(startedAt.getTime()) ? undefined : startedAt
+  } catch (error) {
+    logger.debug(`Error getting the start time of process ${pid}:`, error)
+    return undefined
+  }
+}
+
+/**
+ * Check whether a native server's process is still running. The recorded pid
+ * only counts if the process with that id was started when the server was,
+ * after a reboot or once the pid is reused it belongs to something else
+ *
+ * @param processInfo Process recorded when the server was started
+ * @returns True if the server's own process exists
+ */
+async function isNativeProcessRunning(
+  { pid, startedOn }: McpProcessInfo,
+): Promise<boolean> {
+  const startedAt = await getProcessStartTime(pid)
+  if (!startedAt) return false
+  if (
+    Math.abs(startedAt.getTime() - Date.parse(startedOn)) >
+      START_TIME_TOLERANCE_MS
+  ) {
+    logger.debug(
+      `Process ${pid} was started on ${startedAt.toISOString()}, not ${startedOn}, it isn't the server's`,
+    )
+    return false
+  }
+  return true
+}
+
+/**
+ * Wait for a native server's process to exit
+ *
+ * @param processInfo Process recorded when the server was started
+ * @param timeoutMs How long to wait
+ * @returns True if the process is gone
+ */
+async function waitForNativeProcessExit(
+  processInfo: McpProcessInfo,
+  timeoutMs: number,
+): Promise<boolean> {
+  for (let waited = 0; waited < timeoutMs; waited += 250) {
+    await new Promise((resolve) => setTimeout(resolve, 250))
+    if (!await isNativeProcessRunning(processInfo)) return true
+  }
+  return false
+}
+
+/**
+ * Stop a native server's process, killing it if it doesn't exit in time. A
+ * process the pid was reused for is left alone
+ *
+ * @param processInfo Process recorded when the server was started
+ * @returns True if the process is gone
+ */
+async function stopNativeProcess(
+  processInfo: McpProcessInfo,
+): Promise<boolean> {
+  const { pid } = processInfo
+  if (!await isNativeProcessRunning(processInfo)) return true
+
+  try {
+    if (Deno.build.os === 'windows') {
+      await new Deno.Command('taskkill', {
+        args: ['/PID', String(pid), '/T', '/F'],
+        stdout: 'null',
+        stderr: 'null',
+      }).output()
+      return await waitForNativeProcessExit(processInfo, KILL_TIMEOUT_MS)
+    }
+
+    Deno.kill(pid, 'SIGTERM')
+    if (await waitForNativeProcessExit(processInfo, STOP_TIMEOUT_MS)) {
+      return true
+    }
+    logger.warn(`Process ${pid} didn't exit after SIGTERM, killing it`)
+    Deno.kill(pid, 'SIGKILL')
+    return await waitForNativeProcessExit(processInfo, KILL_TIMEOUT_MS)
+  } catch (error) {
+    // The process may have exited between the check and the signal
+    if (error instanceof Deno.errors.NotFound) return true
+    logger.error(`Error stopping process ${pid}:`, error)
+    return false
+  }
+}
+
+/**
+ * Read the end of a native server's log file
+ *
+ * @param name Name of the server
+ * @param lines Number of lines to return
+ * @returns The last lines, empty if nothing was logged yet
+ */
+async function readNativeLogTail(name: string, lines = 100): Promise<string> {
+  try {
+    const text = await Deno.readTextFile(getNativeLogPath(name))
+    return text.trimEnd().split('\n').slice(-lines).join('\n')
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return ''
+    throw error
+  }
+}
+
+/**
+ * Read what a native HTTP server logged since it was last started
+ *
+ * @param name Name of the server
+ * @returns Output after the last start marker, empty if nothing was logged yet
+ */
+async function readNativeRunLog(name: string): Promise<string> {
+  const text = await readNativeLogTail(name, Infinity)
+  // startNativeProcess writes a `--- <date> <command>` line before each run
+  const marker = text.lastIndexOf('\n--- ')
+  if (marker === -1) return text
+  const end = text.indexOf('\n', marker + 1)
+  return end === -1 ? '' : text.slice(end + 1)
+}
+
+export {
+  buildNativeCommand,
+  getNativeEnv,
+  getNativeLogPath,
+  isNativeProcessRunning,
+  readNativeLogTail,
+  readNativeRunLog,
+  startNativeProcess,
+  stopNativeProcess,
+}
+export type { NativeCommand }
@@ -0,0 +1,237 @@
+/**
+ * Port registry service
+ *
+ * HTTP servers without a `--port` in their args get a host port from
+ * `PORT_RANGE` the first time they start. The port is recorded under `port`
+ * in the state file and reused on every start, so their client entries keep
+ * pointing at the same URL. Removing the server from the state file, or
+ * `ports --release`, frees it.
+ *
+ * Ports are probed by listening on them, a port counts as free when nothing
+ * else listens on it and no other server has it assigned or in its args.
+ *
+ * @module services/port-registry-service
+ */
+import logger from '../utils/logger.ts'
+import { getAppConfig, getMcpServerConfigs, isHttpServer } from '../config.ts'
+import {
+  getServerState,
+  loadState,
+  saveState,
+  updateServerPort,
+} from '../state.ts'
+import type { McpServerConfig, McpStateFile } from '../types.ts'
+import { isPortInUse } from './docker-service.ts'
+
+/**
+ * Ports servers are assigned from, both ends included
+ */
+interface PortRange {
+  start: number
+  end: number
+}
+
+/**
+ * Port of a local HTTP server and where it comes from
+ */
+interface PortAssignment {
+  server: string
+  /** Undefined until the server is started for the first time */
+  port: number | undefined
+  /** `args` for a `--port` in the server's args, `registry` for an assigned port */
+  source: 'args' | 'registry' | 'unassigned'
+  /** Other servers configured or assigned the same port */
+  sharedWith: string[]
+}
+
+const PORT_RANGE_PATTERN = /^\s*(\d+)\s*-\s*(\d+)\s*$/
+
+/**
+ * Get the range ports are assigned from, set with `PORT_RANGE`
+ *
+ * @returns First and last port of the range
+ * @throws {Error} If `PORT_RANGE` isn't a valid `start-end` range
+ */
+async function getPortRange(): Promise<PortRange> {
+  const value = (await getAppConfig()).PORT_RANGE || '9000-9099'
+  const match = value.match(PORT_RANGE_PATTERN)
+  const start = Number(match?.[1])
+  const end = Number(match?.[2])
+  if (!match || start < 1 || end > 65535 || start > end) {
+    throw new Error(
+      `Invalid PORT_RANGE "${value}", expected a range like "9000-9099"`,
+    )
+  }
+  return { start, end }
+}
+
+/**
+ * Get the port a server's args pin with `--port`
+ *
+ * @param server Server configuration
+ * @returns The port, undefined if the args don't set one
+ */
+function getConfiguredPort(server: McpServerConfig): number | undefined {
+  const index = server.args.indexOf('--port')
+  if (index === -1) return undefined
+  const port = Number.parseInt(server.args[index + 1] ?? '', 10)
+  return Number.isNaN(port) ? undefined : port
+}
+
+/**
+ * Check whether a server gets its port from the registry: a local HTTP
+ * server, not one hosted remotely
+ */
+function usesLocalPort(server: McpServerConfig): boolean {
+  return isHttpServer(server) && !server.remote
+}
+
+/**
+ * Get the port a server listens on without assigning one: its `--port` arg,
+ * else the port recorded in the state file
+ *
+ * @param state Current state
+ * @param server Server configuration
+ * @returns The port, undefined if the server hasn't been assigned one yet
+ */
+function getServerPort(
+  state: McpStateFile,
+  server: McpServerConfig,
+): number | undefined {
+  return getConfiguredPort(server) ?? getServerState(state, server.name)?.port
+}
+
+/**
+ * Find the first port in the range that no server claims and nothing listens on
+ *
+ * @param state Current state
+ * @param servers Every server configuration
+ * @param serverName Server the port is for, its own claims are ignored
+ * @returns A free port
+ * @throws {Error} If every port in the range is taken
+ */
+async function findFreePort(
+  state: McpStateFile,
+  servers: McpServerConfig[],
+  serverName: string,
+): Promise<number> {
+  const { start, end } = await getPortRange()
+  const claimed = new Set([
+    ...servers.map(getConfiguredPort),
+    ...state.mcps.filter((mcp) => mcp.name !== serverName).map((mcp) =>
+      mcp.port
+    ),
+  ])
+
+  for (let port = start; port <= end; port++) {
+    if (claimed.has(port)) continue
+    if (isPortInUse(port)) {
+      logger.debug(`Port ${port} is in use by another process, skipping it`)
+      continue
+    }
+    return port
+  }
+  throw new Error(
+    `No free port left in PORT_RANGE ${start}-${end}, widen the range or free a port`,
+  )
+}
+
+/**
+ * Get a server's port, picking a free one from the range if it has none,
+ * without recording it. Used where nothing should be written, e.g. dry runs
+ *
+ * @param state Current state
+ * @param server HTTP server configuration
+ * @returns The port the server listens on or would be assigned
+ * @throws {Error} If the server needs a port and the range is exhausted
+ */
+async function previewServerPort(
+  state: McpStateFile,
+  server: McpServerConfig,
+): Promise<number> {
+  return getServerPort(state, server) ??
+    await findFreePort(state, await getMcpServerConfigs(), server.name)
+}
+
+/**
+ * Get a server's port, assigning it one from the range and recording it in the
+ * state file the first time
+ *
+ * @param server HTTP server configuration
+ * @returns The port the server listens on
+ * @throws {Error} If the server needs a port and the range is exhausted
+ */
+async function assignServerPort(server: McpServerConfig): Promise<number> {
+  const state = await loadState()
+  const port = getServerPort(state, server)
+  if (port !== undefined) return port
+
+  const assigned = await findFreePort(
+    state,
+    await getMcpServerConfigs(),
+    server.name,
+  )
+  await saveState(updateServerPort(state, server.name, assigned))
+  logger.info(`Assigned port ${assigned} to ${server.name}`)
+  return assigned
+}
+
+/**
+ * Forget the port assigned to a server, it gets a new one when it next starts
+ *
+ * @param serverName Name of the server
+ * @returns The released port, undefined if none was assigned
+ */
+async function releaseServerPort(
+  serverName: string,
+): Promise<number | undefined> {
+  const state = await loadState()
+  const port = getServerState(state, serverName)?.port
+  if (port !== undefined) {
+    await saveState(updateServerPort(state, serverName, undefined))
+  }
+  return port
+}
+
+/**
+ * List the ports of the local HTTP servers and which of them share a port
+ *
+ * @param state Current state
+ * @param servers Server configurations to list
+ * @returns One assignment per local HTTP server
+ */
+function listPortAssignments(
+  state: McpStateFile,
+  servers: McpServerConfig[],
+): PortAssignment[] {
+  const ports = servers.filter(usesLocalPort).map((server) => ({
+    server: server.name,
+    port: getServerPort(state, server),
+    source: getConfiguredPort(server) !== undefined
+      ? 'args' as const
+      : getServerState(state, server.name)?.port !== undefined
+      ? 'registry' as const
+      : 'unassigned' as const,
+  }))
+
+  return ports.map((assignment) => ({
+    ...assignment,
+    sharedWith: assignment.port === undefined ? [] : ports
+      .filter((other) =>
+        other.server !== assignment.server && other.port === assignment.port
+      )
+      .map((other) => other.server),
+  }))
+}
+
+export {
+  assignServerPort,
+  getConfiguredPort,
+  getPortRange,
+  getServerPort,
+  listPortAssignments,
+  previewServerPort,
+  releaseServerPort,
+  usesLocalPort,
+}
+export type { PortAssignment, PortRange }
@@ -0,0 +1,216 @@
+/**
+ * Readiness service
+ *
+ * Waits for a freshly started HTTP server to come up before `start` health
+ * checks it. A server's `readiness` config picks the check, which is repeated
+ * until it passes or the timeout runs out:
+ *
+ * - `port`: the endpoint answers any HTTP request, the default
+ * - `http`: a path answers with the expected status
+ * - `log`: the container's or process's output has a line matching a pattern
+ * - `ping`: the server answers an MCP `ping`
+ *
+ * The delay between checks starts at `intervalMs` and is multiplied by
+ * `backoff` after each one, so slow starters like JVM images can be given a
+ * long timeout without being polled every second.
+ *
+ * @module services/readiness-service
+ */
+import logger from '../utils/logger.ts'
+import { getHttpEndpointPath, isNativeServer } from '../config.ts'
+import type { McpServerConfig, ReadinessConfig } from '../types.ts'
+import { getContainerLogs } from './docker-service.ts'
+import { isPortOpen, openServerSession } from './health-validator-service.ts'
+import { readNativeRunLog } from './native-launcher-service.ts'
+import { getAuthHeaders } from './auth-token-service.ts'
+
+/**
+ * Readiness config with the defaults filled in
+ */
+type ResolvedReadinessConfig =
+  & Required<Omit<ReadinessConfig, 'logPattern'>>
+  & Pick<ReadinessConfig, 'logPattern'>
+
+/**
+ * Outcome of waiting for a server
+ */
+interface ReadinessResult {
+  ready: boolean
+  /** How many checks were run */
+  attempts: number
+  /** Milliseconds waited in total */
+  elapsedMs: number
+  /** What the last check saw, e.g. `HTTP 503` */
+  detail: string
+}
+
+const DEFAULT_READINESS: Omit<ResolvedReadinessConfig, 'path' | 'logPattern'> =
+  {
+    strategy: 'port',
+    status: 200,
+    timeoutMs: 10000,
+    intervalMs: 1000,
+    backoff: 1,
+  }
+
+/** Upper bound for a single check, so a hanging request can't eat the timeout */
+const MAX_CHECK_TIMEOUT_MS = 5000
+
+/**
+ * Resolve a server's readiness config, filling in the defaults
+ *
+ * @param server Server configuration
+ * @returns Readiness config with every field but `logPattern` set
+ */
+function getReadinessConfig(server: McpServerConfig): ResolvedReadinessConfig {
+  return {
+    ...DEFAULT_READINESS,
+    path: getHttpEndpointPath(server),
+    ...server.readiness,
+  }
+}
+
+/**
+ * Read a server's output since it was started
+ *
+ * @param server Server configuration
+ * @param containerName Container to read, the server's own by default
+ * @returns Combined stdout and stderr
+ */
+async function readServerOutput(
+  server: McpServerConfig,
+  containerName: string,
+): Promise<string> {
+  if (isNativeServer(server)) return await readNativeRunLog(server.name)
+  const logs = await getContainerLogs(containerName)
+  if (!logs.success) throw new Error(logs.error?.trim() || 'no logs')
+  return `${logs.stdout ?? ''}\n${logs.stderr ?? ''}`
+}
+
+/**
+ * Run a readiness check once
+ *
+ * @param server Server configuration
+ * @param config Resolved readiness config
+ * @param port Port the server listens on
+ * @param containerName Container whose logs the `log` strategy reads
+ * @param timeoutMs How long the check may take
+ * @returns Whether the server is ready and what the check saw
+ */
+async function checkReadiness(
+  server: McpServerConfig,
+  config: ResolvedReadinessConfig,
+  port: number,
+  containerName: string,
+  timeoutMs: number,
+): Promise<{ ready: boolean; detail: string }> {
+  try {
+    switch (config.strategy) {
+      case 'port': {
+        const ready = await isPortOpen(
+          'localhost',
+          port,
+          config.path,
+          timeoutMs,
+        )
+        return { ready, detail: ready ? 'port open' : `no answer on ${port}` }
+      }
+      case 'http': {
+        const response = await fetch(`http://localhost:${port}${config.path}`, {
+          headers: await getAuthHeaders(server),
+          signal: AbortSignal.timeout(timeoutMs),
+        })
+        await response.body?.cancel()
+        return {
+          ready: response.status === config.status,
+          detail: `${config.path} answered HTTP ${response.status}`,
+        }
+      }
+      case 'log': {
+        const pattern = new RegExp(config.logPattern ?? '', 'm')
+        const ready = pattern.test(
+          await readServerOutput(server, containerName),
+        )
+        return {
+          ready,
+          detail: ready
+            ? `logged a line matching /${pattern.source}/`
+            : `no line matching /${pattern.source}/ logged`,
+        }
+      }
+      case 'ping': {
+        const session = await openServerSession(server, timeoutMs, { port })
+        try {
+          await session.request('ping')
+          return { ready: true, detail: 'answered ping' }
+        } finally {
+          await session.close()
+        }
+      }
+    }
+  } catch (error) {
+    return {
+      ready: false,
+      detail: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+/**
+ * Wait for a started HTTP server to become ready, using its `readiness`
+ * config
+ *
+ * @param server HTTP server configuration
+ * @param port Port the server listens on
+ * @param containerName Container whose logs the `log` strategy reads, the server's own by default
+ * @returns Whether the server became ready in time and what the last check saw
+ */
+async function waitForServerReady(
+  server: McpServerConfig,
+  port: number,
+  containerName = server.name,
+): Promise<ReadinessResult> {
+  const config = getReadinessConfig(server)
+  const startedAt = Date.now()
+  const deadline = startedAt + config.timeoutMs
+  let intervalMs = config.intervalMs
+  let attempts = 0
+  let detail = 'not checked'
+
+  while (true) {
+    const remainingMs = deadline - Date.now()
+    const result = await checkReadiness(
+      server,
+      config,
+      port,
+      containerName,
+      Math.max(Math.min(remainingMs, MAX_CHECK_TIMEOUT_MS), 500),
+    )
+    attempts++
+    detail = result.detail
+    if (result.ready) {
+      logger.debug(
+        `${server.name} is ready after ${attempts} ${config.strategy} checks: ${detail}`,
+      )
+      return {
+        ready: true,
+        attempts,
+        elapsedMs: Date.now() - startedAt,
+        detail,
+      }
+    }
+
+    const waitMs = Math.min(intervalMs, deadline - Date.now())
+    if (waitMs <= 0) break
+    logger.debug(
+      `Waiting for ${server.name} (${config.strategy} check ${attempts}: ${detail}), next check in ${waitMs}ms...`,
+    )
+    await new Promise((resolve) => setTimeout(resolve, waitMs))
+    intervalMs *= config.backoff
+  }
+
+  return { ready: false, attempts, elapsedMs: Date.now() - startedAt, detail }
+}
+
+export { getReadinessConfig, waitForServerReady }
+export type { ReadinessResult, ResolvedReadinessConfig }
@@ -0,0 +1,202 @@
+/**
+ * Remote server service
+ *
+ * Servers with a `remote` config are hosted by their vendor, e.g. Atlassian's
+ * remote MCP. There's nothing to run, the manager only checks that the
+ * endpoint answers, runs the health check against it and writes its URL and
+ * headers to the client configs.
+ *
+ * `${VAR}` placeholders in the URL and headers are filled in from the
+ * server's env file, with `secret://` references resolved. Client configs are
+ * plain files, so their entries are only filled in from plain values, a
+ * placeholder whose variable holds a reference is refused.
+ *
+ * @module services/remote-server-service
+ */
+import logger from '../utils/logger.ts'
+import { readEnvFile } from '../utils/env-file.ts'
+import { getEnvFilePath } from '../config.ts'
+import type { McpServerConfig } from '../types.ts'
+import { isSecretReference, resolveSecretEnv } from './secret-service.ts'
+
+/**
+ * URL and headers of a remote server with the placeholders filled in
+ */
+interface RemoteEndpoint {
+  url: string
+  headers: Record<string, string>
+}
+
+/**
+ * URL and headers of a remote server to write into client configs
+ */
+interface RemoteClientEndpoint extends RemoteEndpoint {
+  /** Variables from the env file that were copied into the URL or headers */
+  inlined: string[]
+}
+
+/**
+ * Result of probing a remote server's URL
+ */
+interface RemoteReachability {
+  /** True if the server answered with any HTTP response */
+  reachable: boolean
+  /** The response status, e.g. `HTTP 405`, or why the request failed */
+  detail: string
+}
+
+const PLACEHOLDER_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g
+
+/**
+ * Replace the `${VAR}` placeholders in a value
+ *
+ * @param value URL or header value
+ * @param env Variables from the server's env file
+ * @param field Name of the field, used in the error message
+ * @param used Collects the names of the variables filled in
+ * @returns The value with every placeholder replaced
+ * @throws {Error} If a placeholder's variable isn't set
+ */
+function fillPlaceholders(
+  value: string,
+  env: Record<string, string>,
+  field: string,
+  used = new Set<string>(),
+): string {
+  return value.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    used.add(name)
+    const replacement = env[name]
+    if (replacement === undefined || replacement === '') {
+      throw new Error(`${field} uses \${${name}}, which is not set`)
+    }
+    return replacement
+  })
+}
+
+/**
+ * Fill in the placeholders of a remote server's URL and headers
+ *
+ * @param server Server configuration with a `remote`
+ * @param env Variables to fill in
+ * @param used Collects the names of the variables filled in
+ * @returns URL and headers with every placeholder replaced
+ * @throws {Error} If the server isn't remote or a placeholder can't be filled in
+ */
+function fillRemoteEndpoint(
+  server: McpServerConfig,
+  env: Record<string, string>,
+  used = new Set<string>(),
+): RemoteEndpoint {
+  const { remote } = server
+  if (!remote) throw new Error(`${server.name} is not a remote server`)
+
+  return {
+    url: fillPlaceholders(remote.url, env, `${server.name}'s url`, used),
+    headers: Object.fromEntries(
+      Object.entries(remote.headers ?? {}).map(([name, value]) => [
+        name,
+        fillPlaceholders(
+          value,
+          env,
+          `${server.name}'s ${name} header`,
+          used,
+        ),
+      ]),
+    ),
+  }
+}
+
+/**
+ * Get the URL and headers of a remote server, filling in the placeholders
+ * from its env file
+ *
+ * @param server Server configuration with a `remote`
+ * @returns URL and headers to connect with
+ * @throws {Error} If the server isn't remote or a placeholder can't be filled in
+ */
+async function resolveRemoteEndpoint(
+  server: McpServerConfig,
+): Promise<RemoteEndpoint> {
+  const envFile = getEnvFilePath(server.name)
+  return fillRemoteEndpoint(server, {
+    ...Object.fromEntries(
+      Object.entries(await readEnvFile(envFile) ?? {}).filter(([, value]) =>
+        !isSecretReference(value)
+      ),
+    ),
+    ...await resolveSecretEnv(envFile),
+  })
+}
+
+/**
+ * Get the URL and headers to write into a remote server's client config
+ * entries, filled in from the plain values of its env file only
+ *
+ * @param server Server configuration with a `remote`
+ * @returns URL and headers, with the variables that were copied into them
+ * @throws {Error} If a placeholder's variable holds a `secret://` reference or isn't set
+ */
+async function resolveRemoteClientEndpoint(
+  server: McpServerConfig,
+): Promise<RemoteClientEndpoint> {
+  const envFile = getEnvFilePath(server.name)
+  const fileEnv = await readEnvFile(envFile) ?? {}
+  const secretNames = Object.keys(fileEnv).filter((name) =>
+    isSecretReference(fileEnv[name])
+  )
+
+  // Fill the references in as-is first, only to see which variables are used
+  const used = new Set<string>()
+  fillRemoteEndpoint(server, fileEnv, used)
+  const secrets = secretNames.filter((name) => used.has(name))
+  if (secrets.length > 0) {
+    throw new Error(
+      `${server.name}'s url or headers use ${secrets.join(', ')}, which ${
+        secrets.length === 1
+          ? 'holds a secret reference'
+          : 'hold secret references'
+      }. Client configs are plain files and can't resolve references, so secrets aren't written to them. Put a plain value in ${envFile} to accept it being copied into the client configs`,
+    )
+  }
+
+  return { ...fillRemoteEndpoint(server, fileEnv), inlined: [...used] }
+}
+
+/**
+ * Check that a remote server's URL answers. Any HTTP response counts, even an
+ * error status, since SSE and Streamable HTTP endpoints answer a plain GET
+ * differently
+ *
+ * @param server Server configuration with a `remote`
+ * @param timeoutMs How long to wait for the response headers
+ * @returns Whether the server answered, with the status or the error
+ * @throws {Error} If a placeholder in the URL or headers can't be filled in
+ */
+async function checkRemoteReachability(
+  server: McpServerConfig,
+  timeoutMs = 5000,
+): Promise<RemoteReachability> {
+  const { url, headers } = await resolveRemoteEndpoint(server)
+  try {
+    const response = await fetch(url, {
+      headers: { ...headers, Accept: 'application/json, text/event-stream' },
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+    // SSE endpoints keep the body open, the headers are all we need
+    await response.body?.cancel()
+    logger.debug(`${url} answered with HTTP ${response.status}`)
+    return { reachable: true, detail: `HTTP ${response.status}` }
+  } catch (error) {
+    return {
+      reachable: false,
+      detail: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
+export {
+  checkRemoteReachability,
+  resolveRemoteClientEndpoint,
+  resolveRemoteEndpoint,
+}
+export type { RemoteClientEndpoint, RemoteEndpoint, RemoteReachability }
@@ -0,0 +1,376 @@
+/**
+ * Secret Service
+ *
+ * Resolves `secret://<server>/<KEY>` references in server env files so
+ * credentials don't have to live in plaintext under `servers/config`. Values
+ * are fetched from the provider selected with `SECRETS_PROVIDER` in
+ * `servers/config/main.env` at the moment a container is launched, and are
+ * handed to the container runtime through its environment, never through its
+ * arguments, the MCP client configs or the state file.
+ *
+ * Providers:
+ * - `file`: AES-GCM encrypted JSON file (`SECRETS_FILE_PATH`) whose key lives
+ *   outside the workspace (`SECRETS_KEY_PATH`)
+ * - `command`: an external secret manager called with `SECRETS_COMMAND`, e.g.
+ *   `pass show mcp/{server}/{key}` or `op read op://Private/{server}/{key}`
+ *
+ * @module services/secret-service
+ */
+
+import { dirname } from '@std/path'
+import { getAppConfig } from '../config.ts'
+import logger from '../utils/logger.ts'
+import { readEnvFile } from '../utils/env-file.ts'
+
+const SECRET_REFERENCE_PATTERN =
+  /^secret:\/\/([a-z0-9][a-z0-9_-]*)\/([A-Za-z_][A-Za-z0-9_]*)$/
+
+/**
+ * Identifiers of the available secret providers
+ */
+type SecretProviderId = 'file' | 'command'
+
+/**
+ * A parsed `secret://<server>/<KEY>` reference
+ */
+interface SecretReference {
+  /** Server the secret belongs to */
+  server: string
+  /** Name of the secret, usually the env variable it's injected as */
+  key: string
+}
+
+/**
+ * Backend that stores or looks up secret values
+ */
+interface SecretProvider {
+  /** Unique identifier, matches `SECRETS_PROVIDER` */
+  id: SecretProviderId
+  /** Human-readable name for messages */
+  displayName: string
+  /** Look up a secret, null when the provider doesn't have it */
+  get: (ref: SecretReference) => Promise<string | null>
+  /** Store a secret, only for providers the manager can write to */
+  set?: (ref: SecretReference, value: string) => Promise<void>
+  /** Delete a secret, returns false if it didn't exist */
+  remove?: (ref: SecretReference) => Promise<boolean>
+  /** List stored secrets without their values */
+  list?: () => Promise<SecretReference[]>
+}
+
+/**
+ * Encrypted file contents, the secrets map is encrypted as a whole
+ */
+interface EncryptedSecretsFile {
+  version: 1
+  /** Base64 AES-GCM initialization vector */
+  iv: string
+  /** Base64 ciphertext of the JSON `{ "<server>/<KEY>": value }` map */
+  data: string
+}
+
+/**
+ * Check whether an env value is a secret reference
+ *
+ * @param value Env value
+ * @returns True for values like `secret://mcp-slack/SLACK_BOT_TOKEN`
+ */
+function isSecretReference(value: string): boolean {
+  return SECRET_REFERENCE_PATTERN.test(value.trim())
+}
+
+/**
+ * Parse a secret reference
+ *
+ * @param value Env value
+ * @returns The referenced server and key, or null if the value isn't a reference
+ */
+function parseSecretReference(value: string): SecretReference | null {
+  const match = value.trim().match(SECRET_REFERENCE_PATTERN)
+  return match?.[1] && match[2] ? { server: match[1], key: match[2] } : null
+}
+
+/**
+ * Format a secret reference, e.g. `secret://mcp-slack/SLACK_BOT_TOKEN`
+ *
+ * @param ref Secret reference
+ * @returns The reference as it's written in env files
+ */
+function formatSecretReference(ref: SecretReference): string {
+  return `secret://${ref.server}/${ref.key}`
+}
+
+// Spreading a large buffer into String.fromCharCode overflows the call stack
+const BASE64_CHUNK_SIZE = 0x8000
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let start = 0; start < bytes.length; start += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(
+      ...bytes.subarray(start, start + BASE64_CHUNK_SIZE),
+    )
+  }
+  return btoa(binary)
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Load the AES key for the encrypted file provider, creating it on first use
+ *
+ * @param keyPath Path to the raw 256-bit key
+ * @param create Whether to generate the key if it doesn't exist
+ * @returns The key, or null if it doesn't exist and create is false
+ */
+async function loadEncryptionKey(
+  keyPath: string,
+  create: boolean,
+): Promise<CryptoKey | null> {
+  let raw: Uint8Array
+  try {
+    raw = await Deno.readFile(keyPath)
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error
+    if (!create) return null
+
+    raw = crypto.getRandomValues(new Uint8Array(32))
+    await Deno.mkdir(dirname(keyPath), { recursive: true })
+    await Deno.writeFile(keyPath, raw, { mode: 0o600 })
+    logger.info(`Created secrets key: ${keyPath}`)
+  }
+
+  return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ])
+}
+
+/**
+ * Create the provider backed by the local encrypted file
+ *
+ * @param filePath Path to the encrypted secrets file
+ * @param keyPath Path to the key used to encrypt it
+ * @returns Encrypted file provider
+ */
+function createFileSecretProvider(
+  filePath: string,
+  keyPath: string,
+): SecretProvider {
+  async function readSecrets(): Promise<Record<string, string>> {
+    let file: EncryptedSecretsFile
+    try {
+      file = JSON.parse(await Deno.readTextFile(filePath))
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return {}
+      throw error
+    }
+
+    const key = await loadEncryptionKey(keyPath, false)
+    if (!key) {
+      throw new Error(
+        `Cannot decrypt ${filePath}: secrets key ${keyPath} not found`,
+      )
+    }
+
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(file.iv) },
+        key,
+        fromBase64(file.data),
+      )
+      return JSON.parse(new TextDecoder().decode(plaintext))
+    } catch {
+      throw new Error(
+        `Cannot decrypt ${filePath} with the key in ${keyPath}, was it created with a different key?`,
+      )
+    }
+  }
+
+  async function writeSecrets(secrets: Record<string, string>): Promise<void> {
+    const key = await loadEncryptionKey(keyPath, true)
+    if (!key) throw new Error(`Could not create secrets key ${keyPath}`)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(secrets)),
+    )
+    const file: EncryptedSecretsFile = {
+      version: 1,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(ciphertext)),
+    }
+    await Deno.mkdir(dirname(filePath), { recursive: true })
+    await Deno.writeTextFile(filePath, JSON.stringify(file, null, 2), {
+      mode: 0o600,
+    })
+  }
+
+  const id = (ref: SecretReference) => `${ref.server}/${ref.key}`
+
+  return {
+    id: 'file',
+    displayName: 'encrypted file',
+    get: async (ref) => (await readSecrets())[id(ref)] ?? null,
+    set: async (ref, value) => {
+      await writeSecrets({ ...await readSecrets(), [id(ref)]: value })
+    },
+    remove: async (ref) => {
+      const secrets = await readSecrets()
+      if (!(id(ref) in secrets)) return false
+      delete secrets[id(ref)]
+      await writeSecrets(secrets)
+      return true
+    },
+    list: async () =>
+      Object.keys(await readSecrets()).sort().map((entry) =>
+        parseSecretReference(`secret://${entry}`)
+      ).filter((ref): ref is SecretReference => ref !== null),
+  }
+}
+
+/**
+ * Create the provider that shells out to an external secret manager
+ *
+ * @param commandTemplate Command with `{server}` and `{key}` placeholders,
+ *   split on whitespace and run without a shell
+ * @returns External command provider
+ */
+function createCommandSecretProvider(commandTemplate: string): SecretProvider {
+  return {
+    id: 'command',
+    displayName: `external command (${commandTemplate.split(/\s+/)[0]})`,
+    get: async (ref) => {
+      const [command, ...args] = commandTemplate.trim().split(/\s+/).map((
+        part,
+      ) => part.replaceAll('{server}', ref.server).replaceAll('{key}', ref.key))
+      if (!command) throw new Error('SECRETS_COMMAND is not set')
+
+      const { code, stdout, stderr } = await new Deno.Command(command, {
+        args,
+        stdin: 'null',
+        stdout: 'piped',
+        stderr: 'piped',
+      }).output()
+
+      if (code !== 0) {
+        logger.debug(
+          `${command} exited with ${code} for ${formatSecretReference(ref)}: ${
+            new TextDecoder().decode(stderr).trim()
+          }`,
+        )
+        return null
+      }
+
+      // Secret managers print a trailing newline, only the first line is the value
+      return new TextDecoder().decode(stdout).split(/\r?\n/)[0] || null
+    },
+  }
+}
+
+/**
+ * Get the secret provider selected with `SECRETS_PROVIDER`
+ *
+ * @returns The configured provider
+ * @throws {Error} If the provider is unknown or misconfigured
+ */
+async function getSecretProvider(): Promise<SecretProvider> {
+  const appConfig = await getAppConfig()
+  const providerId = appConfig.SECRETS_PROVIDER || 'file'
+
+  if (providerId === 'file') {
+    return createFileSecretProvider(
+      appConfig.SECRETS_FILE_PATH ?? '',
+      appConfig.SECRETS_KEY_PATH ?? '',
+    )
+  }
+
+  if (providerId === 'command') {
+    if (!appConfig.SECRETS_COMMAND) {
+      throw new Error(
+        'SECRETS_PROVIDER=command requires SECRETS_COMMAND, e.g. `pass show mcp/{server}/{key}`',
+      )
+    }
+    return createCommandSecretProvider(appConfig.SECRETS_COMMAND)
+  }
+
+  throw new Error(
+    `Unknown SECRETS_PROVIDER "${providerId}", expected "file" or "command"`,
+  )
+}
+
+/**
+ * List the env variables in an env file that hold secret references
+ *
+ * @param envFilePath Path to the env file
+ * @returns Variable names mapped to the secret they reference
+ */
+async function getSecretReferences(
+  envFilePath: string,
+): Promise<Record<string, SecretReference>> {
+  const references: Record<string, SecretReference> = {}
+  for (
+    const [name, value] of Object.entries(await readEnvFile(envFilePath) ?? {})
+  ) {
+    const ref = parseSecretReference(value)
+    if (ref) references[name] = ref
+  }
+  return references
+}
+
+/**
+ * Resolve every secret reference in an env file
+ *
+ * The returned values must only ever be passed to a child process's
+ * environment, e.g. as `-e NAME` flags with the value in the runtime's env.
+ *
+ * @param envFilePath Path to the env file
+ * @returns Variable names mapped to their resolved values, empty if the file has no references
+ * @throws {Error} If any reference can't be resolved
+ */
+async function resolveSecretEnv(
+  envFilePath: string,
+): Promise<Record<string, string>> {
+  const references = await getSecretReferences(envFilePath)
+  if (Object.keys(references).length === 0) return {}
+
+  const provider = await getSecretProvider()
+  const resolved: Record<string, string> = {}
+  const unresolved: string[] = []
+
+  for (const [name, ref] of Object.entries(references)) {
+    const value = await provider.get(ref)
+    if (value === null) {
+      unresolved.push(`${name}=${formatSecretReference(ref)}`)
+    } else {
+      resolved[name] = value
+    }
+  }
+
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Could not resolve secrets from the ${provider.displayName} provider: ${
+        unresolved.join(', ')
+      }`,
+    )
+  }
+
+  logger.debug(
+    `Resolved ${
+      Object.keys(resolved).length
+    } secret(s) for ${envFilePath} from the ${provider.displayName} provider`,
+  )
+  return resolved
+}
+
+export {
+  formatSecretReference,
+  getSecretProvider,
+  getSecretReferences,
+  isSecretReference,
+  parseSecretReference,
+  resolveSecretEnv,
+}
+export type { SecretProvider, SecretProviderId, SecretReference }
@@ -0,0 +1,302 @@
+/**
+ * Server Scaffold Service
+ *
+ * Renders and writes the files that make up a server definition:
+ * `servers/<name>.config.ts` and `examples/<name>.env.example`
+ *
+ * @module services/server-scaffold-service
+ */
+
+import { exists } from '@std/fs'
+import { dirname, join } from '@std/path'
+import {
+  getEnvExampleFilePath,
+  getExamplesPath,
+  getServerConfigFilePath,
+} from '../config.ts'
+import logger from '../utils/logger.ts'
+import { renderEnvFile } from '../utils/env-file.ts'
+import type {
+  EnvVarDefinition,
+  HealthValidatorConfig,
+  McpTransportType,
+} from '../types.ts'
+
+/**
+ * Answers collected for a new server definition
+ */
+interface ServerScaffold {
+  /** Unique identifier for the server, also used as the file name */
+  name: string
+  /** Human-readable description */
+  description: string
+  /** Transport the server speaks */
+  type: McpTransportType
+  /** Docker image to use */
+  image: string
+  /** Docker run arguments */
+  args: string[]
+  /** Environment variables the server reads */
+  envVars: EnvVarDefinition[]
+  /** Optional health validator configuration */
+  healthValidator?: HealthValidatorConfig
+}
+
+/**
+ * Files written for a new server definition
+ */
+interface ScaffoldedFiles {
+  /** Path to the written `.config.ts` file */
+  configPath: string
+  /** Path to the written `.env.example` file, unset if the template has none */
+  envExamplePath?: string
+}
+
+// Server names become file names and Docker container names
+const SERVER_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/
+
+/**
+ * Render a JSON-compatible value as a TypeScript literal in the repo's style
+ * (single quoted strings, spaced arrays and objects)
+ *
+ * @param value Value to render
+ * @returns TypeScript source for the value
+ */
+function toTsLiteral(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toTsLiteral).join(', ')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, entryValue]) =>
+      `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : toTsLiteral(key)}: ${
+        toTsLiteral(entryValue)
+      }`
+    )
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}'
+  }
+  return JSON.stringify(value)
+}
+
+/**
+ * Escape text for use inside a TypeScript template literal
+ *
+ * @param text Text to escape
+ * @returns Text with backslashes, backticks and `${` escaped
+ */
+function escapeTemplateLiteral(text: string): string {
+  return text.replaceAll('\\', '\\\\').replaceAll('`', '\\`').replaceAll(
+    '${',
+    '\\${',
+  )
+}
+
+/**
+ * Check whether a server name is safe to use for files and containers
+ *
+ * @param name Proposed server name
+ * @returns True if the name only uses lowercase letters, digits, dashes and underscores
+ */
+function isValidServerName(name: string): boolean {
+  return SERVER_NAME_PATTERN.test(name)
+}
+
+/**
+ * Render the `.config.ts` source for a new server
+ *
+ * @param scaffold Answers collected for the server
+ * @returns TypeScript source exporting the server configuration
+ */
+function renderServerConfigFile(scaffold: ServerScaffold): string {
+  const lines = [
+    '/**',
+    ` * ${scaffold.description} configuration`,
+    ' *',
+    ' * Generated by the `add` command, edit freely.',
+    ' */',
+    "import type { McpServerConfig } from '../src/types.ts'",
+    '',
+    'const serverConfig: McpServerConfig = {',
+    `  name: ${toTsLiteral(scaffold.name)},`,
+    `  description: ${toTsLiteral(scaffold.description)},`,
+    `  type: ${toTsLiteral(scaffold.type)},`,
+    `  image: ${toTsLiteral(scaffold.image)},`,
+    `  args: ${toTsLiteral(scaffold.args)},`,
+  ]
+
+  if (scaffold.envVars.length > 0) {
+    lines.push(
+      '',
+      '  // Environment variables checked before starting, read from the env file',
+      '  envVars: [',
+      ...scaffold.envVars.map((envVar) => `    ${toTsLiteral(envVar)},`),
+      '  ],',
+    )
+  }
+
+  if (scaffold.healthValidator) {
+    const { method, params, responseContains, timeoutMs } =
+      scaffold.healthValidator
+    lines.push(
+      '',
+      '  // Standard health validator configuration',
+      '  healthValidator: {',
+      `    method: ${toTsLiteral(method)},`,
+      `    params: ${toTsLiteral(params)},`,
+      ...(responseContains
+        ? [`    responseContains: ${toTsLiteral(responseContains)},`]
+        : []),
+      ...(timeoutMs ? [`    timeoutMs: ${timeoutMs},`] : []),
+      '  },',
+    )
+  }
+
+  const envFile = `servers/config/${scaffold.name}.env`
+  lines.push(
+    '',
+    '  // Instructions to show after starting - include test examples here',
+    '  postStartInstructions: `',
+    `${escapeTemplateLiteral(scaffold.description)} is ready.`,
+    `Make sure your credentials are properly configured in ${envFile}`,
+    '`,',
+    '}',
+    '',
+    'export default serverConfig',
+    '',
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Render the `.env.example` contents for a new server
+ *
+ * @param scaffold Answers collected for the server
+ * @returns Env file listing each variable under its description
+ */
+function renderEnvExampleFile(scaffold: ServerScaffold): string {
+  return renderEnvFile(
+    scaffold.envVars.map((envVar) => ({
+      key: envVar.name,
+      value: envVar.example ?? '',
+      comment: [
+        `${
+          envVar.required === false ? 'Optional' : 'Required'
+        }: ${envVar.description}`,
+      ],
+    })),
+    [
+      scaffold.description,
+      '----------------------------------------------',
+      `Copy to servers/config/${scaffold.name}.env and fill in the values`,
+    ],
+  )
+}
+
+/**
+ * Write the `.config.ts` and `.env.example` files for a new server
+ *
+ * @param scaffold Answers collected for the server
+ * @returns Paths to the written files
+ * @throws {Error} If a config file for the server already exists
+ */
+async function writeServerScaffold(
+  scaffold: ServerScaffold,
+): Promise<ScaffoldedFiles> {
+  const configPath = getServerConfigFilePath(scaffold.name)
+  const envExamplePath = getEnvExampleFilePath(scaffold.name)
+
+  if (await exists(configPath)) {
+    throw new Error(`Server config already exists: ${configPath}`)
+  }
+
+  await Deno.mkdir(dirname(configPath), { recursive: true })
+  await Deno.writeTextFile(configPath, renderServerConfigFile(scaffold))
+  logger.debug(`Wrote server config: ${configPath}`)
+
+  await Deno.mkdir(dirname(envExamplePath), { recursive: true })
+  await Deno.writeTextFile(envExamplePath, renderEnvExampleFile(scaffold))
+  logger.debug(`Wrote env example: ${envExamplePath}`)
+
+  return { configPath, envExamplePath }
+}
+
+/**
+ * Copy an example server definition from the examples directory as the
+ * starting point for a new server
+ *
+ * Looks for `<template>.config.ts.example` then `<template>.ts.example`, and copies
+ * `<template>.env.example` alongside it when present. The `name` inside the copied
+ * file is rewritten to the new server's name.
+ *
+ * @param template Name of the example, e.g. `mcp-slack`
+ * @param name Name of the new server
+ * @returns Paths to the written files
+ * @throws {Error} If the template doesn't exist or the server config already exists
+ */
+async function copyServerTemplate(
+  template: string,
+  name: string,
+): Promise<ScaffoldedFiles> {
+  const examplesPath = getExamplesPath()
+  const candidates = [
+    join(examplesPath, `${template}.config.ts.example`),
+    join(examplesPath, `${template}.ts.example`),
+  ]
+
+  let templatePath: string | undefined
+  for (const candidate of candidates) {
+    if (await exists(candidate)) {
+      templatePath = candidate
+      break
+    }
+  }
+  if (!templatePath) {
+    throw new Error(
+      `Template "${template}" not found, expected one of: ${
+        candidates.join(', ')
+      }`,
+    )
+  }
+
+  const configPath = getServerConfigFilePath(name)
+  const envExamplePath = getEnvExampleFilePath(name)
+
+  if (await exists(configPath)) {
+    throw new Error(`Server config already exists: ${configPath}`)
+  }
+
+  await Deno.mkdir(dirname(configPath), { recursive: true })
+  // Point the example's `name` at the new server so validation doesn't flag it
+  const templateSource = await Deno.readTextFile(templatePath)
+  await Deno.writeTextFile(
+    configPath,
+    templateSource.replace(
+      /^([ \t]*name:[ \t]*)(['"]).*?\2/m,
+      (_match, prefix) => `${prefix}${toTsLiteral(name)}`,
+    ),
+  )
+  logger.debug(`Copied ${templatePath} to ${configPath}`)
+
+  const templateEnvPath = join(examplesPath, `${template}.env.example`)
+  if (
+    templateEnvPath !== envExamplePath && await exists(templateEnvPath)
+  ) {
+    await Deno.copyFile(templateEnvPath, envExamplePath)
+    logger.debug(`Copied ${templateEnvPath} to ${envExamplePath}`)
+    return { configPath, envExamplePath }
+  }
+
+  return { configPath }
+}
+
+export {
+  copyServerTemplate,
+  isValidServerName,
+  renderEnvExampleFile,
+  renderServerConfigFile,
+  writeServerScaffold,
+}
+export type { ScaffoldedFiles, ServerScaffold }
@@ -0,0 +1,333 @@
+/**
+ * Surface diff service
+ *
+ * Compares what two images of a server expose, its tools, prompts and
+ * resources, so `update` can show how a new image changes the server before
+ * it's switched to it. The new image is started in a throwaway container next
+ * to the current one, which is read from its running container when there is
+ * one.
+ *
+ * @module services/surface-diff-service
+ */
+import { getAvailablePort } from '@std/net'
+import type { Prompt, Resource } from '../../vendor/mcp-specification.ts'
+import type { McpServerConfig } from '../types.ts'
+import logger from '../utils/logger.ts'
+import { getEnvFilePath, isHttpServer } from '../config.ts'
+import {
+  getSecurityArgs,
+  isContainerRunning,
+  printDockerLogs,
+  runContainer,
+  stopAndRemoveContainer,
+} from './docker-service.ts'
+import { openServerSession } from './health-validator-service.ts'
+import { waitForServerReady } from './readiness-service.ts'
+import {
+  getServerInventory,
+  type ServerInventory,
+} from './inventory-service.ts'
+import { getAuthTokenEnv } from './auth-token-service.ts'
+import {
+  ensureEgressProxy,
+  getEgressArgs,
+  hasEgressAllowlist,
+  removeEgressRoute,
+} from './egress-service.ts'
+import {
+  canonicalJson,
+  diffTools,
+  formatToolChanges,
+  type ToolChange,
+} from './tool-pin-service.ts'
+
+/**
+ * How a prompt or resource differs between two images
+ */
+interface SurfaceItemChange<T> {
+  /** Name of the prompt or URI of the resource */
+  key: string
+  kind: 'added' | 'removed' | 'changed'
+  /** Definition in the current image, unset for added items */
+  before?: T
+  /** Definition in the new image, unset for removed items */
+  after?: T
+}
+
+/**
+ * Everything that differs between what two images of a server expose
+ */
+interface SurfaceDiff {
+  /** Inventory of the current image */
+  before: ServerInventory
+  /** Inventory of the new image */
+  after: ServerInventory
+  tools: ToolChange[]
+  prompts: SurfaceItemChange<Prompt>[]
+  resources: SurfaceItemChange<Resource>[]
+}
+
+/** Name of the throwaway container an HTTP server's new image runs in */
+function getPreviewContainerName(server: McpServerConfig): string {
+  return `${server.name}-preview`
+}
+
+function diffItems<T>(
+  before: T[],
+  after: T[],
+  getKey: (item: T) => string,
+): SurfaceItemChange<T>[] {
+  const old = new Map(before.map((item) => [getKey(item), item]))
+  const now = new Map(after.map((item) => [getKey(item), item]))
+  const keys = [...new Set([...old.keys(), ...now.keys()])].sort()
+
+  return keys.flatMap((key): SurfaceItemChange<T>[] => {
+    const a = old.get(key)
+    const b = now.get(key)
+    if (a === undefined && b !== undefined) {
+      return [{ key, kind: 'added', after: b }]
+    }
+    if (a !== undefined && b === undefined) {
+      return [{ key, kind: 'removed', before: a }]
+    }
+    if (canonicalJson(a) !== canonicalJson(b)) {
+      return [{
+        key,
+        kind: 'changed',
+        ...(a !== undefined && { before: a }),
+        ...(b !== undefined && { after: b }),
+      }]
+    }
+    return []
+  })
+}
+
+/**
+ * Compare the inventories of two images
+ *
+ * @param before Inventory of the current image
+ * @param after Inventory of the new image
+ * @returns Added, removed and changed tools, prompts and resources
+ */
+function diffServerSurfaces(
+  before: ServerInventory,
+  after: ServerInventory,
+): SurfaceDiff {
+  return {
+    before,
+    after,
+    tools: diffTools(before.tools, after.tools),
+    prompts: diffItems(before.prompts, after.prompts, (prompt) => prompt.name),
+    resources: diffItems(
+      before.resources,
+      after.resources,
+      (resource) => resource.uri,
+    ),
+  }
+}
+
+/**
+ * Check whether two images expose anything differently
+ *
+ * @param diff Diff from diffServerSurfaces
+ * @returns True if any tool, prompt or resource changed
+ */
+function hasSurfaceChanges(diff: SurfaceDiff): boolean {
+  return diff.tools.length + diff.prompts.length + diff.resources.length > 0
+}
+
+function countKinds(changes: { kind: string }[]): string {
+  const count = (kind: string) =>
+    changes.filter((change) => change.kind === kind).length
+  return `${count('added')} added, ${count('removed')} removed, ${
+    count('changed')
+  } modified`
+}
+
+function formatItemChanges<T extends object>(
+  label: string,
+  keyField: string,
+  changes: SurfaceItemChange<T>[],
+): string[] {
+  const lines: string[] = []
+  for (const change of changes) {
+    lines.push(`${change.kind} ${label} ${change.key}`)
+    const fields = new Set([
+      ...Object.keys(change.before ?? {}),
+      ...Object.keys(change.after ?? {}),
+    ])
+    fields.delete(keyField)
+    for (const field of [...fields].sort()) {
+      const value = (item: T | undefined) => {
+        const fieldValue = (item as Record<string, unknown> | undefined)
+          ?.[field]
+        return fieldValue === undefined ? undefined : canonicalJson(fieldValue)
+      }
+      const old = value(change.before)
+      const now = value(change.after)
+      if (old === now) continue
+      if (old !== undefined) lines.push(`  - ${field}: ${old}`)
+      if (now !== undefined) lines.push(`  + ${field}: ${now}`)
+    }
+  }
+  return lines
+}
+
+/**
+ * Render a surface diff, a summary line per list followed by the changes.
+ * Removed lines start with `-` and added lines with `+`
+ *
+ * @param diff Diff from diffServerSurfaces
+ * @returns Diff lines
+ */
+function formatSurfaceDiff(diff: SurfaceDiff): string[] {
+  const changed = diff.tools.filter((change) => change.kind === 'changed')
+  const fieldChanges = (field: 'inputSchema' | 'annotations') =>
+    changed.filter((change) =>
+      canonicalJson(change.before?.[field]) !==
+        canonicalJson(change.after?.[field])
+    ).length
+
+  return [
+    `Tools: ${countKinds(diff.tools)} (${fieldChanges('inputSchema')} schema, ${
+      fieldChanges('annotations')
+    } annotation change(s))`,
+    ...formatToolChanges(diff.tools).map((line) => `  ${line}`),
+    `Prompts: ${countKinds(diff.prompts)}`,
+    ...formatItemChanges('prompt', 'name', diff.prompts).map((line) =>
+      `  ${line}`
+    ),
+    `Resources: ${countKinds(diff.resources)}`,
+    ...formatItemChanges('resource', 'uri', diff.resources).map((line) =>
+      `  ${line}`
+    ),
+  ]
+}
+
+async function readInventory(
+  server: McpServerConfig,
+  target: { port?: number; image?: string } = {},
+): Promise<ServerInventory> {
+  const session = await openServerSession(
+    server,
+    server.healthValidator?.timeoutMs,
+    target,
+  )
+  try {
+    return await getServerInventory(session)
+  } finally {
+    await session.close()
+  }
+}
+
+/**
+ * Read what an image of a server exposes without touching the server itself.
+ * A STDIO image is spawned like a client would, an HTTP image is run in a
+ * throwaway container on a free loopback port and removed afterwards. A
+ * restricted HTTP image runs on the egress network like the server does, and
+ * is reached through a temporary egress proxy route
+ *
+ * @param server Server configuration
+ * @param image Image reference to read, e.g. a digest from mcp.lock
+ * @returns Inventory of the image
+ * @throws {Error} If the image doesn't start or the MCP handshake fails
+ */
+async function previewServerInventory(
+  server: McpServerConfig,
+  image: string,
+): Promise<ServerInventory> {
+  if (!isHttpServer(server)) return await readInventory(server, { image })
+
+  const port = await getAvailablePort()
+  const args = [...server.args]
+  const portIndex = args.indexOf('--port')
+  if (portIndex >= 0 && portIndex < args.length - 1) {
+    args[portIndex + 1] = String(port)
+  } else {
+    args.push('--port', String(port))
+  }
+
+  const containerName = getPreviewContainerName(server)
+  // Restricted containers sit on the internal egress network, which can't
+  // publish ports, so the preview gets a proxy route of its own that forwards
+  // the port to it, named after the preview container
+  const restricted = hasEgressAllowlist(server)
+  const preview = { ...server, name: containerName, bindAddress: '127.0.0.1' }
+
+  await stopAndRemoveContainer(containerName)
+  try {
+    if (restricted && !await ensureEgressProxy(preview, port)) {
+      throw new Error(`Failed to start the egress proxy for ${containerName}`)
+    }
+
+    logger.info(`Starting ${image} in a throwaway container on port ${port}...`)
+    const result = await runContainer({
+      imageName: image,
+      containerName,
+      args,
+      envFile: getEnvFilePath(server.name),
+      detached: true,
+      ports: restricted
+        ? []
+        : [{ hostPort: port, containerPort: port, hostIp: '127.0.0.1' }],
+      securityArgs: getSecurityArgs(server),
+      networkArgs: await getEgressArgs(preview),
+      secretEnv: await getAuthTokenEnv(server),
+    })
+    if (!result.success) {
+      throw new Error(`Failed to start ${containerName}: ${result.error}`)
+    }
+
+    const readiness = await waitForServerReady(server, port, containerName)
+    if (!readiness.ready) {
+      await printDockerLogs(containerName)
+      throw new Error(
+        `${containerName} was not ready in time: ${readiness.detail}`,
+      )
+    }
+
+    return await readInventory(server, { port })
+  } finally {
+    await stopAndRemoveContainer(containerName)
+    if (restricted && !await removeEgressRoute(containerName)) {
+      logger.warn(`Could not remove the egress proxy route of ${containerName}`)
+    }
+  }
+}
+
+/**
+ * Compare what a server's current image exposes with a new image. A running
+ * HTTP server is read as it is, otherwise the current image is previewed too
+ *
+ * @param server Server configuration
+ * @param currentImage Image the server runs now, undefined if it was never locked
+ * @param newImage Image the server would switch to
+ * @returns The diff, every item counts as added when there's no current image to read
+ * @throws {Error} If either image can't be read
+ */
+async function getImageSurfaceDiff(
+  server: McpServerConfig,
+  currentImage: string | undefined,
+  newImage: string,
+): Promise<SurfaceDiff> {
+  let before: ServerInventory = { tools: [], prompts: [], resources: [] }
+  if (isHttpServer(server) && await isContainerRunning(server.name)) {
+    before = await readInventory(server)
+  } else if (currentImage) {
+    before = await previewServerInventory(server, currentImage)
+  }
+
+  return diffServerSurfaces(
+    before,
+    await previewServerInventory(server, newImage),
+  )
+}
+
+export {
+  diffServerSurfaces,
+  formatSurfaceDiff,
+  getImageSurfaceDiff,
+  hasSurfaceChanges,
+  previewServerInventory,
+}
+export type { SurfaceDiff, SurfaceItemChange }
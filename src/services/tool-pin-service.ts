@@ -0,0 +1,135 @@
+/**
+ * Tool pin service
+ *
+ * Hashes and compares the `tools/list` output of a server so a silent change
+ * to a tool's description or schema (e.g. after an image update) is noticed
+ * before an MCP client sees it. The approved definitions are stored in the
+ * state file, see `McpToolPin`.
+ *
+ * @module services/tool-pin-service
+ */
+import type { Tool } from '../../vendor/mcp-specification.ts'
+import type { McpToolPin } from '../types.ts'
+
+/**
+ * How a tool differs from its pinned definition
+ */
+interface ToolChange {
+  /** Name of the tool */
+  name: string
+  kind: 'added' | 'removed' | 'changed'
+  /** Pinned definition, unset for added tools */
+  before?: Tool
+  /** Current definition, unset for removed tools */
+  after?: Tool
+}
+
+/**
+ * Fields of a tool definition compared and shown in diffs
+ */
+const TOOL_FIELDS = ['description', 'inputSchema', 'annotations'] as const
+
+/**
+ * Serialize a value with object keys sorted, so equal definitions always
+ * produce the same text
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, item) =>
+      item && typeof item === 'object' && !Array.isArray(item)
+        ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b)),
+        )
+        : item,
+  )
+}
+
+/**
+ * Sort tools by name so the order a server lists them in doesn't matter
+ */
+function sortTools(tools: Tool[]): Tool[] {
+  return [...tools].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Hash a server's tool definitions
+ *
+ * @param tools Tools from `tools/list`
+ * @returns Hex SHA-256 of the canonical definitions
+ */
+async function hashTools(tools: Tool[]): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(canonicalJson(sortTools(tools))),
+  )
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Create a pin for the tools a user approved
+ *
+ * @param tools Tools from `tools/list`
+ * @returns Pin to store in the state file
+ */
+async function createToolPin(tools: Tool[]): Promise<McpToolPin> {
+  return {
+    hash: await hashTools(tools),
+    approvedOn: new Date().toISOString(),
+    tools: sortTools(tools),
+  }
+}
+
+/**
+ * Compare the current tools with the pinned ones
+ *
+ * @param pinned Approved tool definitions
+ * @param current Tools the server lists now
+ * @returns Added, removed and changed tools, sorted by name
+ */
+function diffTools(pinned: Tool[], current: Tool[]): ToolChange[] {
+  const before = new Map(pinned.map((tool) => [tool.name, tool]))
+  const after = new Map(current.map((tool) => [tool.name, tool]))
+  const names = [...new Set([...before.keys(), ...after.keys()])].sort()
+
+  return names.flatMap((name): ToolChange[] => {
+    const old = before.get(name)
+    const now = after.get(name)
+    if (!old && now) return [{ name, kind: 'added', after: now }]
+    if (old && !now) return [{ name, kind: 'removed', before: old }]
+    if (old && now && canonicalJson(old) !== canonicalJson(now)) {
+      return [{ name, kind: 'changed', before: old, after: now }]
+    }
+    return []
+  })
+}
+
+/**
+ * Render tool changes as a readable diff, one line per entry. Removed lines
+ * start with `-` and added lines with `+`
+ *
+ * @param changes Changes from diffTools
+ * @returns Diff lines
+ */
+function formatToolChanges(changes: ToolChange[]): string[] {
+  const lines: string[] = []
+  const field = (tool: Tool | undefined, name: typeof TOOL_FIELDS[number]) =>
+    tool?.[name] === undefined ? undefined : canonicalJson(tool[name])
+
+  for (const change of changes) {
+    lines.push(`${change.kind} tool ${change.name}`)
+    for (const name of TOOL_FIELDS) {
+      const old = field(change.before, name)
+      const now = field(change.after, name)
+      if (old === now) continue
+      if (old !== undefined) lines.push(`  - ${name}: ${old}`)
+      if (now !== undefined) lines.push(`  + ${name}: ${now}`)
+    }
+  }
+  return lines
+}
+
+export { canonicalJson, createToolPin, diffTools, formatToolChanges, hashTools }
+export type { ToolChange }
@@ -8,12 +8,38 @@
 import { exists } from '@std/fs'
 import { dirname, join } from '@std/path'
 import logger from './utils/logger.ts'
-import type { McpServerConfig, McpState, McpStateFile } from './types.ts'
-import { getEnvFilePath, getWorkspacePath } from './config.ts'
+import type {
+  McpClientId,
+  McpConfigScope,
+  McpImageHistoryEntry,
+  McpProcessInfo,
+  McpServerConfig,
+  McpSessionInfo,
+  McpState,
+  McpStateFile,
+  McpSupervisionInfo,
+  McpToolPin,
+} from './types.ts'
+import {
+  getEnvFilePath,
+  getHttpEndpointPath,
+  getStdioEndpoint,
+  getWorkspacePath,
+  isHttpServer,
+} from './config.ts'
 
 // Path to the state file
 const STATE_FILE_PATH = join(getWorkspacePath(), 'data', 'state.json')
 
+/**
+ * Get the path to the state file
+ *
+ * @returns Absolute path to `data/state.json`
+ */
+function getStateFilePath(): string {
+  return STATE_FILE_PATH
+}
+
 /**
  * Load state from file
  */
@@ -73,6 +99,22 @@ async function saveState(state: McpStateFile): Promise<void> {
   }
 }
 
+/**
+ * Check whether a stored endpoint still matches a server's transport, so a
+ * server switched from `/sse` to `/mcp` (or to STDIO) gets a fresh endpoint
+ */
+function isEndpointForServer(
+  endpoint: string,
+  server: McpServerConfig,
+): boolean {
+  if (server.remote) return endpoint === server.remote.url
+  if (isHttpServer(server)) {
+    return endpoint.startsWith('http://') &&
+      endpoint.endsWith(getHttpEndpointPath(server))
+  }
+  return endpoint.startsWith('command:')
+}
+
 /**
  * Sync state with current configuration
  */
@@ -93,12 +135,19 @@ function syncStateWithConfig(
     // Determine endpoint based on server type or use existing endpoint if available
     let endpoint = ''
 
-    if (existingEntry?.endpoint) {
-      // Preserve existing endpoint if available
+    if (
+      existingEntry?.endpoint &&
+      isEndpointForServer(existingEntry.endpoint, server)
+    ) {
+      // Preserve existing endpoint if available and still matches the transport
       endpoint = existingEntry.endpoint
-    } else if (server.type === 'http') {
-      // For HTTP servers, extract port from args
-      let port = 9000 // Default port
+    } else if (server.remote) {
+      // Remote servers are recorded with their URL, placeholders unfilled so
+      // no token ends up in the state file
+      endpoint = server.remote.url
+    } else if (isHttpServer(server)) {
+      // For HTTP servers, use the port from args, else the assigned one
+      let port = existingEntry?.port ?? 9000
       for (let i = 0; i < server.args.length - 1; i++) {
         if (server.args[i] === '--port') {
           const parsedPort = Number.parseInt(server.args[i + 1], 10)
@@ -108,20 +157,21 @@ function syncStateWithConfig(
           }
         }
       }
-      endpoint = `http://localhost:${port}/sse`
+      endpoint = `http://localhost:${port}${getHttpEndpointPath(server)}`
     } else {
       // For STDIO transport, create a descriptive identifier
-      endpoint = `command:docker:${server.image}`
+      endpoint = getStdioEndpoint(server)
     }
 
     // Create new entry with explicit McpState typing
     const serverState: McpState = {
+      // Preserve the user's cursor config management preference and any
+      // details recorded about the server (e.g. its last MCP session)
+      ...existingEntry,
       name: server.name,
       endpoint,
       envFile: getEnvFilePath(server.name),
       online: existingEntry?.online || false,
-      // Preserve the user's cursor config management preference
-      manageCursorConfig: existingEntry?.manageCursorConfig,
     }
 
     newState.mcps.push(serverState)
@@ -154,8 +204,6 @@ function updateServerStatus(
           online: isOnline,
           // Only update endpoint if provided, otherwise keep existing
           ...(endpoint ? { endpoint } : {}),
-          // Preserve the manageCursorConfig property
-          manageCursorConfig: mcp.manageCursorConfig,
         }
         return updatedServer
       }
@@ -204,29 +252,73 @@ function addOrUpdateServerState(
 }
 
 /**
- * Update server's cursor config management preference
+ * Remove a server's entry from the state file
+ * @param state Current state file
+ * @param serverName Name of the server to remove
+ * @returns Updated state file
+ */
+function removeServerState(
+  state: McpStateFile,
+  serverName: string,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.filter((mcp) => mcp.name !== serverName),
+  }
+}
+
+/**
+ * Get whether the user wants us to manage a client's MCP config for a server
+ *
+ * Falls back to the legacy `manageCursorConfig` flag for Cursor so preferences
+ * saved by older versions are still respected.
+ *
+ * @param serverState State of the server, or null if it has none yet
+ * @param clientId MCP client to look up
+ * @returns The saved choice, or undefined if the user was never asked
+ */
+function getClientConfigPreference(
+  serverState: McpState | null,
+  clientId: McpClientId,
+): boolean | undefined {
+  const preference = serverState?.manageClientConfigs?.[clientId]
+  if (preference !== undefined) return preference
+  return clientId === 'cursor' ? serverState?.manageCursorConfig : undefined
+}
+
+/**
+ * Update server's config management preference for a single MCP client
  * @param state Current state file
  * @param serverName Name of the server to update
- * @param manageCursorConfig Whether user wants us to manage cursor config for this server
+ * @param clientId MCP client the preference applies to
+ * @param manageConfig Whether user wants us to manage this client's config for this server
  * @returns Updated state file
  */
-function updateServerCursorConfigPreference(
+function updateServerClientConfigPreference(
   state: McpStateFile,
   serverName: string,
-  manageCursorConfig: boolean,
+  clientId: McpClientId,
+  manageConfig: boolean,
 ): McpStateFile {
   // Check if server exists
   const existingIndex = state.mcps.findIndex((mcp) => mcp.name === serverName)
 
   if (existingIndex >= 0) {
-    // Server exists, update it
+    // Server exists, update it and migrate any legacy Cursor preference
     return {
       ...state,
       mcps: state.mcps.map((mcp) => {
         if (mcp.name === serverName) {
+          const { manageCursorConfig, ...rest } = mcp
           return {
-            ...mcp,
-            manageCursorConfig,
+            ...rest,
+            manageClientConfigs: {
+              ...(manageCursorConfig !== undefined
+                ? { cursor: manageCursorConfig }
+                : {}),
+              ...mcp.manageClientConfigs,
+              [clientId]: manageConfig,
+            },
           }
         }
         return mcp
@@ -240,7 +332,7 @@ function updateServerCursorConfigPreference(
     endpoint: '',
     envFile: getEnvFilePath(serverName),
     online: false,
-    manageCursorConfig,
+    manageClientConfigs: { [clientId]: manageConfig },
   }
 
   return {
@@ -249,12 +341,226 @@ function updateServerCursorConfigPreference(
   }
 }
 
+/**
+ * @deprecated Use updateServerClientConfigPreference instead
+ */
+function updateServerCursorConfigPreference(
+  state: McpStateFile,
+  serverName: string,
+  manageCursorConfig: boolean,
+): McpStateFile {
+  return updateServerClientConfigPreference(
+    state,
+    serverName,
+    'cursor',
+    manageCursorConfig,
+  )
+}
+
+/**
+ * Record which client config scope a server's entries were last written to
+ *
+ * @param state Current state file
+ * @param serverName Name of the server to update
+ * @param configScope Scope the client configs were written for
+ * @returns Updated state file
+ */
+function updateServerConfigScope(
+  state: McpStateFile,
+  serverName: string,
+  configScope: McpConfigScope,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) =>
+      mcp.name === serverName ? { ...mcp, configScope } : mcp
+    ),
+  }
+}
+
+/**
+ * Record the details negotiated during a server's MCP initialize handshake
+ *
+ * @param state Current state file
+ * @param serverName Name of the server to update
+ * @param session Protocol version, server info and capabilities from the handshake
+ * @returns Updated state file
+ */
+function updateServerSessionInfo(
+  state: McpStateFile,
+  serverName: string,
+  session: McpSessionInfo,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) =>
+      mcp.name === serverName ? { ...mcp, session } : mcp
+    ),
+  }
+}
+
+/**
+ * Pin the tool definitions a user approved for a server
+ *
+ * @param state Current state file
+ * @param serverName Name of the server to update
+ * @param toolPin Hash and definitions of the approved tools
+ * @returns Updated state file
+ */
+function updateServerToolPin(
+  state: McpStateFile,
+  serverName: string,
+  toolPin: McpToolPin,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) =>
+      mcp.name === serverName ? { ...mcp, toolPin } : mcp
+    ),
+  }
+}
+
+/**
+ * Record that the supervisor found a server unhealthy
+ *
+ * @param state Current state file
+ * @param serverName Name of the server to update
+ * @param reason Why the server was found unhealthy
+ * @returns Updated state file
+ */
+function recordServerFailure(
+  state: McpStateFile,
+  serverName: string,
+  reason: string,
+): McpStateFile {
+  return updateServerSupervision(state, serverName, (supervision) => ({
+    ...supervision,
+    lastFailureReason: reason,
+    lastFailureOn: new Date().toISOString(),
+  }))
+}
+
+/**
+ * Record that the supervisor restarted a server
+ *
+ * @param state Current state file
+ * @param serverName Name of the server to update
+ * @returns Updated state file
+ */
+function recordServerRestart(
+  state: McpStateFile,
+  serverName: string,
+): McpStateFile {
+  return updateServerSupervision(state, serverName, (supervision) => ({
+    ...supervision,
+    restartCount: supervision.restartCount + 1,
+    lastRestartOn: new Date().toISOString(),
+  }))
+}
+
+function updateServerSupervision(
+  state: McpStateFile,
+  serverName: string,
+  update: (supervision: McpSupervisionInfo) => McpSupervisionInfo,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) =>
+      mcp.name === serverName
+        ? {
+          ...mcp,
+          supervision: update(mcp.supervision ?? { restartCount: 0 }),
+        }
+        : mcp
+    ),
+  }
+}
+
+/**
+ * Replace the image history of a server
+ *
+ * @param state Current state
+ * @param serverName Name of the server
+ * @param imageHistory Replaced images, most recent first
+ * @returns Updated state
+ */
+function updateServerImageHistory(
+  state: McpStateFile,
+  serverName: string,
+  imageHistory: McpImageHistoryEntry[],
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) =>
+      mcp.name === serverName ? { ...mcp, imageHistory } : mcp
+    ),
+  }
+}
+
+/**
+ * Record or clear the process a native HTTP server runs in
+ *
+ * @param state Current state
+ * @param serverName Name of the server
+ * @param process Process that was started, undefined once it has stopped
+ * @returns Updated state
+ */
+function updateServerProcess(
+  state: McpStateFile,
+  serverName: string,
+  process: McpProcessInfo | undefined,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) => {
+      if (mcp.name !== serverName) return mcp
+      const { process: _previous, ...rest } = mcp
+      return process ? { ...rest, process } : rest
+    }),
+  }
+}
+
+/**
+ * Record the port assigned to a server, or release it
+ *
+ * @param state Current state
+ * @param serverName Name of the server
+ * @param port Assigned port, undefined to release it
+ * @returns Updated state
+ */
+function updateServerPort(
+  state: McpStateFile,
+  serverName: string,
+  port: number | undefined,
+): McpStateFile {
+  return {
+    ...state,
+    mcps: state.mcps.map((mcp) => {
+      if (mcp.name !== serverName) return mcp
+      const { port: _previous, ...rest } = mcp
+      return port === undefined ? rest : { ...rest, port }
+    }),
+  }
+}
+
 export {
   addOrUpdateServerState,
+  getClientConfigPreference,
   getServerState,
+  getStateFilePath,
   loadState,
+  recordServerFailure,
+  recordServerRestart,
+  removeServerState,
   saveState,
   syncStateWithConfig,
-  updateServerStatus,
+  updateServerClientConfigPreference,
+  updateServerConfigScope,
   updateServerCursorConfigPreference,
+  updateServerImageHistory,
+  updateServerPort,
+  updateServerProcess,
+  updateServerSessionInfo,
+  updateServerStatus,
+  updateServerToolPin,
 }
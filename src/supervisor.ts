@@ -0,0 +1,240 @@
+/**
+ * MCP Server Supervisor
+ *
+ * Watches running HTTP servers and restarts unhealthy containers or native
+ * processes with exponential backoff, recording restart counts and the last
+ * failure of each server in the state file
+ *
+ * @module supervisor
+ */
+import logger from './utils/logger.ts'
+import type { McpServerConfig, RestartPolicyConfig } from './types.ts'
+import { isHttpServer, isNativeServer } from './config.ts'
+import {
+  isServerProcessRunning,
+  restartServer,
+  updateAndSaveServerState,
+} from './orchestrator.ts'
+import { validateServerHealth } from './services/health-validator-service.ts'
+import {
+  getServerState,
+  loadState,
+  recordServerFailure,
+  recordServerRestart,
+  saveState,
+} from './state.ts'
+
+const DEFAULT_RESTART_POLICY: Required<RestartPolicyConfig> = {
+  enabled: true,
+  maxRestarts: 5,
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+}
+
+// Never poll faster than this while waiting for a restart backoff to expire
+const MIN_WAKE_INTERVAL_MS = 250
+
+/**
+ * Options for a supervision loop
+ */
+interface SuperviseOptions {
+  /** How often every server is checked */
+  intervalMs: number
+  /** Stops the loop once the current check finishes */
+  signal: AbortSignal
+}
+
+/**
+ * In-memory recovery progress for a single server
+ */
+interface RecoveryTracker {
+  /** Restarts attempted since the server was last healthy */
+  consecutiveFailures: number
+  /** Epoch milliseconds before which no restart is attempted */
+  nextRestartAt: number
+  /** Set once `maxRestarts` is exhausted, cleared when the server is healthy again */
+  gaveUp: boolean
+}
+
+/**
+ * Resolve a server's restart policy, filling in the defaults
+ *
+ * @param server Server configuration
+ * @returns Restart policy with every field set
+ */
+function getRestartPolicy(
+  server: McpServerConfig,
+): Required<RestartPolicyConfig> {
+  return { ...DEFAULT_RESTART_POLICY, ...server.restartPolicy }
+}
+
+/**
+ * Delay before the next restart, doubling after every failed attempt
+ *
+ * @param policy Restart policy
+ * @param failures Restarts attempted since the server was last healthy
+ * @returns Delay in milliseconds
+ */
+function getRestartDelay(
+  policy: Required<RestartPolicyConfig>,
+  failures: number,
+): number {
+  return Math.min(policy.initialDelayMs * 2 ** failures, policy.maxDelayMs)
+}
+
+/**
+ * Wait for a duration, resolving early when the signal aborts
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal.addEventListener('abort', done, { once: true })
+  })
+}
+
+/**
+ * Find out why a server is unhealthy
+ *
+ * @param server Server configuration
+ * @returns The reason, or null if the server is healthy
+ */
+async function getFailureReason(
+  server: McpServerConfig,
+): Promise<string | null> {
+  if (!await isServerProcessRunning(server)) {
+    return `${isNativeServer(server) ? 'process' : 'container'} is not running`
+  }
+  if (!await validateServerHealth(server, { silent: true })) {
+    return 'health check failed'
+  }
+  return null
+}
+
+/**
+ * Check a single server once and restart it if it's unhealthy and its backoff
+ * has expired
+ *
+ * @param server Server configuration
+ * @param tracker Recovery progress for the server, updated in place
+ */
+async function superviseServer(
+  server: McpServerConfig,
+  tracker: RecoveryTracker,
+): Promise<void> {
+  const { name } = server
+  const recovering = tracker.consecutiveFailures > 0 ||
+    tracker.nextRestartAt > 0
+
+  // Servers stopped on purpose are left alone, unless we're the ones who took them down
+  const serverState = getServerState(await loadState(), name)
+  if (!serverState?.online && !recovering) return
+
+  const reason = await getFailureReason(server)
+  if (!reason) {
+    if (recovering || tracker.gaveUp) logger.info(`${name} is healthy again`)
+    Object.assign(tracker, {
+      consecutiveFailures: 0,
+      nextRestartAt: 0,
+      gaveUp: false,
+    })
+    return
+  }
+
+  if (tracker.gaveUp) return
+
+  const policy = getRestartPolicy(server)
+  if (!recovering) {
+    logger.warn(`${name} is unhealthy: ${reason}`)
+    await saveState(recordServerFailure(await loadState(), name, reason))
+
+    if (!policy.enabled) {
+      logger.warn(`Restart policy for ${name} is disabled, not restarting`)
+      tracker.gaveUp = true
+      return
+    }
+    tracker.nextRestartAt = Date.now() + getRestartDelay(policy, 0)
+  }
+
+  if (Date.now() < tracker.nextRestartAt) return
+
+  if (tracker.consecutiveFailures >= policy.maxRestarts) {
+    logger.error(
+      `Giving up on ${name} after ${tracker.consecutiveFailures} failed restart(s), last failure: ${reason}`,
+    )
+    tracker.gaveUp = true
+    await updateAndSaveServerState(name, false)
+    return
+  }
+
+  await saveState(recordServerRestart(await loadState(), name))
+  if (await restartServer(server)) {
+    logger.info(`${name} was restarted and is healthy`)
+    Object.assign(tracker, { consecutiveFailures: 0, nextRestartAt: 0 })
+    return
+  }
+
+  tracker.consecutiveFailures++
+  const delayMs = getRestartDelay(policy, tracker.consecutiveFailures)
+  tracker.nextRestartAt = Date.now() + delayMs
+  await saveState(
+    recordServerFailure(await loadState(), name, `restart failed (${reason})`),
+  )
+  logger.warn(
+    `Restart ${tracker.consecutiveFailures}/${policy.maxRestarts} of ${name} failed, retrying in ${
+      delayMs / 1000
+    }s`,
+  )
+}
+
+/**
+ * Watch HTTP servers until the signal aborts, restarting any that become
+ * unhealthy according to their restart policy
+ *
+ * @param servers Servers to supervise, STDIO servers are ignored
+ * @param options Check interval and abort signal
+ */
+async function superviseServers(
+  servers: McpServerConfig[],
+  { intervalMs, signal }: SuperviseOptions,
+): Promise<void> {
+  const supervised = servers.filter(isHttpServer)
+  const trackers = new Map<string, RecoveryTracker>(
+    supervised.map((server) => [
+      server.name,
+      { consecutiveFailures: 0, nextRestartAt: 0, gaveUp: false },
+    ]),
+  )
+
+  while (!signal.aborted) {
+    for (const server of supervised) {
+      if (signal.aborted) break
+      try {
+        await superviseServer(server, trackers.get(server.name)!)
+      } catch (error) {
+        logger.error(`Error supervising ${server.name}:`, error)
+      }
+    }
+
+    // Wake up early when a restart backoff expires before the next check
+    const nextRestartAt = Math.min(
+      ...[...trackers.values()]
+        .filter((tracker) => tracker.nextRestartAt > 0 && !tracker.gaveUp)
+        .map((tracker) => tracker.nextRestartAt),
+    )
+    await sleep(
+      Math.max(
+        MIN_WAKE_INTERVAL_MS,
+        Math.min(intervalMs, nextRestartAt - Date.now()),
+      ),
+      signal,
+    )
+  }
+}
+
+export { getRestartDelay, getRestartPolicy, superviseServers }
+export type { SuperviseOptions }
@@ -4,11 +4,26 @@
  * Internal and exported types for the CLI.
  * NOTE: Re-export them in `mod.ts` if you'd like to expose them to consumers as well.
  */
+import type {
+  Implementation,
+  ServerCapabilities,
+  Tool,
+} from '../vendor/mcp-specification.ts'
 
 /**
  * Transport types supported by MCP servers
+ * - `http`: legacy HTTP+SSE transport served at `/sse`
+ * - `streamable-http`: single-endpoint Streamable HTTP transport served at `/mcp`
+ * - `stdio`: JSON-RPC over the container's stdin/stdout
  */
-type McpTransportType = 'http' | 'stdio'
+type McpTransportType = 'http' | 'streamable-http' | 'stdio'
+
+/**
+ * Where a server's MCP client entry is written
+ * - `global`: the user-wide client config (e.g. `~/.cursor/mcp.json`)
+ * - `project`: the workspace's `.cursor/mcp.json`, only honoured by Cursor
+ */
+type McpConfigScope = 'project' | 'global'
 
 /**
  * Cursor configuration for HTTP MCP servers
@@ -16,6 +31,8 @@ type McpTransportType = 'http' | 'stdio'
 interface CursorHttpMcpEntry {
   /** URL for HTTP MCP server */
   url: string
+  /** Headers sent with every request, e.g. the server's bearer token */
+  headers?: Record<string, string>
 }
 
 /**
@@ -26,6 +43,10 @@ interface CursorStdioMcpEntry {
   command: string
   /** Arguments for the command */
   args: string[]
+  /** Environment variables set for the command */
+  env?: Record<string, string>
+  /** Working directory the command is started in */
+  cwd?: string
 }
 
 /**
@@ -33,6 +54,29 @@ interface CursorStdioMcpEntry {
  */
 type CursorMcpEntry = CursorHttpMcpEntry | CursorStdioMcpEntry
 
+/**
+ * Windsurf configuration for HTTP MCP servers
+ */
+interface WindsurfHttpMcpEntry {
+  /** URL for HTTP MCP server, Windsurf reads `serverUrl` instead of `url` */
+  serverUrl: string
+  /** Headers sent with every request */
+  headers?: Record<string, string>
+}
+
+/**
+ * Union type for any entry written to an MCP client's `mcpServers` config
+ */
+type McpClientEntry = CursorMcpEntry | WindsurfHttpMcpEntry
+
+/**
+ * MCP clients whose configuration files the manager can keep in sync
+ * - `cursor`: Cursor
+ * - `windsurf`: Codeium Windsurf
+ * - `claude`: Claude Desktop
+ */
+type McpClientId = 'cursor' | 'windsurf' | 'claude'
+
 /**
  * Health validator configuration for standardized MCP server health checks
  */
@@ -47,6 +91,144 @@ interface HealthValidatorConfig {
   timeoutMs?: number
 }
 
+/**
+ * Environment variable a server reads from `servers/config/<name>.env`
+ */
+interface EnvVarDefinition {
+  /** Variable name, e.g. `SLACK_BOT_TOKEN` */
+  name: string
+  /** What the variable is for, shown when it's missing and written to generated env files */
+  description: string
+  /** Whether the server refuses to start when it's missing or empty (default: true) */
+  required?: boolean
+  /** Whether the value is a credential that shouldn't be echoed while typing it (default: false) */
+  secret?: boolean
+  /** Example value shown when prompting for the variable */
+  example?: string
+}
+
+/**
+ * How `start` tells that an HTTP server is ready
+ * - `port`: the server's endpoint answers any HTTP request
+ * - `http`: a path answers with the expected status
+ * - `log`: a line of the container's or process's output matches a pattern
+ * - `ping`: the server answers an MCP `ping`
+ */
+type ReadinessStrategy = 'port' | 'http' | 'log' | 'ping'
+
+/**
+ * How `start` waits for an HTTP server to become ready before its health
+ * check. The check is repeated until it passes or `timeoutMs` runs out
+ */
+interface ReadinessConfig {
+  /** Check to repeat (default: 'port') */
+  strategy?: ReadinessStrategy
+  /** Path the `http` strategy requests, e.g. `/health` (default: the server's endpoint path) */
+  path?: string
+  /** Status the `http` strategy waits for (default: 200) */
+  status?: number
+  /** Regular expression the `log` strategy waits for, e.g. `Started .* in [0-9.]+ seconds` */
+  logPattern?: string
+  /** How long to wait before giving up (default: 10000) */
+  timeoutMs?: number
+  /** Delay between checks (default: 1000) */
+  intervalMs?: number
+  /** Factor the delay is multiplied by after each check, 1 keeps it constant (default: 1) */
+  backoff?: number
+}
+
+/**
+ * How the `supervise` command restarts an unhealthy HTTP server
+ */
+interface RestartPolicyConfig {
+  /** Whether the supervisor may restart the server (default: true) */
+  enabled?: boolean
+  /** Consecutive failed restarts before the supervisor gives up (default: 5) */
+  maxRestarts?: number
+  /** Delay before the first restart, doubled after each failure (default: 1000) */
+  initialDelayMs?: number
+  /** Upper bound for the delay between restarts (default: 60000) */
+  maxDelayMs?: number
+}
+
+/**
+ * Container hardening applied to every `docker run` of a server: the detached
+ * HTTP container, the STDIO command MCP clients spawn and the health check
+ */
+interface SecurityProfileConfig {
+  /** Set to false to run the container with Docker's defaults (default: true) */
+  enabled?: boolean
+  /** Mount the container's root filesystem read-only (default: true) */
+  readOnly?: boolean
+  /** Capabilities to add back after dropping all of them (default: []) */
+  capAdd?: string[]
+  /** Stop processes from gaining privileges, e.g. through setuid binaries (default: true) */
+  noNewPrivileges?: boolean
+  /** User to run as, `uid[:gid]` or a name, empty to keep the image's user (default: '65534:65534', nobody) */
+  user?: string
+  /** Writable tmpfs mounts, e.g. `/tmp` or `/home/app:size=64m` (default: ['/tmp']) */
+  tmpfs?: string[]
+  /** Memory limit passed to `--memory`, empty for no limit (default: '512m') */
+  memory?: string
+  /** CPU limit passed to `--cpus`, empty for no limit (default: '1') */
+  cpus?: string
+  /** Maximum number of processes, 0 for no limit (default: 256) */
+  pidsLimit?: number
+}
+
+/**
+ * Bearer token an HTTP server requires from its clients. The manager generates
+ * it and stores it in the secret provider as `secret://<server>/MCP_AUTH_TOKEN`
+ */
+interface AuthTokenConfig {
+  /** Env variable the image reads the expected token from, e.g. `AUTH_TOKEN` */
+  envVar: string
+}
+
+/**
+ * Outbound network allowlist. The container is attached to an internal network
+ * whose only way out is the manager's filtering proxy
+ */
+interface EgressConfig {
+  /** Hosts the server may connect to, `example.com` also allows its subdomains */
+  allowedHosts: string[]
+}
+
+/**
+ * How a server that isn't a container image is launched
+ * - `npx`: `npx -y <package>`, for servers published to npm
+ * - `uvx`: `uvx <package>`, for servers published to PyPI
+ * - `deno`: `deno run <package>`, for JSR, npm: or URL modules
+ * - `binary`: runs `package` as the executable itself
+ */
+type LauncherType = 'npx' | 'uvx' | 'deno' | 'binary'
+
+/**
+ * A server run as a local process. The env file is loaded into its
+ * environment and the server's `args` follow the package
+ */
+interface LauncherConfig {
+  type: LauncherType
+  /** Package, module or path of the binary, e.g. `@modelcontextprotocol/server-github` */
+  package: string
+  /** Flags for the launcher itself, placed before the package, e.g. `['-A']` for deno */
+  launcherArgs?: string[]
+  /** Working directory, relative paths are resolved from the workspace (default: the workspace) */
+  cwd?: string
+}
+
+/**
+ * A vendor-hosted server the manager connects to instead of running it.
+ * `${VAR}` in `url` and `headers` is replaced with the variable from the
+ * server's env file, so tokens can stay in the env file or a secret provider
+ */
+interface RemoteServerConfig {
+  /** Full endpoint URL, e.g. `https://mcp.atlassian.com/v1/sse` */
+  url: string
+  /** Headers sent with every request, e.g. `{ Authorization: 'Bearer ${API_TOKEN}' }` */
+  headers?: Record<string, string>
+}
+
 /**
  * Base configuration shared by all server types
  */
@@ -55,14 +237,34 @@ interface BaseMcpServerConfig {
   name: string
   /** Description of the server's purpose */
   description: string
-  /** Docker image to use */
-  image: string
-  /** Docker run arguments */
+  /** Docker image to use, required unless the server has a `launcher` or is `remote` */
+  image?: string
+  /** Run the server as a local command instead of a container */
+  launcher?: LauncherConfig
+  /** Connect to a hosted server instead of running one, HTTP servers only */
+  remote?: RemoteServerConfig
+  /** Docker run arguments, or the launched command's arguments for `launcher` servers */
   args: string[]
   /** Optional message to display after server start */
   postStartInstructions?: string
   /** Standardized health validator configuration (optional) */
   healthValidator?: HealthValidatorConfig
+  /** How `start` waits for the server to come up, HTTP servers only (default: port open, 10s) */
+  readiness?: ReadinessConfig
+  /** Default client config scope, overridden by `--scope` (default: 'global') */
+  scope?: McpConfigScope
+  /** Environment variables the image reads from the server's env file */
+  envVars?: EnvVarDefinition[]
+  /** How `supervise` restarts the server when it becomes unhealthy, HTTP servers only */
+  restartPolicy?: RestartPolicyConfig
+  /** Container hardening, applied with safe defaults unless `enabled` is false */
+  securityProfile?: SecurityProfileConfig
+  /** Restrict outbound connections to these hosts, unrestricted when unset */
+  egress?: EgressConfig
+  /** Host address HTTP ports are published on, '0.0.0.0' for every interface (default: '127.0.0.1') */
+  bindAddress?: string
+  /** Require a generated bearer token from clients, HTTP servers only */
+  authToken?: AuthTokenConfig
 }
 
 /**
@@ -73,6 +275,14 @@ interface HttpMcpServerConfig extends BaseMcpServerConfig {
   stdioConfig?: never
 }
 
+/**
+ * Configuration specific to Streamable HTTP servers
+ */
+interface StreamableHttpMcpServerConfig extends BaseMcpServerConfig {
+  type: 'streamable-http'
+  stdioConfig?: never
+}
+
 /**
  * Configuration specific to STDIO servers
  */
@@ -83,7 +293,63 @@ interface StdioMcpServerConfig extends BaseMcpServerConfig {
 /**
  * MCP server configuration
  */
-type McpServerConfig = HttpMcpServerConfig | StdioMcpServerConfig
+type McpServerConfig =
+  | HttpMcpServerConfig
+  | StreamableHttpMcpServerConfig
+  | StdioMcpServerConfig
+
+/**
+ * Details negotiated with a server during the MCP initialize handshake
+ */
+interface McpSessionInfo {
+  /** Protocol version agreed with the server */
+  protocolVersion: string
+  /** Name and version the server reported */
+  serverInfo: Implementation
+  /** Capabilities the server advertised */
+  capabilities: ServerCapabilities
+  /** ISO string timestamp of the handshake */
+  initializedOn: string
+}
+
+/**
+ * Restart history recorded by the supervisor
+ */
+interface McpSupervisionInfo {
+  /** Number of times the supervisor has restarted the server */
+  restartCount: number
+  /** Why the server was last found unhealthy */
+  lastFailureReason?: string
+  /** ISO string timestamp when the server was last found unhealthy */
+  lastFailureOn?: string
+  /** ISO string timestamp of the last restart attempt */
+  lastRestartOn?: string
+}
+
+/**
+ * Tool definitions the user approved, used to notice when a server changes
+ * its tools between runs
+ */
+interface McpToolPin {
+  /** SHA-256 of the canonical `tools/list` output */
+  hash: string
+  /** ISO string timestamp when the tools were approved */
+  approvedOn: string
+  /** The approved definitions, kept to show what changed */
+  tools: Tool[]
+}
+
+/**
+ * A native HTTP server's background process
+ */
+interface McpProcessInfo {
+  /** Process id of the launched command */
+  pid: number
+  /** ISO string timestamp when the process was started */
+  startedOn: string
+  /** File the process's stdout and stderr are appended to */
+  logFile: string
+}
 
 /**
  * MCP server state
@@ -93,7 +359,26 @@ interface McpState {
   endpoint: string
   envFile?: string
   online: boolean
+  /**
+   * @deprecated Use `manageClientConfigs.cursor` instead, kept so older state files are still honoured
+   */
   manageCursorConfig?: boolean
+  /** Whether the user wants us to manage each MCP client's config for this server */
+  manageClientConfigs?: Partial<Record<McpClientId, boolean>>
+  /** Scope of the client configs the server was last written to */
+  configScope?: McpConfigScope
+  /** Result of the last successful initialize handshake */
+  session?: McpSessionInfo
+  /** Restart counts and last failure recorded by `supervise` */
+  supervision?: McpSupervisionInfo
+  /** Tool definitions approved by the user */
+  toolPin?: McpToolPin
+  /** Images replaced by `update` or `rollback`, most recent first */
+  imageHistory?: McpImageHistoryEntry[]
+  /** Background process of a native HTTP server, see `launcher` */
+  process?: McpProcessInfo
+  /** Port assigned from `PORT_RANGE`, reused every time the server starts */
+  port?: number
 }
 
 /**
@@ -105,6 +390,37 @@ interface McpStateFile {
   updatedOn?: string
 }
 
+/**
+ * Image a server is locked to in `mcp.lock`
+ */
+interface McpImageLock {
+  /** Image reference from the server config the digest was resolved from */
+  image: string
+  /** Registry digest reference, e.g. `mcp/slack@sha256:...` */
+  digest: string
+  /** The image's `org.opencontainers.image.version` label, if it has one */
+  version?: string
+  /** ISO string timestamp when the digest was locked */
+  lockedOn: string
+}
+
+/**
+ * An image a server ran before an update or rollback replaced it
+ */
+interface McpImageHistoryEntry extends McpImageLock {
+  /** ISO string timestamp when another image replaced it */
+  replacedOn: string
+}
+
+/**
+ * Lock file structure, committed so everyone runs the same images
+ */
+interface McpImageLockFile {
+  version: 1
+  /** Locked images keyed by server name */
+  servers: Record<string, McpImageLock>
+}
+
 /**
  * Application configuration
  */
@@ -112,12 +428,33 @@ type AppConfig = Record<string, string>
 
 export type {
   AppConfig,
+  AuthTokenConfig,
   CursorHttpMcpEntry,
   CursorMcpEntry,
   CursorStdioMcpEntry,
+  EgressConfig,
+  EnvVarDefinition,
   HealthValidatorConfig,
+  LauncherConfig,
+  LauncherType,
+  McpClientEntry,
+  McpClientId,
+  McpConfigScope,
+  McpImageHistoryEntry,
+  McpImageLock,
+  McpImageLockFile,
+  McpProcessInfo,
   McpServerConfig,
+  McpSessionInfo,
   McpState,
   McpStateFile,
+  McpSupervisionInfo,
+  McpToolPin,
   McpTransportType,
+  ReadinessConfig,
+  ReadinessStrategy,
+  RemoteServerConfig,
+  RestartPolicyConfig,
+  SecurityProfileConfig,
+  WindsurfHttpMcpEntry,
 }
@@ -2,15 +2,26 @@
  * Dry Run Utilities
  *
  * Helper functions for the --dry-run flag in commands
- * Shows differences between current and future Cursor MCP configs
+ * Shows differences between current and future MCP configs for each detected client
  *
  * @module utils/dry-run
  */
 
-import { getAppConfig } from '../config.ts'
 import { readMcpConfigFile } from '../services/cursor-service.ts'
-import { transformServerConfigForCursor } from '../orchestrator.ts'
-import type { CursorMcpEntry, McpServerConfig } from '../types.ts'
+import {
+  type DetectedMcpClient,
+  getDetectedMcpClients,
+} from '../services/mcp-client-service.ts'
+import {
+  resolveConfigScope,
+  resolveWrittenConfigScope,
+  transformServerConfigForCursor,
+} from '../orchestrator.ts'
+import type {
+  McpClientEntry,
+  McpConfigScope,
+  McpServerConfig,
+} from '../types.ts'
 import logger from './logger.ts'
 import { blue, bold, cyan, green, red, yellow } from '@std/fmt/colors'
 
@@ -26,60 +37,115 @@ function printColorHeader(text: string, colorFn: (s: string) => string) {
 }
 
 /**
- * Perform a dry run for adding servers to Cursor MCP config
+ * Group servers by the client config scope they would be written to
+ *
+ * @param servers Array of server configurations
+ * @param resolveScope Resolves the scope for a single server
+ * @returns Map of scope to the servers using it
+ */
+async function groupServersByScope(
+  servers: McpServerConfig[],
+  resolveScope: (server: McpServerConfig) => Promise<McpConfigScope>,
+): Promise<Map<McpConfigScope, McpServerConfig[]>> {
+  const groups = new Map<McpConfigScope, McpServerConfig[]>()
+  for (const server of servers) {
+    const scope = await resolveScope(server)
+    groups.set(scope, [...(groups.get(scope) ?? []), server])
+  }
+  return groups
+}
+
+/**
+ * Resolve the detected clients for each scope group
+ *
+ * @param groups Servers grouped by scope
+ * @returns Each detected client paired with the servers targeting it
+ */
+async function getDetectedClientsForGroups(
+  groups: Map<McpConfigScope, McpServerConfig[]>,
+): Promise<{ client: DetectedMcpClient; servers: McpServerConfig[] }[]> {
+  const clients: { client: DetectedMcpClient; servers: McpServerConfig[] }[] =
+    []
+  for (const [scope, servers] of groups) {
+    for (const client of await getDetectedMcpClients(scope)) {
+      clients.push({ client, servers })
+    }
+  }
+  return clients
+}
+
+/**
+ * Perform a dry run for adding servers to every detected MCP client config
  *
  * @param servers Array of server configurations to add/update
+ * @param scope Optional client config scope override, see resolveConfigScope
  * @returns True if successful, false if failed
  */
 export async function dryRunAddServers(
   servers: McpServerConfig[],
+  scope?: McpConfigScope,
 ): Promise<boolean> {
   try {
-    const appConfig = await getAppConfig()
-    const mcpConfigPath = appConfig.CURSOR_MCP_CONFIG_PATH
+    const groups = await groupServersByScope(
+      servers,
+      (server) => resolveConfigScope(server, scope),
+    )
+    const clients = await getDetectedClientsForGroups(groups)
 
-    if (!mcpConfigPath) {
+    if (clients.length === 0) {
       logger.error(
-        'Cursor MCP config file path not configured, cannot perform dry run',
+        'No MCP client config file paths configured, cannot perform dry run',
       )
       return false
     }
 
-    // Get the complete Cursor MCP config file contents - leave it unmodified
-    const currentFullConfig = await readMcpConfigFile(mcpConfigPath)
+    // Display the comparison for all servers with color, one per client
+    printColorHeader('===== DRY RUN: START OPERATION =====', cyan)
 
-    // Create a deep copy of the current config for the future state
-    const futureFullConfig = JSON.parse(JSON.stringify(currentFullConfig))
+    for (const { client, servers } of clients) {
+      // Get the complete client MCP config file contents - leave it unmodified
+      const currentFullConfig = await readMcpConfigFile(client.configPath)
 
-    // Initialize mcpServers in the future config if it doesn't exist
-    if (!futureFullConfig.mcpServers) {
-      futureFullConfig.mcpServers = {}
-    }
+      // Create a deep copy of the current config for the future state
+      const futureFullConfig = JSON.parse(JSON.stringify(currentFullConfig))
 
-    // Add each server to the future config's mcpServers
-    for (const server of servers) {
-      // Transform server config for Cursor
-      const transformedConfig = await transformServerConfigForCursor(server)
-
-      // Add it to the future config's mcpServers property
-      const mcpServers = futureFullConfig.mcpServers as Record<
-        string,
-        CursorMcpEntry
-      >
-      mcpServers[server.name] = transformedConfig
-    }
+      // Initialize mcpServers in the future config if it doesn't exist
+      if (!futureFullConfig.mcpServers) {
+        futureFullConfig.mcpServers = {}
+      }
 
-    // Display the single comparison for all servers with color
-    printColorHeader('===== DRY RUN: START OPERATION =====', cyan)
+      // Add each server to the future config's mcpServers
+      for (const server of servers) {
+        // Transform server config for Cursor, then into this client's format
+        const transformedConfig = await transformServerConfigForCursor(server)
+        const { entry, reason } = client.formatEntry(transformedConfig, server)
+        if (!entry) {
+          logger.warn(
+            reason ?? `${client.displayName} does not support ${server.name}`,
+          )
+          continue
+        }
 
-    printColorHeader('Current Complete Cursor MCP Config File:', blue)
-    logger.log('', currentFullConfig)
+        // Add it to the future config's mcpServers property
+        const mcpServers = futureFullConfig.mcpServers as Record<
+          string,
+          McpClientEntry
+        >
+        mcpServers[server.name] = entry
+      }
 
-    printColorHeader(
-      'Future Complete Cursor MCP Config File (after start):',
-      green,
-    )
-    logger.log('', futureFullConfig)
+      printColorHeader(
+        `Current Complete ${client.displayName} MCP Config File (${client.scope}):`,
+        blue,
+      )
+      logger.log('', currentFullConfig)
+
+      printColorHeader(
+        `Future Complete ${client.displayName} MCP Config File (${client.scope}, after start):`,
+        green,
+      )
+      logger.log('', futureFullConfig)
+    }
 
     const serverNames = servers.map((s) => bold(yellow(s.name))).join(', ')
     printColorHeader(
@@ -95,56 +161,87 @@ export async function dryRunAddServers(
 }
 
 /**
- * Perform a dry run for removing servers from Cursor MCP config
+ * Print the current and future contents of each client config with the given
+ * servers removed
  *
- * @param servers Array of server configurations to remove
- * @returns True if successful, false if failed
+ * @param removals Each detected client paired with the server names to remove from it
+ * @param operation Name of the operation shown in the headers, e.g. 'stop'
  */
-export async function dryRunRemoveServers(
-  servers: McpServerConfig[],
-): Promise<boolean> {
-  try {
-    const appConfig = await getAppConfig()
-    const mcpConfigPath = appConfig.CURSOR_MCP_CONFIG_PATH
-
-    if (!mcpConfigPath) {
-      logger.error(
-        'Cursor MCP config file path not configured, cannot perform dry run',
-      )
-      return false
-    }
-
-    // Get the complete Cursor MCP config file contents - leave it unmodified
-    const currentFullConfig = await readMcpConfigFile(mcpConfigPath)
+async function printRemovalComparisons(
+  removals: { client: DetectedMcpClient; serverNames: string[] }[],
+  operation: string,
+): Promise<void> {
+  for (const { client, serverNames } of removals) {
+    // Get the complete client MCP config file contents - leave it unmodified
+    const currentFullConfig = await readMcpConfigFile(client.configPath)
 
     // Create a deep copy of the current config
     const futureFullConfig = JSON.parse(JSON.stringify(currentFullConfig))
 
     // If there are no servers configured, nothing to remove
     if (!futureFullConfig.mcpServers) {
-      logger.log('No MCP servers found in Cursor config, nothing to remove')
-      return true
+      logger.log(
+        `No MCP servers found in ${client.displayName} config, nothing to remove`,
+      )
+      continue
     }
 
     // Remove each server from the future config's mcpServers
-    for (const server of servers) {
-      const mcpServers = futureFullConfig.mcpServers as Record<string, unknown>
-      if (mcpServers[server.name]) {
-        delete mcpServers[server.name]
+    const mcpServers = futureFullConfig.mcpServers as Record<string, unknown>
+    for (const serverName of serverNames) {
+      if (mcpServers[serverName]) {
+        delete mcpServers[serverName]
       }
     }
 
-    // Display the single comparison for all servers with color
-    printColorHeader('===== DRY RUN: STOP OPERATION =====', cyan)
-
-    printColorHeader('Current Complete Cursor MCP Config File:', blue)
+    printColorHeader(
+      `Current Complete ${client.displayName} MCP Config File (${client.scope}):`,
+      blue,
+    )
     logger.log('', currentFullConfig)
 
     printColorHeader(
-      'Future Complete Cursor MCP Config File (after stop):',
+      `Future Complete ${client.displayName} MCP Config File (${client.scope}, after ${operation}):`,
       red,
     )
     logger.log('', futureFullConfig)
+  }
+}
+
+/**
+ * Perform a dry run for removing servers from every detected MCP client config
+ *
+ * @param servers Array of server configurations to remove
+ * @param scope Optional client config scope override, defaults to the scope each server was written to
+ * @returns True if successful, false if failed
+ */
+export async function dryRunRemoveServers(
+  servers: McpServerConfig[],
+  scope?: McpConfigScope,
+): Promise<boolean> {
+  try {
+    const groups = await groupServersByScope(
+      servers,
+      (server) => resolveWrittenConfigScope(server, scope),
+    )
+    const clients = await getDetectedClientsForGroups(groups)
+
+    if (clients.length === 0) {
+      logger.error(
+        'No MCP client config file paths configured, cannot perform dry run',
+      )
+      return false
+    }
+
+    // Display the comparison for all servers with color, one per client
+    printColorHeader('===== DRY RUN: STOP OPERATION =====', cyan)
+    await printRemovalComparisons(
+      clients.map(({ client, servers }) => ({
+        client,
+        serverNames: servers.map((server) => server.name),
+      })),
+      'stop',
+    )
 
     const serverNames = servers.map((s) => bold(yellow(s.name))).join(', ')
     printColorHeader(
@@ -159,6 +256,48 @@ export async function dryRunRemoveServers(
   }
 }
 
+/**
+ * Perform a dry run for fully removing servers: every client config in every
+ * scope, plus the other files that would be changed
+ *
+ * @param serverNames Names of the servers to remove
+ * @param fileChanges Descriptions of the other file changes, e.g. 'delete servers/x.config.ts'
+ * @returns True if successful, false if failed
+ */
+export async function dryRunDeregisterServers(
+  serverNames: string[],
+  fileChanges: string[],
+): Promise<boolean> {
+  try {
+    const scopes: McpConfigScope[] = ['global', 'project']
+    const removals: { client: DetectedMcpClient; serverNames: string[] }[] = []
+    for (const scope of scopes) {
+      for (const client of await getDetectedMcpClients(scope)) {
+        removals.push({ client, serverNames })
+      }
+    }
+
+    printColorHeader('===== DRY RUN: REMOVE OPERATION =====', cyan)
+    await printRemovalComparisons(removals, 'remove')
+
+    printColorHeader('Other changes:', red)
+    for (const change of fileChanges) {
+      logger.log(`  - ${change}`)
+    }
+
+    const names = serverNames.map((name) => bold(yellow(name))).join(', ')
+    printColorHeader(
+      `===== DRY RUN: NO CHANGES MADE [Servers: ${names}] =====`,
+      cyan,
+    )
+
+    return true
+  } catch (error) {
+    logger.error(`Error performing dry run: ${error}`)
+    return false
+  }
+}
+
 /**
  * @deprecated Use dryRunAddServers instead
  */
@@ -0,0 +1,62 @@
+/**
+ * @module env-file
+ * @description Read and write `KEY=value` env files, keeping the format Docker's `--env-file` accepts.
+ */
+import { parse } from '@std/dotenv'
+
+/**
+ * A single variable written to an env file
+ */
+interface EnvFileEntry {
+  /** Variable name */
+  key: string
+  /** Value to write, an empty string writes `KEY=` */
+  value: string
+  /** Comment lines written above the variable, without the leading `#` */
+  comment?: string[]
+  /** Write the variable commented out, e.g. for unset optional variables */
+  disabled?: boolean
+}
+
+/**
+ * Read an env file into a map of variable names to values
+ *
+ * @param path Path to the env file
+ * @returns The parsed variables, or null if the file doesn't exist
+ */
+async function readEnvFile(
+  path: string,
+): Promise<Record<string, string> | null> {
+  try {
+    return parse(await Deno.readTextFile(path))
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null
+    throw error
+  }
+}
+
+/**
+ * Render env file contents. Values are written unquoted since Docker's
+ * `--env-file` passes quotes through literally.
+ *
+ * @param entries Variables to write, in order
+ * @param header Comment lines written at the top of the file, without the leading `#`
+ * @returns The env file contents
+ * @throws {Error} If a value spans multiple lines, which env files can't represent
+ */
+function renderEnvFile(entries: EnvFileEntry[], header: string[] = []): string {
+  const lines = header.map((line) => `# ${line}`.trimEnd())
+
+  for (const { key, value, comment = [], disabled = false } of entries) {
+    if (/[\r\n]/.test(value)) {
+      throw new Error(`Value for ${key} must be a single line`)
+    }
+    lines.push(...comment.map((line) => `# ${line}`.trimEnd()))
+    lines.push(`${disabled ? '#' : ''}${key}=${value}`)
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+export { readEnvFile, renderEnvFile }
+export type { EnvFileEntry }
@@ -0,0 +1,66 @@
+/**
+ * @module file-snapshot
+ * @description Capture the contents of a set of files so a multi-file change can be rolled back.
+ */
+import { dirname } from '@std/path'
+
+/**
+ * Snapshot of a set of files taken before a change
+ */
+interface FileSnapshot {
+  /** Paths included in the snapshot */
+  paths: string[]
+  /**
+   * Put every file back the way it was when the snapshot was taken.
+   * Files that did not exist are deleted, files that did are rewritten.
+   */
+  restore: () => Promise<void>
+}
+
+/**
+ * Read the current contents of each file so they can be restored later
+ *
+ * @param paths Files to capture, missing files are recorded as absent
+ * @returns Snapshot that can restore every file
+ */
+async function snapshotFiles(paths: string[]): Promise<FileSnapshot> {
+  const uniquePaths = [...new Set(paths)]
+  const contents = new Map<string, Uint8Array | null>()
+
+  for (const path of uniquePaths) {
+    try {
+      contents.set(path, await Deno.readFile(path))
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error
+      contents.set(path, null)
+    }
+  }
+
+  async function restore(): Promise<void> {
+    const failures: string[] = []
+
+    for (const [path, content] of contents) {
+      try {
+        if (content === null) {
+          await Deno.remove(path).catch((error) => {
+            if (!(error instanceof Deno.errors.NotFound)) throw error
+          })
+        } else {
+          await Deno.mkdir(dirname(path), { recursive: true })
+          await Deno.writeFile(path, content)
+        }
+      } catch (error) {
+        failures.push(`${path}: ${(error as Error).message}`)
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(`Failed to restore files:\n${failures.join('\n')}`)
+    }
+  }
+
+  return { paths: uniquePaths, restore }
+}
+
+export { snapshotFiles }
+export type { FileSnapshot }
@@ -0,0 +1,163 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Checks a value against the subset of JSON Schema commonly used to describe
+ * function or tool arguments: `type`, `enum`, `const`, `properties`,
+ * `required`, `additionalProperties`, `items` and the basic string, number and
+ * array bounds. Unsupported keywords are ignored rather than rejected, so
+ * unknown schemas validate leniently.
+ *
+ * @module json-schema
+ * @example
+ * ```ts
+ * const errors = validateJsonSchema({ q: 1 }, {
+ *   type: 'object',
+ *   properties: { q: { type: 'string' } },
+ *   required: ['q'],
+ * })
+ * // ['q: expected string, got number']
+ * ```
+ */
+
+/**
+ * The supported subset of a JSON Schema
+ */
+interface JsonSchema {
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  properties?: Record<string, unknown>
+  required?: string[]
+  additionalProperties?: boolean | Record<string, unknown>
+  items?: unknown
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  minItems?: number
+  maxItems?: number
+}
+
+/**
+ * Get the JSON type name of a value
+ */
+function getJsonType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number'
+  }
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value)
+  // Every integer is also a number
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param value Value to validate
+ * @param schema Schema to validate against, anything that isn't an object accepts every value
+ * @param path Location of the value, used as the prefix of every error
+ * @returns Human-readable errors, empty if the value is valid
+ */
+function validateJsonSchema(
+  value: unknown,
+  schema: unknown,
+  path = '',
+): string[] {
+  if (!isPlainObject(schema)) return []
+  const s = schema as JsonSchema
+  const at = (message: string) => path ? `${path}: ${message}` : message
+  const child = (key: string | number) =>
+    typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key
+
+  if (s.type !== undefined) {
+    const types = Array.isArray(s.type) ? s.type : [s.type]
+    if (!types.some((candidate) => matchesType(value, candidate))) {
+      return [at(`expected ${types.join(' or ')}, got ${getJsonType(value)}`)]
+    }
+  }
+
+  const errors: string[] = []
+
+  if (s.enum && !s.enum.some((option) => option === value)) {
+    errors.push(
+      at(`must be one of ${s.enum.map((v) => JSON.stringify(v)).join(', ')}`),
+    )
+  }
+  if ('const' in s && s.const !== value) {
+    errors.push(at(`must be ${JSON.stringify(s.const)}`))
+  }
+
+  if (typeof value === 'string') {
+    if (s.minLength !== undefined && value.length < s.minLength) {
+      errors.push(at(`must be at least ${s.minLength} characters`))
+    }
+    if (s.maxLength !== undefined && value.length > s.maxLength) {
+      errors.push(at(`must be at most ${s.maxLength} characters`))
+    }
+    if (s.pattern !== undefined && !new RegExp(s.pattern, 'u').test(value)) {
+      errors.push(at(`must match ${s.pattern}`))
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (s.minimum !== undefined && value < s.minimum) {
+      errors.push(at(`must be >= ${s.minimum}`))
+    }
+    if (s.maximum !== undefined && value > s.maximum) {
+      errors.push(at(`must be <= ${s.maximum}`))
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) {
+      errors.push(at(`must have at least ${s.minItems} items`))
+    }
+    if (s.maxItems !== undefined && value.length > s.maxItems) {
+      errors.push(at(`must have at most ${s.maxItems} items`))
+    }
+    if (s.items !== undefined) {
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(item, s.items, child(index)))
+      )
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const { properties, additionalProperties } = s
+    for (const key of s.required ?? []) {
+      if (!(key in value)) errors.push(at(`missing required property ${key}`))
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (properties && key in properties) {
+        errors.push(
+          ...validateJsonSchema(propertyValue, properties[key], child(key)),
+        )
+      } else if (additionalProperties === false) {
+        errors.push(at(`unknown property ${key}`))
+      } else if (isPlainObject(additionalProperties)) {
+        errors.push(
+          ...validateJsonSchema(
+            propertyValue,
+            additionalProperties,
+            child(key),
+          ),
+        )
+      }
+    }
+  }
+
+  return errors
+}
+
+export { validateJsonSchema }
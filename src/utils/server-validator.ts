@@ -1,12 +1,792 @@
 /**
  * @module server-validator
  *
- * Utility functions for validating server selection and status
+ * Utility functions for validating server selection, status and the
+ * configuration objects exported by `servers/*.config.ts` modules
  */
 
 import { isServerEnabled } from '../config.ts'
 import logger from './logger.ts'
 
+/**
+ * A single problem found in a server configuration
+ */
+interface ServerConfigIssue {
+  /** Path of the file the configuration was loaded from */
+  filePath: string
+  /** Dotted path of the offending field, e.g. `healthValidator.method` */
+  field: string
+  /** Human readable description of the problem */
+  message: string
+  /** Errors stop the server from loading, warnings are informational */
+  severity: 'error' | 'warning'
+}
+
+const TRANSPORT_TYPES = ['http', 'streamable-http', 'stdio']
+const CONFIG_SCOPES = ['project', 'global']
+
+const SERVER_CONFIG_FIELDS = [
+  'name',
+  'description',
+  'type',
+  'image',
+  'launcher',
+  'remote',
+  'args',
+  'postStartInstructions',
+  'healthValidator',
+  'readiness',
+  'scope',
+  'envVars',
+  'restartPolicy',
+  'securityProfile',
+  'egress',
+  'bindAddress',
+  'authToken',
+  'stdioConfig',
+]
+const HEALTH_VALIDATOR_FIELDS = [
+  'method',
+  'params',
+  'responseContains',
+  'timeoutMs',
+]
+const READINESS_STRATEGIES = ['port', 'http', 'log', 'ping']
+const READINESS_FIELDS = [
+  'strategy',
+  'path',
+  'status',
+  'logPattern',
+  'timeoutMs',
+  'intervalMs',
+  'backoff',
+]
+const RESTART_POLICY_FIELDS = [
+  'enabled',
+  'maxRestarts',
+  'initialDelayMs',
+  'maxDelayMs',
+]
+const SECURITY_PROFILE_FIELDS = [
+  'enabled',
+  'readOnly',
+  'capAdd',
+  'noNewPrivileges',
+  'user',
+  'tmpfs',
+  'memory',
+  'cpus',
+  'pidsLimit',
+]
+const LAUNCHER_TYPES = ['npx', 'uvx', 'deno', 'binary']
+const LAUNCHER_FIELDS = ['type', 'package', 'launcherArgs', 'cwd']
+const REMOTE_FIELDS = ['url', 'headers']
+const REMOTE_URL_PATTERN = /^https?:\/\/\S+$/
+const EGRESS_FIELDS = ['allowedHosts']
+const EGRESS_HOST_PATTERN =
+  /^([a-z0-9-]+\.)*[a-z0-9-]+\.?$|^\[?[0-9a-f:.]+\]?$/i
+const AUTH_TOKEN_FIELDS = ['envVar']
+const BIND_ADDRESS_PATTERN = /^(\d{1,3}\.){3}\d{1,3}$|^[0-9a-f:]+$/i
+const ENV_VAR_FIELDS = ['name', 'description', 'required', 'secret', 'example']
+const ENV_VAR_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Check whether a value is a plain object (not null or an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Describe a value for error messages, e.g. `"htpp"` or `an array`
+ */
+function describeValue(value: unknown): string {
+  if (Array.isArray(value)) return 'an array'
+  if (value === null) return 'null'
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (typeof value === 'object') return 'an object'
+  return String(value)
+}
+
+/**
+ * Validate a server configuration object as exported by a `*.config.ts` module
+ *
+ * Every problem is reported rather than stopping at the first one. Unknown fields
+ * are reported as warnings since they are usually typos of real fields.
+ *
+ * @param config The module's default export
+ * @param filePath Path of the module, included in every issue
+ * @param expectedName Name derived from the file name, used to flag a mismatched `name`
+ * @returns Every issue found, empty when the configuration is valid
+ */
+export function validateServerConfig(
+  config: unknown,
+  filePath: string,
+  expectedName?: string,
+): ServerConfigIssue[] {
+  const issues: ServerConfigIssue[] = []
+  const error = (field: string, message: string) =>
+    issues.push({ filePath, field, message, severity: 'error' })
+  const warning = (field: string, message: string) =>
+    issues.push({ filePath, field, message, severity: 'warning' })
+
+  if (!isPlainObject(config)) {
+    error(
+      'default',
+      `must export a default configuration object, got ${
+        describeValue(config)
+      }`,
+    )
+    return issues
+  }
+
+  for (const field of ['description', 'image']) {
+    const value = config[field]
+    if (value === undefined) {
+      if (field === 'description') {
+        error(field, 'is required')
+      } else if (config.launcher === undefined && config.remote === undefined) {
+        // Native servers are launched from a package instead of an image,
+        // remote servers aren't run at all
+        error(
+          field,
+          'is required, or set launcher to run a local command or remote to connect to a hosted server',
+        )
+      }
+    } else if (typeof value !== 'string' || value.trim() === '') {
+      error(field, `must be a non-empty string, got ${describeValue(value)}`)
+    }
+  }
+
+  if (config.launcher !== undefined) {
+    const launcher = config.launcher
+    if (!isPlainObject(launcher)) {
+      error('launcher', `must be an object, got ${describeValue(launcher)}`)
+    } else {
+      if (!LAUNCHER_TYPES.includes(launcher.type as string)) {
+        error(
+          'launcher.type',
+          `must be one of ${LAUNCHER_TYPES.join(', ')}, got ${
+            describeValue(launcher.type)
+          }`,
+        )
+      }
+      if (
+        typeof launcher.package !== 'string' || launcher.package.trim() === ''
+      ) {
+        error(
+          'launcher.package',
+          `must be a non-empty string, got ${describeValue(launcher.package)}`,
+        )
+      }
+      if (
+        launcher.launcherArgs !== undefined &&
+        (!Array.isArray(launcher.launcherArgs) ||
+          !launcher.launcherArgs.every((arg) => typeof arg === 'string'))
+      ) {
+        error(
+          'launcher.launcherArgs',
+          `must be an array of strings, got ${
+            describeValue(launcher.launcherArgs)
+          }`,
+        )
+      }
+      if (
+        launcher.cwd !== undefined &&
+        (typeof launcher.cwd !== 'string' || launcher.cwd.trim() === '')
+      ) {
+        error(
+          'launcher.cwd',
+          `must be a non-empty string, got ${describeValue(launcher.cwd)}`,
+        )
+      }
+      for (const field of Object.keys(launcher)) {
+        if (!LAUNCHER_FIELDS.includes(field)) {
+          warning(`launcher.${field}`, 'is not a known field')
+        }
+      }
+    }
+
+    if (config.image !== undefined) {
+      error('launcher', 'can not be combined with image, set only one of them')
+    }
+    // Both are enforced by the container runtime, a local process has neither
+    for (const field of ['securityProfile', 'egress']) {
+      if (config[field] !== undefined) {
+        error(field, 'is only supported for container servers, not launcher')
+      }
+    }
+    if (config.bindAddress !== undefined) {
+      warning(
+        'bindAddress',
+        'is only used for containers, configure the address in the launched command',
+      )
+    }
+  }
+
+  if (config.remote !== undefined) {
+    const remote = config.remote
+    if (!isPlainObject(remote)) {
+      error('remote', `must be an object, got ${describeValue(remote)}`)
+    } else {
+      if (
+        typeof remote.url !== 'string' || !REMOTE_URL_PATTERN.test(remote.url)
+      ) {
+        error(
+          'remote.url',
+          `must be an http:// or https:// URL, got ${
+            describeValue(remote.url)
+          }`,
+        )
+      } else if (remote.url.startsWith('http://')) {
+        warning('remote.url', 'is not encrypted, prefer https://')
+      }
+      if (remote.headers !== undefined) {
+        if (!isPlainObject(remote.headers)) {
+          error(
+            'remote.headers',
+            `must be an object of header names to values, got ${
+              describeValue(remote.headers)
+            }`,
+          )
+        } else {
+          for (const [name, value] of Object.entries(remote.headers)) {
+            if (typeof value !== 'string') {
+              error(
+                `remote.headers.${name}`,
+                `must be a string, got ${describeValue(value)}`,
+              )
+            }
+          }
+        }
+      }
+      for (const field of Object.keys(remote)) {
+        if (!REMOTE_FIELDS.includes(field)) {
+          warning(`remote.${field}`, 'is not a known field')
+        }
+      }
+    }
+
+    if (config.type === 'stdio') {
+      error('remote', `needs type 'http' or 'streamable-http', not 'stdio'`)
+    }
+    for (const field of ['image', 'launcher']) {
+      if (config[field] !== undefined) {
+        error('remote', `can not be combined with ${field}, nothing is run`)
+      }
+    }
+    for (const field of ['securityProfile', 'egress']) {
+      if (config[field] !== undefined) {
+        error(field, 'is only supported for container servers, not remote')
+      }
+    }
+    for (
+      const field of ['bindAddress', 'authToken', 'restartPolicy', 'readiness']
+    ) {
+      if (config[field] !== undefined) {
+        warning(field, 'is not used by remote servers')
+      }
+    }
+    if (Array.isArray(config.args) && config.args.length > 0) {
+      warning('args', 'is not used by remote servers, use []')
+    }
+  }
+
+  if (config.type === undefined) {
+    error('type', `is required, expected one of ${TRANSPORT_TYPES.join(', ')}`)
+  } else if (!TRANSPORT_TYPES.includes(config.type as string)) {
+    error(
+      'type',
+      `must be one of ${TRANSPORT_TYPES.join(', ')}, got ${
+        describeValue(config.type)
+      }`,
+    )
+  }
+
+  if (config.args === undefined) {
+    error('args', 'is required, use [] when the image needs no arguments')
+  } else if (!Array.isArray(config.args)) {
+    error(
+      'args',
+      `must be an array of strings, got ${describeValue(config.args)}`,
+    )
+  } else {
+    config.args.forEach((arg, index) => {
+      if (typeof arg !== 'string') {
+        error(`args[${index}]`, `must be a string, got ${describeValue(arg)}`)
+      }
+    })
+  }
+
+  if (
+    config.name !== undefined && expectedName !== undefined &&
+    config.name !== expectedName
+  ) {
+    warning(
+      'name',
+      `${
+        describeValue(config.name)
+      } is ignored, servers are named after their file (${expectedName})`,
+    )
+  }
+
+  if (
+    config.postStartInstructions !== undefined &&
+    typeof config.postStartInstructions !== 'string'
+  ) {
+    error(
+      'postStartInstructions',
+      `must be a string, got ${describeValue(config.postStartInstructions)}`,
+    )
+  }
+
+  if (
+    config.scope !== undefined &&
+    !CONFIG_SCOPES.includes(config.scope as string)
+  ) {
+    error(
+      'scope',
+      `must be one of ${CONFIG_SCOPES.join(', ')}, got ${
+        describeValue(config.scope)
+      }`,
+    )
+  }
+
+  if (config.healthValidator !== undefined) {
+    const validator = config.healthValidator
+    if (!isPlainObject(validator)) {
+      error(
+        'healthValidator',
+        `must be an object, got ${describeValue(validator)}`,
+      )
+    } else {
+      if (typeof validator.method !== 'string' || validator.method === '') {
+        error(
+          'healthValidator.method',
+          `must be a non-empty MCP method name such as "tools/list", got ${
+            describeValue(validator.method)
+          }`,
+        )
+      }
+      if (!isPlainObject(validator.params)) {
+        error(
+          'healthValidator.params',
+          `must be an object, got ${describeValue(validator.params)}`,
+        )
+      }
+      if (
+        validator.responseContains !== undefined &&
+        typeof validator.responseContains !== 'string'
+      ) {
+        error(
+          'healthValidator.responseContains',
+          `must be a string, got ${describeValue(validator.responseContains)}`,
+        )
+      }
+      if (
+        validator.timeoutMs !== undefined &&
+        (typeof validator.timeoutMs !== 'number' ||
+          !Number.isFinite(validator.timeoutMs) || validator.timeoutMs <= 0)
+      ) {
+        error(
+          'healthValidator.timeoutMs',
+          `must be a positive number of milliseconds, got ${
+            describeValue(validator.timeoutMs)
+          }`,
+        )
+      }
+      for (const field of Object.keys(validator)) {
+        if (!HEALTH_VALIDATOR_FIELDS.includes(field)) {
+          warning(`healthValidator.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  if (config.readiness !== undefined) {
+    const readiness = config.readiness
+    if (!isPlainObject(readiness)) {
+      error('readiness', `must be an object, got ${describeValue(readiness)}`)
+    } else {
+      const strategy = readiness.strategy ?? 'port'
+      if (!READINESS_STRATEGIES.includes(strategy as string)) {
+        error(
+          'readiness.strategy',
+          `must be one of ${READINESS_STRATEGIES.join(', ')}, got ${
+            describeValue(readiness.strategy)
+          }`,
+        )
+      }
+      if (config.type === 'stdio') {
+        warning('readiness', 'is only used by HTTP servers')
+      }
+      if (
+        readiness.path !== undefined &&
+        (typeof readiness.path !== 'string' || !readiness.path.startsWith('/'))
+      ) {
+        error(
+          'readiness.path',
+          `must be a path starting with /, got ${
+            describeValue(readiness.path)
+          }`,
+        )
+      }
+      if (
+        readiness.status !== undefined &&
+        (!Number.isInteger(readiness.status) ||
+          (readiness.status as number) < 100 ||
+          (readiness.status as number) > 599)
+      ) {
+        error(
+          'readiness.status',
+          `must be an HTTP status code, got ${describeValue(readiness.status)}`,
+        )
+      }
+      if (strategy === 'log') {
+        if (
+          typeof readiness.logPattern !== 'string' ||
+          readiness.logPattern === ''
+        ) {
+          error(
+            'readiness.logPattern',
+            `is required by the log strategy, got ${
+              describeValue(readiness.logPattern)
+            }`,
+          )
+        } else {
+          try {
+            new RegExp(readiness.logPattern)
+          } catch (patternError) {
+            error(
+              'readiness.logPattern',
+              `is not a valid regular expression: ${
+                patternError instanceof Error
+                  ? patternError.message
+                  : String(patternError)
+              }`,
+            )
+          }
+        }
+      }
+      for (const field of ['path', 'status']) {
+        if (readiness[field] !== undefined && strategy !== 'http') {
+          warning(`readiness.${field}`, 'is only used by the http strategy')
+        }
+      }
+      if (readiness.logPattern !== undefined && strategy !== 'log') {
+        warning('readiness.logPattern', 'is only used by the log strategy')
+      }
+      for (const field of ['timeoutMs', 'intervalMs']) {
+        const value = readiness[field]
+        if (
+          value !== undefined &&
+          (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)
+        ) {
+          error(
+            `readiness.${field}`,
+            `must be a positive number of milliseconds, got ${
+              describeValue(value)
+            }`,
+          )
+        }
+      }
+      if (
+        readiness.backoff !== undefined &&
+        (typeof readiness.backoff !== 'number' ||
+          !Number.isFinite(readiness.backoff) || readiness.backoff < 1)
+      ) {
+        error(
+          'readiness.backoff',
+          `must be a number of at least 1, got ${
+            describeValue(readiness.backoff)
+          }`,
+        )
+      }
+      for (const field of Object.keys(readiness)) {
+        if (!READINESS_FIELDS.includes(field)) {
+          warning(`readiness.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  if (config.envVars !== undefined) {
+    if (!Array.isArray(config.envVars)) {
+      error(
+        'envVars',
+        `must be an array of variable definitions, got ${
+          describeValue(config.envVars)
+        }`,
+      )
+    } else {
+      const seen = new Set<string>()
+      config.envVars.forEach((envVar, index) => {
+        const prefix = `envVars[${index}]`
+        if (!isPlainObject(envVar)) {
+          error(prefix, `must be an object, got ${describeValue(envVar)}`)
+          return
+        }
+        if (
+          typeof envVar.name !== 'string' ||
+          !ENV_VAR_NAME_PATTERN.test(envVar.name)
+        ) {
+          error(
+            `${prefix}.name`,
+            `must be a valid environment variable name, got ${
+              describeValue(envVar.name)
+            }`,
+          )
+        } else if (seen.has(envVar.name)) {
+          error(`${prefix}.name`, `${envVar.name} is declared more than once`)
+        } else {
+          seen.add(envVar.name)
+        }
+        if (
+          typeof envVar.description !== 'string' ||
+          envVar.description.trim() === ''
+        ) {
+          error(
+            `${prefix}.description`,
+            `must be a non-empty string, got ${
+              describeValue(envVar.description)
+            }`,
+          )
+        }
+        for (const field of ['required', 'secret']) {
+          if (
+            envVar[field] !== undefined && typeof envVar[field] !== 'boolean'
+          ) {
+            error(
+              `${prefix}.${field}`,
+              `must be a boolean, got ${describeValue(envVar[field])}`,
+            )
+          }
+        }
+        if (
+          envVar.example !== undefined && typeof envVar.example !== 'string'
+        ) {
+          error(
+            `${prefix}.example`,
+            `must be a string, got ${describeValue(envVar.example)}`,
+          )
+        }
+        for (const field of Object.keys(envVar)) {
+          if (!ENV_VAR_FIELDS.includes(field)) {
+            warning(`${prefix}.${field}`, 'is not a known field')
+          }
+        }
+      })
+    }
+  }
+
+  if (config.restartPolicy !== undefined) {
+    const policy = config.restartPolicy
+    if (!isPlainObject(policy)) {
+      error(
+        'restartPolicy',
+        `must be an object, got ${describeValue(policy)}`,
+      )
+    } else {
+      if (policy.enabled !== undefined && typeof policy.enabled !== 'boolean') {
+        error(
+          'restartPolicy.enabled',
+          `must be a boolean, got ${describeValue(policy.enabled)}`,
+        )
+      }
+      if (
+        policy.maxRestarts !== undefined &&
+        (!Number.isInteger(policy.maxRestarts) ||
+          (policy.maxRestarts as number) < 0)
+      ) {
+        error(
+          'restartPolicy.maxRestarts',
+          `must be a non-negative integer, got ${
+            describeValue(policy.maxRestarts)
+          }`,
+        )
+      }
+      for (const field of ['initialDelayMs', 'maxDelayMs']) {
+        const value = policy[field]
+        if (
+          value !== undefined &&
+          (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)
+        ) {
+          error(
+            `restartPolicy.${field}`,
+            `must be a positive number of milliseconds, got ${
+              describeValue(value)
+            }`,
+          )
+        }
+      }
+      for (const field of Object.keys(policy)) {
+        if (!RESTART_POLICY_FIELDS.includes(field)) {
+          warning(`restartPolicy.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  if (config.securityProfile !== undefined) {
+    const profile = config.securityProfile
+    if (!isPlainObject(profile)) {
+      error(
+        'securityProfile',
+        `must be an object, got ${describeValue(profile)}`,
+      )
+    } else {
+      for (const field of ['enabled', 'readOnly', 'noNewPrivileges']) {
+        if (
+          profile[field] !== undefined && typeof profile[field] !== 'boolean'
+        ) {
+          error(
+            `securityProfile.${field}`,
+            `must be a boolean, got ${describeValue(profile[field])}`,
+          )
+        }
+      }
+      for (const field of ['user', 'memory', 'cpus']) {
+        if (
+          profile[field] !== undefined && typeof profile[field] !== 'string'
+        ) {
+          error(
+            `securityProfile.${field}`,
+            `must be a string, got ${describeValue(profile[field])}`,
+          )
+        }
+      }
+      for (const field of ['capAdd', 'tmpfs']) {
+        const value = profile[field]
+        if (
+          value !== undefined &&
+          (!Array.isArray(value) ||
+            value.some((item) => typeof item !== 'string'))
+        ) {
+          error(
+            `securityProfile.${field}`,
+            `must be an array of strings, got ${describeValue(value)}`,
+          )
+        }
+      }
+      if (
+        profile.pidsLimit !== undefined &&
+        (!Number.isInteger(profile.pidsLimit) ||
+          (profile.pidsLimit as number) < 0)
+      ) {
+        error(
+          'securityProfile.pidsLimit',
+          `must be a non-negative integer, got ${
+            describeValue(profile.pidsLimit)
+          }`,
+        )
+      }
+      for (const field of Object.keys(profile)) {
+        if (!SECURITY_PROFILE_FIELDS.includes(field)) {
+          warning(`securityProfile.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  if (config.egress !== undefined) {
+    const egress = config.egress
+    if (!isPlainObject(egress)) {
+      error('egress', `must be an object, got ${describeValue(egress)}`)
+    } else {
+      const hosts = egress.allowedHosts
+      if (!Array.isArray(hosts)) {
+        error(
+          'egress.allowedHosts',
+          `must be an array of host names, got ${describeValue(hosts)}`,
+        )
+      } else {
+        hosts.forEach((host, index) => {
+          if (typeof host !== 'string' || !EGRESS_HOST_PATTERN.test(host)) {
+            error(
+              `egress.allowedHosts[${index}]`,
+              `must be a host name like api.example.com, got ${
+                describeValue(host)
+              }`,
+            )
+          }
+        })
+        if (hosts.length === 0) {
+          warning(
+            'egress.allowedHosts',
+            'is empty, the server will not be able to reach any host',
+          )
+        }
+      }
+      for (const field of Object.keys(egress)) {
+        if (!EGRESS_FIELDS.includes(field)) {
+          warning(`egress.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  if (config.bindAddress !== undefined) {
+    if (
+      typeof config.bindAddress !== 'string' ||
+      !BIND_ADDRESS_PATTERN.test(config.bindAddress)
+    ) {
+      error(
+        'bindAddress',
+        `must be an IP address like 127.0.0.1, got ${
+          describeValue(config.bindAddress)
+        }`,
+      )
+    } else if (config.type === 'stdio') {
+      warning('bindAddress', 'is only used by HTTP servers')
+    }
+  }
+
+  if (config.authToken !== undefined) {
+    const authToken = config.authToken
+    if (!isPlainObject(authToken)) {
+      error('authToken', `must be an object, got ${describeValue(authToken)}`)
+    } else {
+      if (
+        typeof authToken.envVar !== 'string' ||
+        !ENV_VAR_NAME_PATTERN.test(authToken.envVar)
+      ) {
+        error(
+          'authToken.envVar',
+          `must be an env variable name, got ${
+            describeValue(authToken.envVar)
+          }`,
+        )
+      }
+      if (config.type === 'stdio') {
+        warning('authToken', 'is only used by HTTP servers')
+      }
+      for (const field of Object.keys(authToken)) {
+        if (!AUTH_TOKEN_FIELDS.includes(field)) {
+          warning(`authToken.${field}`, 'is not a known field')
+        }
+      }
+    }
+  }
+
+  for (const field of Object.keys(config)) {
+    if (!SERVER_CONFIG_FIELDS.includes(field)) {
+      warning(field, 'is not a known field')
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Format an issue as a single line, e.g. `servers/x.config.ts: type must be ...`
+ *
+ * @param issue Issue to format
+ * @returns Formatted issue
+ */
+export function formatServerConfigIssue(issue: ServerConfigIssue): string {
+  return `${issue.filePath}: ${issue.field} ${issue.message}`
+}
+
 /**
  * Validates that a specified server is enabled
  *
@@ -43,3 +823,5 @@ export async function validateServerSelection(
 
   return true
 }
+
+export type { ServerConfigIssue }
@@ -0,0 +1,80 @@
+/**
+ * @module sse-parser
+ * @description Minimal Server-Sent Events parser for fetch response bodies.
+ * @see {@link https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation}
+ */
+
+/**
+ * A single dispatched Server-Sent Event
+ */
+interface SseEvent {
+  /** Event type, defaults to 'message' when the stream does not set one */
+  event: string
+  /** Event data, multiple data lines are joined with a newline */
+  data: string
+  /** Last event ID seen on the stream, if any */
+  id?: string
+}
+
+/**
+ * Parse a byte stream of Server-Sent Events into individual events
+ *
+ * @param stream Readable stream, usually `response.body` from fetch
+ * @returns Async generator yielding each dispatched event
+ */
+async function* parseSseStream(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<SseEvent> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  let eventType = ''
+  let dataLines: string[] = []
+  let lastEventId: string | undefined
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += value
+      const lines = buffer.split(/\r\n|\r|\n/)
+      // Keep the last (potentially incomplete) line in the buffer
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        // A blank line dispatches the event
+        if (line === '') {
+          if (dataLines.length > 0) {
+            yield {
+              event: eventType || 'message',
+              data: dataLines.join('\n'),
+              ...(lastEventId !== undefined ? { id: lastEventId } : {}),
+            }
+          }
+          eventType = ''
+          dataLines = []
+          continue
+        }
+
+        // Lines starting with a colon are comments
+        if (line.startsWith(':')) continue
+
+        const separatorIndex = line.indexOf(':')
+        const field = separatorIndex === -1
+          ? line
+          : line.slice(0, separatorIndex)
+        let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1)
+        if (value.startsWith(' ')) value = value.slice(1)
+
+        if (field === 'event') eventType = value
+        else if (field === 'data') dataLines.push(value)
+        else if (field === 'id') lastEventId = value
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+export { parseSseStream }
+export type { SseEvent }